@@ -5,6 +5,11 @@ import { ProductsPanel } from "./products/products-panel";
 import { ConfigurationPanel } from "./configuration/ConfigurationPanel";
 import { TaskScreen } from "./detailed-planning/task-screen";
 import { TaskGraph } from "./high-level-planning/task-graph";
+import { QueuePanel } from "./queue/queue-panel";
+import { AutopilotPanel } from "./autopilot/autopilot-panel";
+import { PromptTemplatesPanel } from "./prompt-templates/prompt-templates-panel";
+import { AgentsPanel } from "./agents/agents-panel";
+import { WorktreesPanel } from "./worktrees/worktrees-panel";
 
 function Home() {
   return <div className="p-8">Home</div>;
@@ -26,6 +31,11 @@ export function App() {
         <Route path="/task" element={<TaskScreen />} />
         <Route path="/task/:taskId" element={<TaskScreenWrapper />} />
         <Route path="/products" element={<ProductsPanel />} />
+        <Route path="/queue" element={<QueuePanel />} />
+        <Route path="/autopilot" element={<AutopilotPanel />} />
+        <Route path="/prompt-templates" element={<PromptTemplatesPanel />} />
+        <Route path="/agents" element={<AgentsPanel />} />
+        <Route path="/worktrees" element={<WorktreesPanel />} />
       </Routes>
     </HashRouter>
   );
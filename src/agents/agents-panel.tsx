@@ -0,0 +1,311 @@
+import { useEffect, useState } from "react";
+import {
+    createAgent,
+    loadAgents,
+    removeAgent,
+    updateAgent,
+    type Agent,
+} from "src/task-execution/agent-storage";
+import {
+    DEFAULT_AGENT,
+    PROMPT_MODES,
+    type AgentDefinition,
+    type PromptMode,
+} from "src/task-execution/agents/types";
+
+const PROMPT_MODE_LABELS: Record<PromptMode, string> = {
+    argv: "Argument ({prompt}, or last argument)",
+    stdin: "Standard input",
+    file: "File ({promptFile}, or last argument)",
+};
+
+function parseEnv(text: string): Record<string, string> | string {
+    const env: Record<string, string> = {};
+    for (const line of text.split("\n")) {
+        if (!line.trim()) {
+            continue;
+        }
+        const separator = line.indexOf("=");
+        const name = line.slice(0, separator).trim();
+        if (separator === -1 || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+            return `Invalid environment variable: ${line}`;
+        }
+        env[name] = line.slice(separator + 1);
+    }
+    return env;
+}
+
+export function AgentsPanel() {
+    const [agents, setAgents] = useState<Agent[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [nameInput, setNameInput] = useState("");
+    const [commandInput, setCommandInput] = useState("");
+    const [argsInput, setArgsInput] = useState("");
+    const [promptMode, setPromptMode] = useState<PromptMode>("argv");
+    const [envInput, setEnvInput] = useState("");
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        loadAgentsFromStorage();
+    }, []);
+
+    const loadAgentsFromStorage = async () => {
+        try {
+            setLoading(true);
+            setError(null);
+            setAgents(await loadAgents());
+        } catch (err) {
+            console.error("Failed to load agents:", err);
+            setError("Failed to load agents. Please check file permissions.");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const selectAgent = (agent: Agent | null) => {
+        setSelectedId(agent?.uuid ?? null);
+        setNameInput(agent?.name ?? "");
+        setCommandInput(agent?.command ?? "");
+        setArgsInput(agent?.args.join("\n") ?? "");
+        setPromptMode(agent?.promptMode ?? "argv");
+        setEnvInput(
+            Object.entries(agent?.env ?? {})
+                .map(([name, value]) => `${name}=${value}`)
+                .join("\n"),
+        );
+        setSaved(false);
+        setError(null);
+    };
+
+    const handleSave = async () => {
+        if (!nameInput.trim() || !commandInput.trim()) {
+            setError("Agent name and command are required");
+            return;
+        }
+        const env = parseEnv(envInput);
+        if (typeof env === "string") {
+            setError(env);
+            return;
+        }
+
+        const definition: AgentDefinition = {
+            name: nameInput.trim(),
+            command: commandInput.trim(),
+            args: argsInput.split("\n").filter((arg) => arg.trim() !== ""),
+            promptMode,
+            env,
+        };
+
+        try {
+            setError(null);
+            if (selectedId) {
+                const updatedAgent = { uuid: selectedId, ...definition };
+                await updateAgent(updatedAgent);
+                setAgents(
+                    agents.map((a) => (a.uuid === selectedId ? updatedAgent : a)),
+                );
+            } else {
+                const newAgent = await createAgent(definition);
+                setAgents([...agents, newAgent]);
+                setSelectedId(newAgent.uuid);
+            }
+            setSaved(true);
+        } catch (err) {
+            console.error("Failed to save agent:", err);
+            setError("Failed to save agent. Please try again.");
+        }
+    };
+
+    const handleRemove = async (agentId: string) => {
+        try {
+            setError(null);
+            await removeAgent(agentId);
+            setAgents(agents.filter((a) => a.uuid !== agentId));
+            if (selectedId === agentId) {
+                selectAgent(null);
+            }
+        } catch (err) {
+            console.error("Failed to remove agent:", err);
+            setError("Failed to remove agent. Please try again.");
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="container mx-auto p-6">
+                <div className="flex justify-center items-center py-12">
+                    <span className="loading loading-spinner loading-lg"></span>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="container mx-auto p-6">
+            <h2 className="text-3xl font-bold mb-6">Agents</h2>
+
+            {error && (
+                <div className="alert alert-error mb-6">
+                    <span>{error}</span>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Agent List - Left Side */}
+                <div className="lg:col-span-1">
+                    <div className="card bg-base-100 shadow-xl">
+                        <div className="card-body">
+                            <h3 className="card-title text-xl mb-2">
+                                Agent CLIs
+                            </h3>
+                            <div className="p-2 rounded bg-base-200 text-sm text-gray-500">
+                                {DEFAULT_AGENT.name} (built-in, used when no
+                                agent is picked)
+                            </div>
+                            {agents.map((agent) => (
+                                <div
+                                    key={agent.uuid}
+                                    className={`flex items-center gap-2 p-2 rounded cursor-pointer hover:bg-base-200 ${
+                                        agent.uuid === selectedId
+                                            ? "bg-blue-50 border border-blue-200"
+                                            : ""
+                                    }`}
+                                    onClick={() => selectAgent(agent)}
+                                >
+                                    <div className="flex-1">
+                                        <div className="text-sm font-medium">
+                                            {agent.name}
+                                        </div>
+                                        <div className="text-xs font-mono text-gray-500">
+                                            {agent.command}
+                                        </div>
+                                    </div>
+                                    <button
+                                        className="btn btn-error btn-xs"
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleRemove(agent.uuid);
+                                        }}
+                                    >
+                                        Remove
+                                    </button>
+                                </div>
+                            ))}
+                            <button
+                                className="btn btn-outline btn-sm mt-2"
+                                onClick={() => selectAgent(null)}
+                            >
+                                New Agent
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Agent Editor - Right Side */}
+                <div className="lg:col-span-2">
+                    <div className="card bg-base-100 shadow-xl">
+                        <div className="card-body">
+                            <h3 className="card-title text-xl mb-2">
+                                {selectedId ? "Edit Agent" : "New Agent"}
+                            </h3>
+
+                            <div className="form-control w-full">
+                                <label className="label flex-col items-start">
+                                    <span className="label-text font-semibold mb-1">
+                                        Name *
+                                    </span>
+                                </label>
+                                <input
+                                    type="text"
+                                    className="input input-bordered w-full"
+                                    value={nameInput}
+                                    onChange={(e) => setNameInput(e.target.value)}
+                                />
+                            </div>
+
+                            <div className="form-control w-full">
+                                <label className="label flex-col items-start">
+                                    <span className="label-text font-semibold mb-1">
+                                        Command *
+                                    </span>
+                                </label>
+                                <input
+                                    type="text"
+                                    placeholder="e.g. claude or /home/user/bin/agent.sh"
+                                    className="input input-bordered w-full font-mono"
+                                    value={commandInput}
+                                    onChange={(e) => setCommandInput(e.target.value)}
+                                />
+                            </div>
+
+                            <div className="form-control w-full">
+                                <label className="label flex-col items-start">
+                                    <span className="label-text font-semibold mb-1">
+                                        Prompt
+                                    </span>
+                                </label>
+                                <select
+                                    className="select select-bordered w-full"
+                                    value={promptMode}
+                                    onChange={(e) =>
+                                        setPromptMode(e.target.value as PromptMode)
+                                    }
+                                >
+                                    {PROMPT_MODES.map((mode) => (
+                                        <option key={mode} value={mode}>
+                                            {PROMPT_MODE_LABELS[mode]}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="form-control w-full">
+                                <label className="label flex-col items-start">
+                                    <span className="label-text font-semibold mb-1">
+                                        Arguments (one per line)
+                                    </span>
+                                </label>
+                                <textarea
+                                    className="textarea textarea-bordered w-full font-mono text-sm"
+                                    rows={4}
+                                    value={argsInput}
+                                    onChange={(e) => setArgsInput(e.target.value)}
+                                />
+                            </div>
+
+                            <div className="form-control w-full">
+                                <label className="label flex-col items-start">
+                                    <span className="label-text font-semibold mb-1">
+                                        Environment (NAME=value, one per line)
+                                    </span>
+                                </label>
+                                <textarea
+                                    className="textarea textarea-bordered w-full font-mono text-sm"
+                                    rows={3}
+                                    value={envInput}
+                                    onChange={(e) => setEnvInput(e.target.value)}
+                                />
+                            </div>
+
+                            <div className="flex items-center gap-2 mt-2">
+                                <button
+                                    className="btn btn-primary btn-sm"
+                                    onClick={handleSave}
+                                >
+                                    Save
+                                </button>
+                                {saved && (
+                                    <span className="text-success text-sm">
+                                        Saved!
+                                    </span>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,122 @@
+/**
+ * Data API
+ *
+ * JSON routes under /api that read and change tasks, products, workstreams,
+ * the inbox and the global order on the server, for scripts and agents that
+ * work without the UI. They use the same service functions as the UI, with
+ * the data files kept in the directory given by the SOLTRA_DATA_DIR
+ * environment variable. Without it the routes answer 503.
+ *
+ * Requests are handled one at a time: the services load a file, change it
+ * and store it again, so concurrent requests could otherwise lose updates.
+ */
+
+import { setStorageBackend } from "src/persistence/storage-backend";
+import { createDataDirectoryBackend } from "src/persistence/data-directory-backend";
+import { registerWorkstreamTaskCleanupCallback } from "src/entities/workstreams/workstream-hooks";
+import { registerGlobalOrderHooks } from "src/high-level-planning/global-order-hooks";
+
+type RequestHandler<R extends Request> = (req: R) => Promise<Response>;
+
+let dataDirectory: string | null = null;
+let pending: Promise<unknown> = Promise.resolve();
+
+/**
+ * Point the data files at SOLTRA_DATA_DIR and register the hooks that keep
+ * them consistent. The UI's other hooks start worktree cleanups and
+ * autopilot runs, which stay with the UI.
+ *
+ * @returns The data directory, or null if none is configured
+ */
+export function initDataApi(): string | null {
+    const directory = process.env.SOLTRA_DATA_DIR;
+    if (!directory) {
+        return null;
+    }
+
+    setStorageBackend(createDataDirectoryBackend(directory));
+    registerWorkstreamTaskCleanupCallback();
+    registerGlobalOrderHooks();
+    dataDirectory = directory;
+    return directory;
+}
+
+/**
+ * Run a data API handler once the previous requests are done, answering
+ * 503 without a data directory and 500 for unexpected errors.
+ */
+export function withDataApi<R extends Request>(
+    handler: RequestHandler<R>,
+): RequestHandler<R> {
+    return async (req) => {
+        if (!dataDirectory) {
+            return Response.json(
+                {
+                    error: "No data directory configured",
+                    details: "Set SOLTRA_DATA_DIR and restart the server.",
+                },
+                { status: 503 }
+            );
+        }
+
+        const response = pending.then(() => handler(req));
+        pending = response.catch(() => undefined);
+        try {
+            return await response;
+        } catch (error) {
+            return Response.json(
+                {
+                    error: "Request failed",
+                    details: error instanceof Error ? error.message : String(error),
+                },
+                { status: 500 }
+            );
+        }
+    };
+}
+
+/**
+ * The JSON object in the request body, or a 400 response.
+ */
+export async function readJsonObject(
+    req: Request,
+): Promise<Record<string, unknown> | Response> {
+    try {
+        const body = await req.json();
+        if (body && typeof body === "object" && !Array.isArray(body)) {
+            return body;
+        }
+    } catch {
+        // Answered below
+    }
+    return Response.json(
+        { error: "Request body must be a JSON object" },
+        { status: 400 }
+    );
+}
+
+/**
+ * 404 response for an entity that doesn't exist.
+ */
+export function notFound(kind: string, id: string): Response {
+    return Response.json(
+        { error: `${kind} not found`, details: `No ${kind.toLowerCase()} with id ${id}` },
+        { status: 404 }
+    );
+}
+
+/**
+ * 400 response for a request the services refused, e.g. adding a task
+ * that already belongs to another workstream.
+ */
+export function badRequest(error: string, details?: unknown): Response {
+    return Response.json(
+        {
+            error,
+            ...(details !== undefined && {
+                details: details instanceof Error ? details.message : String(details),
+            }),
+        },
+        { status: 400 }
+    );
+}
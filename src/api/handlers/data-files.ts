@@ -0,0 +1,51 @@
+import { DATA_FILE_NAMES, readFile, writeFile, type DataFileName } from "src/persistence/storage-backend";
+import { badRequest, notFound } from "../data-api";
+
+function toDataFileName(name: string): DataFileName | null {
+    return DATA_FILE_NAMES.find((fileName) => fileName === name) ?? null;
+}
+
+/**
+ * Handler for GET /api/data/:fileName
+ * The raw content of a data file, 204 if it doesn't exist or is empty.
+ * Used by the UI's HTTP storage backend.
+ */
+export async function getDataFileHandler(
+    req: Request & { params: { fileName: string } },
+): Promise<Response> {
+    const fileName = toDataFileName(req.params.fileName);
+    if (!fileName) {
+        return notFound("Data file", req.params.fileName);
+    }
+
+    const content = await readFile(fileName);
+    if (content === null) {
+        return new Response(null, { status: 204 });
+    }
+    return new Response(content, {
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+/**
+ * Handler for PUT /api/data/:fileName
+ * Replaces a data file with the request body, which must be valid JSON.
+ */
+export async function putDataFileHandler(
+    req: Request & { params: { fileName: string } },
+): Promise<Response> {
+    const fileName = toDataFileName(req.params.fileName);
+    if (!fileName) {
+        return notFound("Data file", req.params.fileName);
+    }
+
+    const content = await req.text();
+    try {
+        JSON.parse(content);
+    } catch (error) {
+        return badRequest("Request body must be valid JSON", error);
+    }
+
+    await writeFile(fileName, content);
+    return new Response(null, { status: 204 });
+}
@@ -0,0 +1,51 @@
+import { loadTasks } from "src/entities/tasks/task-file-storage";
+import { loadWorkstreams } from "src/entities/workstreams/workstream-file-storage";
+import { getGlobalOrder, updateGlobalOrder } from "src/high-level-planning/global-order-service";
+import type { OrderItem } from "src/high-level-planning/global-order-storage";
+import { badRequest, readJsonObject } from "../data-api";
+
+/**
+ * Handler for GET /api/global-order
+ * The order of tasks and workstreams in the DAG view, top first.
+ */
+export async function getGlobalOrderHandler(): Promise<Response> {
+    return Response.json({ order: await getGlobalOrder() });
+}
+
+/**
+ * Handler for PUT /api/global-order
+ * Replaces the order with { order: [{ type: "task" | "workstream", uuid }] }.
+ * Every item must exist and appear once.
+ */
+export async function updateGlobalOrderHandler(req: Request): Promise<Response> {
+    const body = await readJsonObject(req);
+    if (body instanceof Response) {
+        return body;
+    }
+
+    const { order } = body;
+    if (!Array.isArray(order)) {
+        return badRequest("Order must be an array");
+    }
+
+    const [tasks, workstreams] = await Promise.all([loadTasks(), loadWorkstreams()]);
+    const known = new Set([
+        ...tasks.map((task) => `task:${task.uuid}`),
+        ...workstreams.map((ws) => `workstream:${ws.uuid}`),
+    ]);
+    const seen = new Set<string>();
+    for (const item of order) {
+        const key = `${item?.type}:${item?.uuid}`;
+        if (!known.has(key)) {
+            return badRequest("Unknown order item", key);
+        }
+        if (seen.has(key)) {
+            return badRequest("Duplicate order item", key);
+        }
+        seen.add(key);
+    }
+
+    const items: OrderItem[] = order.map((item) => ({ type: item.type, uuid: item.uuid }));
+    await updateGlobalOrder(items);
+    return Response.json({ order: items });
+}
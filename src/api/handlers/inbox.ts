@@ -0,0 +1,65 @@
+import {
+    addInboxTask,
+    loadInboxTasks,
+    removeInboxTask,
+} from "src/entities/tasks/task-inbox-storage";
+import { convertInboxTaskToTask } from "src/entities/tasks/task-inbox-service";
+import { badRequest, notFound, readJsonObject } from "../data-api";
+
+/**
+ * Handler for GET /api/inbox
+ */
+export async function listInboxHandler(): Promise<Response> {
+    return Response.json({ inbox: await loadInboxTasks() });
+}
+
+/**
+ * Handler for POST /api/inbox
+ * Adds { title } to the inbox. Inbox items are identified by their title.
+ */
+export async function addInboxHandler(req: Request): Promise<Response> {
+    const body = await readJsonObject(req);
+    if (body instanceof Response) {
+        return body;
+    }
+
+    const { title } = body;
+    if (typeof title !== "string" || !title.trim()) {
+        return badRequest("Title is required");
+    }
+    if ((await loadInboxTasks()).some((item) => item.title === title.trim())) {
+        return Response.json(
+            { error: "Inbox item exists", details: `"${title.trim()}" is in the inbox already` },
+            { status: 409 }
+        );
+    }
+
+    const item = await addInboxTask({ title: title.trim() });
+    return Response.json({ item }, { status: 201 });
+}
+
+/**
+ * Handler for DELETE /api/inbox/:title
+ */
+export async function removeInboxHandler(req: Request, title: string): Promise<Response> {
+    if (!(await loadInboxTasks()).some((item) => item.title === title)) {
+        return notFound("Inbox item", title);
+    }
+
+    await removeInboxTask(title);
+    return Response.json({ deleted: title });
+}
+
+/**
+ * Handler for POST /api/inbox/:title/convert
+ * Turns the inbox item into a task in triage.
+ */
+export async function convertInboxHandler(req: Request, title: string): Promise<Response> {
+    const item = (await loadInboxTasks()).find((inboxItem) => inboxItem.title === title);
+    if (!item) {
+        return notFound("Inbox item", title);
+    }
+
+    const task = await convertInboxTaskToTask(item);
+    return Response.json({ task }, { status: 201 });
+}
@@ -0,0 +1,178 @@
+import {
+    createProduct,
+    loadProducts,
+    storeProducts,
+    updateProduct,
+} from "src/entities/products/product-file-storage";
+import type { Product } from "src/entities/products/types";
+import { MERGE_MODES, type MergeMode } from "src/task-execution/worktrees/types";
+import { badRequest, notFound, readJsonObject } from "../data-api";
+
+const isString = (value: unknown) => typeof value === "string";
+const isStringArray = (value: unknown) =>
+    Array.isArray(value) && value.every((item) => typeof item === "string");
+
+/**
+ * Product fields PATCH may change, with their validation. Null clears an
+ * optional field so it is inherited again.
+ */
+const EDITABLE_FIELDS: Partial<Record<keyof Product, (value: unknown) => boolean>> = {
+    title: (value) => isString(value) && (value as string).trim() !== "",
+    description: isString,
+    parent: isString,
+    workingDirectory: isString,
+    promptTemplateId: isString,
+    agentId: isString,
+    async: (value) => typeof value === "boolean",
+    defaultContext: isStringArray,
+    baseBranch: isString,
+    mergeMode: (value) => MERGE_MODES.includes(value as MergeMode),
+    verificationCommands: isStringArray,
+    contextPresets: (value) =>
+        Array.isArray(value) &&
+        value.every(
+            (preset) =>
+                isString(preset?.id) && isString(preset?.name) && isStringArray(preset?.paths)
+        ),
+};
+const REQUIRED_FIELDS = new Set<keyof Product>(["title", "description"]);
+
+/**
+ * Whether making `parentId` the parent of `productId` would make the product
+ * its own ancestor.
+ */
+function wouldCreateCycle(products: Product[], productId: string, parentId: string): boolean {
+    let current: string | undefined = parentId;
+    while (current) {
+        if (current === productId) {
+            return true;
+        }
+        current = products.find((p) => p.uuid === current)?.parent;
+    }
+    return false;
+}
+
+/**
+ * Handler for GET /api/products
+ */
+export async function listProductsHandler(): Promise<Response> {
+    return Response.json({ products: await loadProducts() });
+}
+
+/**
+ * Handler for POST /api/products
+ * Creates a product from { title, description?, parent?, workingDirectory? }.
+ */
+export async function createProductHandler(req: Request): Promise<Response> {
+    const body = await readJsonObject(req);
+    if (body instanceof Response) {
+        return body;
+    }
+
+    const { title, description, parent, workingDirectory } = body;
+    if (typeof title !== "string" || !title.trim()) {
+        return badRequest("Title is required");
+    }
+    if (description !== undefined && typeof description !== "string") {
+        return badRequest("Description must be a string");
+    }
+    if (workingDirectory !== undefined && typeof workingDirectory !== "string") {
+        return badRequest("Working directory must be a string");
+    }
+    if (parent !== undefined) {
+        const products = await loadProducts();
+        if (typeof parent !== "string" || !products.some((p) => p.uuid === parent)) {
+            return badRequest("Parent must be the id of an existing product");
+        }
+    }
+
+    const product = await createProduct(
+        title.trim(),
+        description ?? "",
+        parent as string | undefined,
+        workingDirectory || undefined
+    );
+    return Response.json({ product }, { status: 201 });
+}
+
+/**
+ * Handler for GET /api/products/:id
+ * The product and the ids of its direct sub-products.
+ */
+export async function getProductHandler(req: Request, productId: string): Promise<Response> {
+    const products = await loadProducts();
+    const product = products.find((p) => p.uuid === productId);
+    if (!product) {
+        return notFound("Product", productId);
+    }
+    return Response.json({
+        product,
+        children: products.filter((p) => p.parent === productId).map((p) => p.uuid),
+    });
+}
+
+/**
+ * Handler for PATCH /api/products/:id
+ * Changes the given fields, see EDITABLE_FIELDS. Tasks are moved between
+ * products through PATCH /api/tasks/:id.
+ */
+export async function updateProductHandler(req: Request, productId: string): Promise<Response> {
+    const body = await readJsonObject(req);
+    if (body instanceof Response) {
+        return body;
+    }
+
+    const products = await loadProducts();
+    const product = products.find((p) => p.uuid === productId);
+    if (!product) {
+        return notFound("Product", productId);
+    }
+
+    const updatedProduct: Record<string, unknown> = { ...product };
+    for (const [field, value] of Object.entries(body)) {
+        const isValid = EDITABLE_FIELDS[field as keyof Product];
+        if (!isValid) {
+            return badRequest(`Field ${field} can't be changed`);
+        }
+        if (value === null && !REQUIRED_FIELDS.has(field as keyof Product)) {
+            delete updatedProduct[field];
+        } else if (isValid(value)) {
+            updatedProduct[field] = value;
+        } else {
+            return badRequest(`Invalid value for ${field}`);
+        }
+    }
+
+    if (typeof body.parent === "string") {
+        if (!products.some((p) => p.uuid === body.parent)) {
+            return badRequest("Parent must be the id of an existing product");
+        }
+        if (wouldCreateCycle(products, productId, body.parent)) {
+            return badRequest("A product can't be its own ancestor");
+        }
+    }
+
+    await updateProduct(updatedProduct as unknown as Product);
+    return Response.json({ product: updatedProduct });
+}
+
+/**
+ * Handler for DELETE /api/products/:id
+ * Products with sub-products are kept, remove or move those first. Tasks of
+ * the product stay, without a product.
+ */
+export async function deleteProductHandler(req: Request, productId: string): Promise<Response> {
+    const products = await loadProducts();
+    if (!products.some((p) => p.uuid === productId)) {
+        return notFound("Product", productId);
+    }
+    if (products.some((p) => p.parent === productId)) {
+        return Response.json(
+            { error: "Product has sub-products", details: "Remove or move its sub-products first." },
+            { status: 409 }
+        );
+    }
+
+    await storeProducts(products.filter((p) => p.uuid !== productId));
+    return Response.json({ deleted: productId });
+}
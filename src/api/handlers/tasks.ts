@@ -0,0 +1,189 @@
+import { loadTasks } from "src/entities/tasks/task-file-storage";
+import { createTask, removeTask, updateTask } from "src/entities/tasks/task-service";
+import { TASK_STATUSES, type Task, type TaskStatus } from "src/entities/tasks/types";
+import {
+    getProductByTaskUuid,
+    setProductOfTask,
+} from "src/entities/products/product-service";
+import { loadWorkstreams } from "src/entities/workstreams/workstream-file-storage";
+import { addTaskToWorkstream } from "src/entities/workstreams/workstream-service";
+import { badRequest, notFound, readJsonObject } from "../data-api";
+
+function isTaskStatus(value: unknown): value is TaskStatus {
+    return TASK_STATUSES.includes(value as TaskStatus);
+}
+
+const INVALID_STATUS = `Status must be one of ${TASK_STATUSES.join(", ")}.`;
+
+/**
+ * A task with the product and workstream it belongs to.
+ */
+async function describeTask(task: Task) {
+    const [product, workstreams] = await Promise.all([
+        getProductByTaskUuid(task.uuid),
+        loadWorkstreams(),
+    ]);
+    return {
+        ...task,
+        productId: product?.uuid ?? null,
+        workstreamId: workstreams.find((ws) => ws.tasks.includes(task.uuid))?.uuid ?? null,
+    };
+}
+
+/**
+ * Handler for GET /api/tasks
+ * Lists all tasks, optionally only those with ?status=...
+ */
+export async function listTasksHandler(req: Request): Promise<Response> {
+    const status = new URL(req.url).searchParams.get("status");
+    if (status !== null && !isTaskStatus(status)) {
+        return badRequest(INVALID_STATUS);
+    }
+
+    const tasks = await loadTasks();
+    return Response.json({
+        tasks: status ? tasks.filter((task) => task.status === status) : tasks,
+    });
+}
+
+/**
+ * Handler for POST /api/tasks
+ * Creates a task from { title, description?, status?, productId?, workstreamId? }.
+ */
+export async function createTaskHandler(req: Request): Promise<Response> {
+    const body = await readJsonObject(req);
+    if (body instanceof Response) {
+        return body;
+    }
+
+    const { title, description, status, productId, workstreamId } = body;
+    if (typeof title !== "string" || !title.trim()) {
+        return badRequest("Title is required");
+    }
+    if (description !== undefined && typeof description !== "string") {
+        return badRequest("Description must be a string");
+    }
+    if (status !== undefined && !isTaskStatus(status)) {
+        return badRequest(INVALID_STATUS);
+    }
+    if (productId !== undefined && typeof productId !== "string") {
+        return badRequest("Product id must be a string");
+    }
+    if (workstreamId !== undefined && typeof workstreamId !== "string") {
+        return badRequest("Workstream id must be a string");
+    }
+
+    let task = await createTask(title.trim(), description ?? "");
+    if (status && status !== task.status) {
+        task = { ...task, status };
+        await updateTask(task);
+    }
+
+    // The task exists by now, so report what couldn't be set up with it
+    try {
+        if (productId) {
+            await setProductOfTask(task.uuid, productId);
+        }
+        if (workstreamId) {
+            await addTaskToWorkstream(workstreamId, task.uuid);
+        }
+    } catch (error) {
+        return Response.json(
+            {
+                error: "Task created, but not added to its product or workstream",
+                details: error instanceof Error ? error.message : String(error),
+                task: await describeTask(task),
+            },
+            { status: 400 }
+        );
+    }
+
+    return Response.json({ task: await describeTask(task) }, { status: 201 });
+}
+
+/**
+ * Handler for GET /api/tasks/:id
+ */
+export async function getTaskHandler(req: Request, taskId: string): Promise<Response> {
+    const task = (await loadTasks()).find((t) => t.uuid === taskId);
+    if (!task) {
+        return notFound("Task", taskId);
+    }
+    return Response.json({ task: await describeTask(task) });
+}
+
+/**
+ * Handler for PATCH /api/tasks/:id
+ * Updates { title?, description?, status?, productId? } and appends { note? }
+ * to the task's notes. A productId of null removes the task from its product.
+ */
+export async function updateTaskHandler(req: Request, taskId: string): Promise<Response> {
+    const body = await readJsonObject(req);
+    if (body instanceof Response) {
+        return body;
+    }
+
+    const task = (await loadTasks()).find((t) => t.uuid === taskId);
+    if (!task) {
+        return notFound("Task", taskId);
+    }
+
+    const { title, description, status, note, productId } = body;
+    if (title !== undefined && (typeof title !== "string" || !title.trim())) {
+        return badRequest("Title must be a non-empty string");
+    }
+    if (description !== undefined && typeof description !== "string") {
+        return badRequest("Description must be a string");
+    }
+    if (status !== undefined && !isTaskStatus(status)) {
+        return badRequest(INVALID_STATUS);
+    }
+    if (note !== undefined && (typeof note !== "string" || !note.trim())) {
+        return badRequest("Note must be a non-empty string");
+    }
+    if (productId !== undefined && productId !== null && typeof productId !== "string") {
+        return badRequest("Product id must be a string or null");
+    }
+
+    const updatedTask: Task = {
+        ...task,
+        ...(title !== undefined && { title: title.trim() }),
+        ...(description !== undefined && { description }),
+        ...(status !== undefined && { status }),
+        ...(note !== undefined && {
+            notes: [
+                ...(task.notes ?? []),
+                { createdAt: new Date().toISOString(), text: note.trim() },
+            ],
+        }),
+    };
+    await updateTask(updatedTask);
+
+    if (productId !== undefined) {
+        try {
+            await setProductOfTask(taskId, productId);
+        } catch (error) {
+            return badRequest("Could not move the task to the product", error);
+        }
+    }
+
+    return Response.json({ task: await describeTask(updatedTask) });
+}
+
+/**
+ * Handler for DELETE /api/tasks/:id
+ * Removes the task, its workstream connections and its place in the global order.
+ */
+export async function deleteTaskHandler(req: Request, taskId: string): Promise<Response> {
+    const task = (await loadTasks()).find((t) => t.uuid === taskId);
+    if (!task) {
+        return notFound("Task", taskId);
+    }
+
+    await removeTask(taskId);
+    const product = await getProductByTaskUuid(taskId);
+    if (product) {
+        await setProductOfTask(taskId, null);
+    }
+    return Response.json({ deleted: taskId });
+}
@@ -0,0 +1,211 @@
+import { loadTasks } from "src/entities/tasks/task-file-storage";
+import {
+    createWorkstream,
+    loadWorkstreams,
+} from "src/entities/workstreams/workstream-file-storage";
+import {
+    addDependency,
+    addTaskToWorkstream,
+    removeDependency,
+    removeTaskFromWorkstream,
+    removeWorkstream,
+    updateWorkstream,
+    wouldCreateCycle,
+} from "src/entities/workstreams/workstream-service";
+import { triggerWorkstreamDeleteCallbacks } from "src/entities/workstreams/workstream-hooks";
+import type { DependencyType } from "src/entities/workstreams/types";
+import { badRequest, notFound, readJsonObject } from "../data-api";
+
+const DEPENDENCY_TYPES: DependencyType[] = ["blocks", "related"];
+
+/**
+ * Handler for GET /api/workstreams
+ */
+export async function listWorkstreamsHandler(): Promise<Response> {
+    return Response.json({ workstreams: await loadWorkstreams() });
+}
+
+/**
+ * Handler for POST /api/workstreams
+ * Creates a workstream from { title, description? }.
+ */
+export async function createWorkstreamHandler(req: Request): Promise<Response> {
+    const body = await readJsonObject(req);
+    if (body instanceof Response) {
+        return body;
+    }
+
+    const { title, description } = body;
+    if (typeof title !== "string") {
+        return badRequest("Title must be a string");
+    }
+    if (description !== undefined && typeof description !== "string") {
+        return badRequest("Description must be a string");
+    }
+
+    const workstream = await createWorkstream(title.trim(), description ?? "");
+    return Response.json({ workstream }, { status: 201 });
+}
+
+/**
+ * Handler for GET /api/workstreams/:id
+ * The workstream with its tasks in full.
+ */
+export async function getWorkstreamHandler(req: Request, workstreamId: string): Promise<Response> {
+    const workstream = (await loadWorkstreams()).find((ws) => ws.uuid === workstreamId);
+    if (!workstream) {
+        return notFound("Workstream", workstreamId);
+    }
+    const tasks = await loadTasks();
+    return Response.json({
+        workstream,
+        tasks: tasks.filter((task) => workstream.tasks.includes(task.uuid)),
+    });
+}
+
+/**
+ * Handler for PATCH /api/workstreams/:id
+ * Changes { title?, description? }. Tasks and dependencies have their own routes.
+ */
+export async function updateWorkstreamHandler(req: Request, workstreamId: string): Promise<Response> {
+    const body = await readJsonObject(req);
+    if (body instanceof Response) {
+        return body;
+    }
+
+    const workstream = (await loadWorkstreams()).find((ws) => ws.uuid === workstreamId);
+    if (!workstream) {
+        return notFound("Workstream", workstreamId);
+    }
+
+    const { title, description } = body;
+    if (title !== undefined && typeof title !== "string") {
+        return badRequest("Title must be a string");
+    }
+    if (description !== undefined && typeof description !== "string") {
+        return badRequest("Description must be a string");
+    }
+
+    const updatedWorkstream = {
+        ...workstream,
+        ...(title !== undefined && { title: title.trim() }),
+        ...(description !== undefined && { description }),
+    };
+    await updateWorkstream(updatedWorkstream);
+    return Response.json({ workstream: updatedWorkstream });
+}
+
+/**
+ * Handler for DELETE /api/workstreams/:id
+ * Removes the workstream, its tasks stay as standalone tasks.
+ */
+export async function deleteWorkstreamHandler(req: Request, workstreamId: string): Promise<Response> {
+    const workstreams = await loadWorkstreams();
+    if (!workstreams.some((ws) => ws.uuid === workstreamId)) {
+        return notFound("Workstream", workstreamId);
+    }
+
+    await removeWorkstream(workstreamId);
+    await triggerWorkstreamDeleteCallbacks(workstreamId);
+    return Response.json({ deleted: workstreamId });
+}
+
+/**
+ * Handler for POST /api/workstreams/:id/tasks
+ * Adds { taskId } to the workstream. A task belongs to one workstream at most.
+ */
+export async function addWorkstreamTaskHandler(req: Request, workstreamId: string): Promise<Response> {
+    const body = await readJsonObject(req);
+    if (body instanceof Response) {
+        return body;
+    }
+
+    const { taskId } = body;
+    if (typeof taskId !== "string") {
+        return badRequest("Task id is required");
+    }
+    if (!(await loadTasks()).some((task) => task.uuid === taskId)) {
+        return notFound("Task", taskId);
+    }
+    if (!(await loadWorkstreams()).some((ws) => ws.uuid === workstreamId)) {
+        return notFound("Workstream", workstreamId);
+    }
+
+    try {
+        await addTaskToWorkstream(workstreamId, taskId);
+    } catch (error) {
+        return badRequest("Could not add the task to the workstream", error);
+    }
+    return getWorkstreamHandler(req, workstreamId);
+}
+
+/**
+ * Handler for DELETE /api/workstreams/:id/tasks/:taskId
+ * Takes the task out of the workstream together with its dependencies.
+ */
+export async function removeWorkstreamTaskHandler(
+    req: Request,
+    workstreamId: string,
+    taskId: string,
+): Promise<Response> {
+    if (!(await loadWorkstreams()).some((ws) => ws.uuid === workstreamId)) {
+        return notFound("Workstream", workstreamId);
+    }
+
+    await removeTaskFromWorkstream(workstreamId, taskId);
+    return getWorkstreamHandler(req, workstreamId);
+}
+
+/**
+ * Handler for POST /api/workstreams/:id/dependencies
+ * Adds { fromTaskUuid, toTaskUuid, type? }: the "from" task blocks the "to"
+ * task, or they are just "related". Both must be in the workstream already.
+ */
+export async function addDependencyHandler(req: Request, workstreamId: string): Promise<Response> {
+    const body = await readJsonObject(req);
+    if (body instanceof Response) {
+        return body;
+    }
+
+    const { fromTaskUuid, toTaskUuid, type = "blocks" } = body;
+    if (typeof fromTaskUuid !== "string" || typeof toTaskUuid !== "string") {
+        return badRequest("fromTaskUuid and toTaskUuid are required");
+    }
+    if (fromTaskUuid === toTaskUuid) {
+        return badRequest("A task can't depend on itself");
+    }
+    if (!DEPENDENCY_TYPES.includes(type as DependencyType)) {
+        return badRequest(`Type must be one of ${DEPENDENCY_TYPES.join(", ")}`);
+    }
+    if (!(await loadWorkstreams()).some((ws) => ws.uuid === workstreamId)) {
+        return notFound("Workstream", workstreamId);
+    }
+
+    try {
+        if (await wouldCreateCycle(workstreamId, fromTaskUuid, toTaskUuid)) {
+            return badRequest("The dependency would create a cycle");
+        }
+        await addDependency(workstreamId, fromTaskUuid, toTaskUuid, type as DependencyType);
+    } catch (error) {
+        return badRequest("Could not add the dependency", error);
+    }
+    return getWorkstreamHandler(req, workstreamId);
+}
+
+/**
+ * Handler for DELETE /api/workstreams/:id/dependencies?from=...&to=...
+ */
+export async function removeDependencyHandler(req: Request, workstreamId: string): Promise<Response> {
+    const query = new URL(req.url).searchParams;
+    const fromTaskUuid = query.get("from");
+    const toTaskUuid = query.get("to");
+    if (!fromTaskUuid || !toTaskUuid) {
+        return badRequest("The from and to query parameters are required");
+    }
+    if (!(await loadWorkstreams()).some((ws) => ws.uuid === workstreamId)) {
+        return notFound("Workstream", workstreamId);
+    }
+
+    await removeDependency(workstreamId, fromTaskUuid, toTaskUuid);
+    return getWorkstreamHandler(req, workstreamId);
+}
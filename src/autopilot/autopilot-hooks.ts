@@ -0,0 +1,46 @@
+/**
+ * Autopilot Hooks
+ *
+ * This module registers callbacks that keep workstreams on autopilot moving:
+ * whenever a task changes status, its workstream may have room for the next tasks.
+ */
+
+import { addTaskStatusChangeCallback } from "src/entities/tasks/task-hooks";
+import { addWorkstreamDeleteCallback } from "src/entities/workstreams/workstream-hooks";
+import { loadWorkstreams } from "src/entities/workstreams/workstream-file-storage";
+import type { Task } from "src/entities/tasks/types";
+import { advanceAutopilot } from "./autopilot-service";
+import { removeAutopilot } from "./autopilot-storage";
+
+/**
+ * Register all autopilot hooks.
+ * This should be called once during app initialization.
+ */
+export function registerAutopilotHooks(): void {
+    addTaskStatusChangeCallback(handleTaskStatusChange);
+    addWorkstreamDeleteCallback(handleWorkstreamDeletion);
+}
+
+async function handleTaskStatusChange(task: Task): Promise<void> {
+    try {
+        const workstream = (await loadWorkstreams()).find((ws) =>
+            ws.tasks.includes(task.uuid),
+        );
+        if (workstream) {
+            // Don't wait, this may be called while the autopilot executes a task
+            advanceAutopilot(workstream.uuid).catch((error) => {
+                console.error("Failed to advance autopilot:", error);
+            });
+        }
+    } catch (error) {
+        console.error("Failed to advance autopilot after status change:", error);
+    }
+}
+
+async function handleWorkstreamDeletion(workstreamId: string): Promise<void> {
+    try {
+        await removeAutopilot(workstreamId);
+    } catch (error) {
+        console.error("Failed to remove autopilot after workstream deletion:", error);
+    }
+}
@@ -0,0 +1,278 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { loadWorkstreams } from "src/entities/workstreams/workstream-file-storage";
+import { getStatusColors } from "src/high-level-planning/status-colors";
+import {
+    advanceAllAutopilots,
+    getAutopilotProgress,
+    pauseAutopilot,
+    resumeAutopilot,
+    setAutopilotParallelism,
+    startAutopilot,
+    type AutopilotProgress,
+} from "./autopilot-service";
+
+const REFRESH_INTERVAL_MS = 3000;
+const DEFAULT_MAX_PARALLELISM = 1;
+
+function getAutopilotBadge(progress: AutopilotProgress): {
+    label: string;
+    className: string;
+} {
+    switch (progress.autopilot?.status) {
+        case "running":
+            return { label: "Running", className: "badge-warning" };
+        case "paused":
+            return { label: "Paused", className: "badge-neutral" };
+        case "completed":
+            return { label: "Completed", className: "badge-success" };
+        default:
+            return { label: "Off", className: "badge-ghost" };
+    }
+}
+
+/**
+ * Progress of every workstream with controls to put it on autopilot.
+ * Tasks are shown in waves: each wave can start once the tasks blocking it are Done.
+ */
+export function AutopilotPanel() {
+    const [progressList, setProgressList] = useState<AutopilotProgress[]>([]);
+    const [parallelism, setParallelism] = useState<Record<string, number>>({});
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            const workstreams = await loadWorkstreams();
+            const progress = await Promise.all(
+                workstreams.map((ws) => getAutopilotProgress(ws.uuid)),
+            );
+            setProgressList(
+                progress.filter((p): p is AutopilotProgress => p !== null),
+            );
+        } catch (err) {
+            console.error("Failed to load autopilot progress:", err);
+            setError("Failed to load workstreams. Please check file permissions.");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        // Catch up on tasks that changed while the app was closed
+        advanceAllAutopilots()
+            .catch((err) => console.error("Failed to advance autopilots:", err))
+            .finally(refresh);
+
+        const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [refresh]);
+
+    const runAction = async (action: () => Promise<void>) => {
+        try {
+            setError(null);
+            await action();
+        } catch (err) {
+            console.error("Autopilot action failed:", err);
+            setError(err instanceof Error ? err.message : "Autopilot action failed");
+        }
+        await refresh();
+    };
+
+    const getParallelism = (progress: AutopilotProgress) =>
+        parallelism[progress.workstream.uuid] ??
+        progress.autopilot?.maxParallelism ??
+        DEFAULT_MAX_PARALLELISM;
+
+    const handleParallelismChange = (
+        progress: AutopilotProgress,
+        value: number,
+    ) => {
+        if (!Number.isInteger(value) || value < 1) {
+            return;
+        }
+        setParallelism({ ...parallelism, [progress.workstream.uuid]: value });
+        if (progress.autopilot) {
+            runAction(() =>
+                setAutopilotParallelism(progress.workstream.uuid, value),
+            );
+        }
+    };
+
+    const renderControls = (progress: AutopilotProgress) => {
+        const workstreamId = progress.workstream.uuid;
+        switch (progress.autopilot?.status) {
+            case "running":
+                return (
+                    <button
+                        className="btn btn-sm btn-outline"
+                        onClick={() => runAction(() => pauseAutopilot(workstreamId))}
+                    >
+                        Pause
+                    </button>
+                );
+            case "paused":
+                return (
+                    <button
+                        className="btn btn-sm btn-primary"
+                        onClick={() => runAction(() => resumeAutopilot(workstreamId))}
+                    >
+                        Resume
+                    </button>
+                );
+            default:
+                return (
+                    <button
+                        className="btn btn-sm btn-primary"
+                        disabled={progress.doneCount === progress.totalCount}
+                        onClick={() =>
+                            runAction(() =>
+                                startAutopilot(
+                                    workstreamId,
+                                    getParallelism(progress),
+                                ),
+                            )
+                        }
+                    >
+                        {progress.autopilot ? "Start again" : "Start autopilot"}
+                    </button>
+                );
+        }
+    };
+
+    const renderProgress = (progress: AutopilotProgress) => {
+        const badge = getAutopilotBadge(progress);
+        const failures = progress.autopilot?.failures ?? [];
+        const taskTitles = new Map(
+            progress.waves.flat().map((t) => [t.uuid, t.title]),
+        );
+        const currentWave = progress.waves.findIndex((wave) =>
+            wave.some((t) => t.status !== "Done"),
+        );
+
+        return (
+            <div key={progress.workstream.uuid} className="card bg-base-100 shadow-xl">
+                <div className="card-body">
+                    <div className="flex items-center gap-3">
+                        <h3 className="card-title text-xl flex-1">
+                            {progress.workstream.title}
+                        </h3>
+                        <span className={`badge ${badge.className}`}>
+                            {badge.label}
+                        </span>
+                        <label className="flex items-center gap-1 text-sm">
+                            Max parallel
+                            <input
+                                type="number"
+                                min={1}
+                                className="input input-bordered input-sm w-16"
+                                value={getParallelism(progress)}
+                                onChange={(e) =>
+                                    handleParallelismChange(
+                                        progress,
+                                        Number(e.target.value),
+                                    )
+                                }
+                            />
+                        </label>
+                        {renderControls(progress)}
+                    </div>
+
+                    <div className="flex items-center gap-3 mt-2">
+                        <progress
+                            className="progress progress-success flex-1"
+                            value={progress.doneCount}
+                            max={progress.totalCount}
+                        />
+                        <span className="text-sm text-gray-600">
+                            {progress.doneCount}/{progress.totalCount} Done
+                        </span>
+                    </div>
+
+                    <div className="space-y-2 mt-2">
+                        {progress.waves.map((wave, index) => (
+                            <div key={index} className="flex items-start gap-2">
+                                <span
+                                    className={`text-xs font-semibold w-16 shrink-0 pt-1 ${
+                                        index === currentWave ? "" : "text-gray-400"
+                                    }`}
+                                >
+                                    Wave {index + 1}
+                                </span>
+                                <div className="flex flex-wrap gap-1">
+                                    {wave.map((task) => {
+                                        const colors = getStatusColors(task.status);
+                                        return (
+                                            <Link
+                                                key={task.uuid}
+                                                to={`/task/${task.uuid}`}
+                                                className={`px-2 py-0.5 rounded text-xs ${colors.background} ${colors.text}`}
+                                                title={task.status}
+                                            >
+                                                {task.title}
+                                            </Link>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {failures.length > 0 && (
+                        <div className="mt-2">
+                            <div className="text-sm font-semibold text-error">
+                                Couldn't execute
+                            </div>
+                            <ul className="text-xs text-gray-600 list-disc ml-5">
+                                {failures.map((failure) => (
+                                    <li key={`${failure.taskId}-${failure.failedAt}`}>
+                                        {taskTitles.get(failure.taskId) ?? failure.taskId}:{" "}
+                                        {failure.error}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    if (loading) {
+        return (
+            <div className="container mx-auto p-6">
+                <div className="flex justify-center items-center py-12">
+                    <span className="loading loading-spinner loading-lg"></span>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="container mx-auto p-6">
+            <h2 className="text-3xl font-bold mb-2">Autopilot</h2>
+            <p className="text-sm text-gray-600 mb-6">
+                Workstreams on autopilot execute their Ready tasks as soon as
+                the tasks blocking them are Done. Tasks need a working
+                directory and context to be executed.
+            </p>
+
+            {error && (
+                <div className="alert alert-error mb-6">
+                    <span>{error}</span>
+                </div>
+            )}
+
+            <div className="space-y-6">
+                {progressList.length === 0 ? (
+                    <div className="text-center text-gray-500 py-12">
+                        No workstreams yet. Connect tasks in the task graph to
+                        create one.
+                    </div>
+                ) : (
+                    progressList.map(renderProgress)
+                )}
+            </div>
+        </div>
+    );
+}
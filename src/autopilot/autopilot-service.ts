@@ -0,0 +1,323 @@
+import { loadTasks } from "src/entities/tasks/task-file-storage";
+import { updateTask } from "src/entities/tasks/task-service";
+import type { Task } from "src/entities/tasks/types";
+import type { Workstream } from "src/entities/workstreams/types";
+import { loadWorkstreams } from "src/entities/workstreams/workstream-file-storage";
+import { getTopologicalSort } from "src/entities/workstreams/workstream-service";
+import { executeTask } from "src/task-execution/task-execution-logic";
+import { getTaskExecutionContext } from "src/task-execution/task-execution-context-storage";
+import {
+    getAutopilot,
+    loadAutopilots,
+    storeAutopilot,
+    type Autopilot,
+} from "./autopilot-storage";
+
+export interface AutopilotProgress {
+    workstream: Workstream;
+    autopilot: Autopilot | null;
+    waves: Task[][]; // Tasks grouped by how many blocking tasks precede them
+    doneCount: number;
+    totalCount: number;
+}
+
+/**
+ * Autopilot changes run one at a time. Executing a task changes its status,
+ * which schedules another advance, so nothing here may wait for the chain.
+ */
+let pending: Promise<void> = Promise.resolve();
+
+function enqueue<T>(work: () => Promise<T>): Promise<T> {
+    const result = pending.then(work);
+    pending = result.then(
+        () => undefined,
+        (error) => {
+            console.error("Autopilot failed:", error);
+        },
+    );
+    return result;
+}
+
+/**
+ * Put a workstream on autopilot. Ready tasks whose blocking tasks are Done are
+ * executed in topological order, at most `maxParallelism` of them In Progress
+ * at a time.
+ *
+ * @throws Error if the dependencies of the workstream contain a cycle
+ */
+export function startAutopilot(
+    workstreamId: string,
+    maxParallelism: number,
+): Promise<void> {
+    return enqueue(async () => {
+        if ((await getTopologicalSort(workstreamId)) === null) {
+            throw new Error(
+                "The dependencies of this workstream contain a cycle",
+            );
+        }
+
+        await storeAutopilot({
+            workstreamId,
+            status: "running",
+            maxParallelism: Math.max(1, maxParallelism),
+            startedAt: new Date().toISOString(),
+            startedTasks: [],
+            failures: [],
+        });
+        await advance(workstreamId);
+    });
+}
+
+/**
+ * Stop executing new tasks. Runs that are already going keep running.
+ */
+export function pauseAutopilot(workstreamId: string): Promise<void> {
+    return enqueue(async () => {
+        const autopilot = await getAutopilot(workstreamId);
+        if (autopilot?.status === "running") {
+            await storeAutopilot({ ...autopilot, status: "paused" });
+        }
+    });
+}
+
+/**
+ * Continue a paused autopilot. Tasks that went back to Ready after a failed run
+ * get executed again.
+ */
+export function resumeAutopilot(workstreamId: string): Promise<void> {
+    return enqueue(async () => {
+        const autopilot = await getAutopilot(workstreamId);
+        if (!autopilot || autopilot.status !== "paused") {
+            return;
+        }
+
+        const tasks = await loadTasks();
+        const readyTaskIds = new Set(
+            tasks.filter((t) => t.status === "Ready").map((t) => t.uuid),
+        );
+        await storeAutopilot({
+            ...autopilot,
+            status: "running",
+            startedTasks: autopilot.startedTasks.filter(
+                (taskId) => !readyTaskIds.has(taskId),
+            ),
+        });
+        await advance(workstreamId);
+    });
+}
+
+export function setAutopilotParallelism(
+    workstreamId: string,
+    maxParallelism: number,
+): Promise<void> {
+    return enqueue(async () => {
+        const autopilot = await getAutopilot(workstreamId);
+        if (!autopilot) {
+            return;
+        }
+        await storeAutopilot({
+            ...autopilot,
+            maxParallelism: Math.max(1, maxParallelism),
+        });
+        await advance(workstreamId);
+    });
+}
+
+/**
+ * Execute the next tasks of a workstream on autopilot, if there is room for them.
+ * Safe to call at any time, it does nothing unless the autopilot is running.
+ */
+export function advanceAutopilot(workstreamId: string): Promise<void> {
+    return enqueue(() => advance(workstreamId));
+}
+
+/**
+ * Advance every running autopilot, e.g. after tasks changed while the app was closed.
+ */
+export async function advanceAllAutopilots(): Promise<void> {
+    const autopilots = await loadAutopilots();
+    await Promise.all(
+        autopilots
+            .filter((a) => a.status === "running")
+            .map((a) => advanceAutopilot(a.workstreamId)),
+    );
+}
+
+/**
+ * Group the tasks of a workstream into waves: a task is in the wave after the
+ * last wave containing one of its blocking tasks. Tasks without blocking tasks
+ * are in the first wave. Tasks that are part of a cycle are left out.
+ */
+export function getWorkstreamWaves(
+    workstream: Workstream,
+    tasks: Task[],
+): Task[][] {
+    const taskById = new Map(tasks.map((t) => [t.uuid, t]));
+    const waveOf = new Map<string, number>();
+
+    const getWave = (taskId: string, visiting: Set<string>): number => {
+        const known = waveOf.get(taskId);
+        if (known !== undefined) {
+            return known;
+        }
+        if (visiting.has(taskId)) {
+            return -1;
+        }
+        visiting.add(taskId);
+
+        let wave = 0;
+        for (const blockerId of getBlockingTasks(workstream, taskId)) {
+            const blockerWave = getWave(blockerId, visiting);
+            if (blockerWave === -1) {
+                return -1;
+            }
+            wave = Math.max(wave, blockerWave + 1);
+        }
+
+        visiting.delete(taskId);
+        waveOf.set(taskId, wave);
+        return wave;
+    };
+
+    const waves: Task[][] = [];
+    for (const taskId of workstream.tasks) {
+        const task = taskById.get(taskId);
+        const wave = getWave(taskId, new Set());
+        if (!task || wave === -1) {
+            continue;
+        }
+        while (waves.length <= wave) {
+            waves.push([]);
+        }
+        waves[wave]!.push(task);
+    }
+
+    return waves;
+}
+
+export async function getAutopilotProgress(
+    workstreamId: string,
+): Promise<AutopilotProgress | null> {
+    const workstream = (await loadWorkstreams()).find(
+        (w) => w.uuid === workstreamId,
+    );
+    if (!workstream) {
+        return null;
+    }
+
+    const tasks = await loadTasks();
+    const workstreamTasks = tasks.filter((t) =>
+        workstream.tasks.includes(t.uuid),
+    );
+
+    return {
+        workstream,
+        autopilot: await getAutopilot(workstreamId),
+        waves: getWorkstreamWaves(workstream, tasks),
+        doneCount: workstreamTasks.filter((t) => t.status === "Done").length,
+        totalCount: workstreamTasks.length,
+    };
+}
+
+function getBlockingTasks(workstream: Workstream, taskId: string): string[] {
+    return workstream.dependencies
+        .filter((dep) => dep.type === "blocks" && dep.toTaskUuid === taskId)
+        .map((dep) => dep.fromTaskUuid);
+}
+
+async function advance(workstreamId: string): Promise<void> {
+    let autopilot = await getAutopilot(workstreamId);
+    if (!autopilot || autopilot.status !== "running") {
+        return;
+    }
+
+    const workstream = (await loadWorkstreams()).find(
+        (w) => w.uuid === workstreamId,
+    );
+    if (!workstream) {
+        return;
+    }
+
+    const order = await getTopologicalSort(workstreamId);
+    if (order === null) {
+        console.error(
+            `[autopilot-service] advance: Workstream ${workstreamId} has a dependency cycle, pausing`,
+        );
+        await storeAutopilot({ ...autopilot, status: "paused" });
+        return;
+    }
+
+    const tasks = await loadTasks();
+    const taskById = new Map(tasks.map((t) => [t.uuid, t]));
+    const workstreamTasks = workstream.tasks
+        .map((taskId) => taskById.get(taskId))
+        .filter((t): t is Task => t !== undefined);
+
+    if (workstreamTasks.every((t) => t.status === "Done")) {
+        await storeAutopilot({
+            ...autopilot,
+            status: "completed",
+            completedAt: new Date().toISOString(),
+        });
+        console.log(`[autopilot-service] advance: Workstream ${workstreamId} completed`);
+        return;
+    }
+
+    const inProgressCount = workstreamTasks.filter(
+        (t) => t.status === "In Progress",
+    ).length;
+    const startedTasks = autopilot.startedTasks;
+    const unblockedTasks = order
+        .map((taskId) => taskById.get(taskId))
+        .filter(
+            (task): task is Task =>
+                task !== undefined &&
+                task.status === "Ready" &&
+                !startedTasks.includes(task.uuid) &&
+                getBlockingTasks(workstream, task.uuid).every(
+                    (blockerId) => taskById.get(blockerId)?.status === "Done",
+                ),
+        );
+    const tasksToExecute = unblockedTasks.slice(
+        0,
+        Math.max(0, autopilot.maxParallelism - inProgressCount),
+    );
+
+    for (const task of tasksToExecute) {
+        // Record the task first, executing it triggers another advance
+        autopilot = { ...autopilot, startedTasks: [...autopilot.startedTasks, task.uuid] };
+        await storeAutopilot(autopilot);
+
+        const executionContext = await getTaskExecutionContext(task.uuid);
+        const result = await executeTask(
+            task,
+            executionContext?.workingDirectory ?? null,
+            executionContext?.context ?? [],
+            executionContext?.async ?? false,
+        );
+
+        if (result.success) {
+            console.log(`[autopilot-service] advance: Executed task ${task.uuid}`);
+            continue;
+        }
+
+        autopilot = {
+            ...autopilot,
+            failures: [
+                ...autopilot.failures,
+                {
+                    taskId: task.uuid,
+                    error: result.error ?? "Failed to execute task",
+                    failedAt: new Date().toISOString(),
+                },
+            ],
+        };
+        await storeAutopilot(autopilot);
+
+        // Free the slot, the task never got an agent
+        const failedTask = (await loadTasks()).find((t) => t.uuid === task.uuid);
+        if (failedTask?.status === "In Progress") {
+            await updateTask({ ...failedTask, status: "Ready" });
+        }
+    }
+}
@@ -0,0 +1,136 @@
+/**
+ * Autopilot Storage Format
+ *
+ * The autopilot state of every workstream is stored in a single JSON file with the following structure:
+ *
+ * {
+ *   "autopilots": [
+ *     {
+ *       "workstreamId": string,     // UUID of the workstream
+ *       "status": "running" | "paused" | "completed",
+ *       "maxParallelism": number,   // Maximum number of tasks of the workstream In Progress at once
+ *       "startedAt": string,        // ISO timestamp
+ *       "completedAt": string,      // ISO timestamp (optional, set once every task is Done)
+ *       "startedTasks": string[],   // UUIDs of tasks the autopilot executed, each task is executed once
+ *       "failures": [               // Tasks the autopilot couldn't execute, newest last
+ *         {
+ *           "taskId": string,
+ *           "error": string,
+ *           "failedAt": string      // ISO timestamp
+ *         }
+ *       ]
+ *     },
+ *     ...
+ *   ]
+ * }
+ *
+ * Example:
+ * {
+ *   "autopilots": [
+ *     {
+ *       "workstreamId": "a1b2c3d4-e5f6-7890-abcd-ef1234567890",
+ *       "status": "running",
+ *       "maxParallelism": 2,
+ *       "startedAt": "2025-01-01T10:00:00.000Z",
+ *       "startedTasks": ["8cd4a5d6-b7a7-4462-929e-ad599b0a5484"],
+ *       "failures": []
+ *     }
+ *   ]
+ * }
+ *
+ * - Workstreams without an entry have never been put on autopilot.
+ */
+
+import {
+    readFile,
+    writeFile,
+    DataFileName,
+} from "src/persistence/storage-backend";
+
+export type AutopilotStatus = "running" | "paused" | "completed";
+
+export interface AutopilotFailure {
+    taskId: string;
+    error: string;
+    failedAt: string;
+}
+
+export interface Autopilot {
+    workstreamId: string;
+    status: AutopilotStatus;
+    maxParallelism: number;
+    startedAt: string;
+    completedAt?: string;
+    startedTasks: string[];
+    failures: AutopilotFailure[];
+}
+
+export async function loadAutopilots(): Promise<Autopilot[]> {
+    const text = await readFile(DataFileName.AUTOPILOT);
+    if (!text) {
+        console.log(
+            "[autopilot-storage] loadAutopilots: No file found, returning empty array"
+        );
+        return [];
+    }
+    const obj = JSON.parse(text);
+
+    if (obj && Array.isArray(obj.autopilots)) {
+        const autopilots = obj.autopilots.map((autopilot: any) => ({
+            workstreamId: autopilot.workstreamId,
+            status: autopilot.status,
+            maxParallelism: autopilot.maxParallelism ?? 1,
+            startedAt: autopilot.startedAt,
+            completedAt: autopilot.completedAt,
+            startedTasks: autopilot.startedTasks || [],
+            failures: autopilot.failures || [],
+        }));
+        console.log(
+            `[autopilot-storage] loadAutopilots: Loaded ${autopilots.length} autopilots`
+        );
+        return autopilots;
+    }
+
+    throw new Error("Invalid Autopilot file format");
+}
+
+export async function getAutopilot(
+    workstreamId: string
+): Promise<Autopilot | null> {
+    const autopilots = await loadAutopilots();
+    return autopilots.find((a) => a.workstreamId === workstreamId) ?? null;
+}
+
+/**
+ * Add the autopilot of a workstream, replacing an earlier one.
+ */
+export async function storeAutopilot(autopilot: Autopilot): Promise<void> {
+    const autopilots = await loadAutopilots();
+    const index = autopilots.findIndex(
+        (a) => a.workstreamId === autopilot.workstreamId
+    );
+    if (index === -1) {
+        autopilots.push(autopilot);
+    } else {
+        autopilots[index] = autopilot;
+    }
+    await storeAutopilots(autopilots);
+}
+
+export async function removeAutopilot(workstreamId: string): Promise<void> {
+    const autopilots = await loadAutopilots();
+    const filtered = autopilots.filter((a) => a.workstreamId !== workstreamId);
+    if (filtered.length !== autopilots.length) {
+        await storeAutopilots(filtered);
+    }
+}
+
+async function storeAutopilots(autopilots: Autopilot[]): Promise<void> {
+    console.log(
+        `[autopilot-storage] storeAutopilots: Saving ${autopilots.length} autopilots`
+    );
+    await writeFile(
+        DataFileName.AUTOPILOT,
+        JSON.stringify({ autopilots }, null, 2)
+    );
+}
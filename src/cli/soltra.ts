@@ -0,0 +1,464 @@
+#!/usr/bin/env bun
+/**
+ * Soltra CLI
+ *
+ * Works on the planning data from the terminal, with the same services as
+ * the UI. The data files are read and written directly in the data
+ * directory given by --data-dir or the SOLTRA_DATA_DIR environment
+ * variable, which should be the directory picked in the UI's settings.
+ *
+ * Tasks, products and workstreams can be referred to by a unique prefix of
+ * their uuid, products and workstreams by their title as well.
+ *
+ * Run `bun soltra help` for the commands.
+ */
+
+import { parseArgs } from "node:util";
+import { setStorageBackend } from "src/persistence/storage-backend";
+import { createDataDirectoryBackend } from "src/persistence/data-directory-backend";
+import { registerWorkstreamTaskCleanupCallback } from "src/entities/workstreams/workstream-hooks";
+import { registerGlobalOrderHooks } from "src/high-level-planning/global-order-hooks";
+import { loadTasks } from "src/entities/tasks/task-file-storage";
+import { createTask, updateTask } from "src/entities/tasks/task-service";
+import {
+    TASK_STATUSES,
+    type Task,
+    type TaskStatus,
+} from "src/entities/tasks/types";
+import {
+    addInboxTask,
+    loadInboxTasks,
+} from "src/entities/tasks/task-inbox-storage";
+import { loadProducts } from "src/entities/products/product-file-storage";
+import { setProductOfTask } from "src/entities/products/product-service";
+import type { Product } from "src/entities/products/types";
+import { loadWorkstreams } from "src/entities/workstreams/workstream-file-storage";
+import {
+    addTaskToWorkstream,
+    wouldCreateCycle,
+} from "src/entities/workstreams/workstream-service";
+import { connectTasks } from "src/entities/workstreams/workstream-task-service";
+import type { Workstream } from "src/entities/workstreams/types";
+import { getTaskExecutionContext } from "src/task-execution/task-execution-context-storage";
+import { executeTask } from "src/task-execution/task-execution-logic";
+
+const USAGE = `Usage: soltra <command> [options]
+
+Commands:
+  tasks [--status <status>]           List tasks
+  show <task>                         Show a task with its notes
+  create <title> [--description <text>] [--status <status>]
+         [--product <product>] [--workstream <workstream>]
+                                      Create a task
+  update <task> [--title <text>] [--description <text>]
+         [--status <status>] [--note <text>] [--product <product>]
+                                      Change a task, --note appends a note
+  inbox [<title>]                     List the inbox, or add a title to it
+  connect <task> <blocked-task> [--related]
+                                      Make a task block another one, joining
+                                      or creating their workstream
+  tree [<product>]                    Show products with their tasks
+  execute <task>                      Start an agent for a task on the
+                                      execution server, with the token in
+                                      SOLTRA_TOKEN
+
+Options:
+  --data-dir <path>   Data directory, defaults to SOLTRA_DATA_DIR
+  --json              Print JSON instead of text
+  --verbose           Print what the storage modules do
+`;
+
+const { values: options, positionals } = parseArgs({
+    args: Bun.argv.slice(2),
+    allowPositionals: true,
+    options: {
+        "data-dir": { type: "string" },
+        json: { type: "boolean", default: false },
+        verbose: { type: "boolean", default: false },
+        status: { type: "string" },
+        title: { type: "string" },
+        description: { type: "string" },
+        note: { type: "string" },
+        product: { type: "string" },
+        workstream: { type: "string" },
+        related: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+    },
+});
+
+function print(line: string = ""): void {
+    process.stdout.write(`${line}\n`);
+}
+
+function printJson(value: unknown): void {
+    print(JSON.stringify(value, null, 2));
+}
+
+function shortId(uuid: string): string {
+    return uuid.slice(0, 8);
+}
+
+function formatTask(task: Task): string {
+    return `${shortId(task.uuid)}  ${task.status.padEnd(11)}  ${task.title}`;
+}
+
+function parseStatus(value: string | undefined): TaskStatus | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const status = TASK_STATUSES.find(
+        (s) => s.toLowerCase() === value.toLowerCase(),
+    );
+    if (!status) {
+        throw new Error(`Status must be one of ${TASK_STATUSES.join(", ")}`);
+    }
+    return status;
+}
+
+/**
+ * The one item matching the reference, or an error listing the candidates.
+ */
+function findOne<T extends { uuid: string }>(
+    matches: T[],
+    reference: string,
+    kind: string,
+): T {
+    if (matches.length === 0) {
+        throw new Error(`No ${kind} matches ${reference}`);
+    }
+    if (matches.length > 1) {
+        throw new Error(
+            `${matches.length} ${kind}s match ${reference}, use more of the uuid: ${matches
+                .map((item) => shortId(item.uuid))
+                .join(", ")}`,
+        );
+    }
+    return matches[0]!;
+}
+
+function findByUuidPrefix<T extends { uuid: string }>(
+    items: T[],
+    reference: string,
+    kind: string,
+): T {
+    return findOne(
+        items.filter((item) => item.uuid.startsWith(reference)),
+        reference,
+        kind,
+    );
+}
+
+/**
+ * Task titles needn't be unique, so tasks only go by uuid. Products and
+ * workstreams are looked up by title first.
+ */
+function findByTitleOrUuidPrefix<T extends { uuid: string; title: string }>(
+    items: T[],
+    reference: string,
+    kind: string,
+): T {
+    const byTitle = items.filter((item) => item.title === reference);
+    return byTitle.length > 0
+        ? findOne(byTitle, reference, kind)
+        : findByUuidPrefix(items, reference, kind);
+}
+
+function requireArgument(value: string | undefined, name: string): string {
+    if (!value) {
+        throw new Error(`Missing ${name}\n\n${USAGE}`);
+    }
+    return value;
+}
+
+async function findTask(reference: string | undefined): Promise<Task> {
+    return findByUuidPrefix(
+        await loadTasks(),
+        requireArgument(reference, "task"),
+        "task",
+    );
+}
+
+async function findProduct(reference: string): Promise<Product> {
+    return findByTitleOrUuidPrefix(await loadProducts(), reference, "product");
+}
+
+async function findWorkstream(reference: string): Promise<Workstream> {
+    return findByTitleOrUuidPrefix(
+        await loadWorkstreams(),
+        reference,
+        "workstream",
+    );
+}
+
+async function listTasks(): Promise<void> {
+    const status = parseStatus(options.status);
+    const tasks = (await loadTasks()).filter(
+        (task) => !status || task.status === status,
+    );
+    if (options.json) {
+        printJson(tasks);
+        return;
+    }
+    tasks.forEach((task) => print(formatTask(task)));
+}
+
+async function showTask(reference: string | undefined): Promise<void> {
+    const task = await findTask(reference);
+    const [products, workstreams] = await Promise.all([
+        loadProducts(),
+        loadWorkstreams(),
+    ]);
+    const product = products.find((p) => p.tasks.includes(task.uuid));
+    const workstream = workstreams.find((ws) => ws.tasks.includes(task.uuid));
+    if (options.json) {
+        printJson({
+            ...task,
+            productId: product?.uuid ?? null,
+            workstreamId: workstream?.uuid ?? null,
+        });
+        return;
+    }
+
+    print(`${task.title}`);
+    print(`uuid:       ${task.uuid}`);
+    print(`status:     ${task.status}`);
+    print(`product:    ${product?.title ?? "-"}`);
+    print(
+        `workstream: ${workstream ? workstream.title || shortId(workstream.uuid) : "-"}`,
+    );
+    if (task.description) {
+        print();
+        print(task.description);
+    }
+    if (task.notes?.length) {
+        print();
+        for (const note of task.notes) {
+            print(`[${note.createdAt}] ${note.text}`);
+        }
+    }
+}
+
+async function createTaskCommand(title: string | undefined): Promise<void> {
+    const status = parseStatus(options.status);
+    // Look everything up first, so a typo doesn't leave a half set up task behind
+    const product = options.product ? await findProduct(options.product) : null;
+    const workstream = options.workstream
+        ? await findWorkstream(options.workstream)
+        : null;
+
+    let task = await createTask(
+        requireArgument(title?.trim(), "title"),
+        options.description ?? "",
+    );
+    if (status && status !== task.status) {
+        task = { ...task, status };
+        await updateTask(task);
+    }
+    if (product) {
+        await setProductOfTask(task.uuid, product.uuid);
+    }
+    if (workstream) {
+        await addTaskToWorkstream(workstream.uuid, task.uuid);
+    }
+
+    if (options.json) {
+        printJson(task);
+        return;
+    }
+    print(formatTask(task));
+}
+
+async function updateTaskCommand(reference: string | undefined): Promise<void> {
+    const task = await findTask(reference);
+    const status = parseStatus(options.status);
+    const product = options.product ? await findProduct(options.product) : null;
+    if (options.title !== undefined && !options.title.trim()) {
+        throw new Error("Title must not be empty");
+    }
+    if (options.note !== undefined && !options.note.trim()) {
+        throw new Error("Note must not be empty");
+    }
+
+    const updatedTask: Task = {
+        ...task,
+        ...(options.title !== undefined && { title: options.title.trim() }),
+        ...(options.description !== undefined && {
+            description: options.description,
+        }),
+        ...(status && { status }),
+        ...(options.note !== undefined && {
+            notes: [
+                ...(task.notes ?? []),
+                {
+                    createdAt: new Date().toISOString(),
+                    text: options.note.trim(),
+                },
+            ],
+        }),
+    };
+    await updateTask(updatedTask);
+    if (product) {
+        await setProductOfTask(task.uuid, product.uuid);
+    }
+
+    if (options.json) {
+        printJson(updatedTask);
+        return;
+    }
+    print(formatTask(updatedTask));
+}
+
+async function inbox(title: string | undefined): Promise<void> {
+    if (title?.trim()) {
+        await addInboxTask({ title: title.trim() });
+    }
+
+    const inboxTasks = await loadInboxTasks();
+    if (options.json) {
+        printJson(inboxTasks.map((task) => task.title));
+        return;
+    }
+    inboxTasks.forEach((task) => print(task.title));
+}
+
+async function connect(
+    sourceReference: string | undefined,
+    targetReference: string | undefined,
+): Promise<void> {
+    const source = await findTask(sourceReference);
+    const target = await findTask(
+        requireArgument(targetReference, "blocked task"),
+    );
+
+    const workstream = (await loadWorkstreams()).find(
+        (ws) =>
+            ws.tasks.includes(source.uuid) && ws.tasks.includes(target.uuid),
+    );
+    if (
+        workstream &&
+        (await wouldCreateCycle(workstream.uuid, source.uuid, target.uuid))
+    ) {
+        throw new Error("The dependency would create a cycle");
+    }
+
+    await connectTasks(
+        source.uuid,
+        target.uuid,
+        await loadTasks(),
+        options.related ? "related" : "blocks",
+    );
+    if (!options.json) {
+        print(
+            `${source.title} ${options.related ? "is related to" : "blocks"} ${target.title}`,
+        );
+    }
+}
+
+async function tree(reference: string | undefined): Promise<void> {
+    const [products, tasks] = await Promise.all([loadProducts(), loadTasks()]);
+    const taskMap = new Map(tasks.map((task) => [task.uuid, task]));
+    const roots = reference
+        ? [await findProduct(reference)]
+        : products.filter(
+              (p) =>
+                  !p.parent ||
+                  !products.some((parent) => parent.uuid === p.parent),
+          );
+
+    const toNode = (product: Product): unknown => ({
+        uuid: product.uuid,
+        title: product.title,
+        tasks: product.tasks.flatMap((uuid) => taskMap.get(uuid) ?? []),
+        children: products.filter((p) => p.parent === product.uuid).map(toNode),
+    });
+    if (options.json) {
+        printJson(roots.map(toNode));
+        return;
+    }
+
+    const printProduct = (product: Product, indent: string) => {
+        print(`${indent}${product.title}  (${shortId(product.uuid)})`);
+        for (const uuid of product.tasks) {
+            const task = taskMap.get(uuid);
+            if (task) {
+                print(`${indent}  - ${formatTask(task)}`);
+            }
+        }
+        products
+            .filter((p) => p.parent === product.uuid)
+            .forEach((child) => printProduct(child, `${indent}    `));
+    };
+    roots.forEach((root) => printProduct(root, ""));
+}
+
+async function execute(reference: string | undefined): Promise<void> {
+    const task = await findTask(reference);
+    const executionContext = await getTaskExecutionContext(task.uuid);
+    const result = await executeTask(
+        task,
+        executionContext?.workingDirectory ?? null,
+        executionContext?.context ?? [],
+        executionContext?.async ?? false,
+    );
+    if (!result.success) {
+        throw new Error(result.error ?? "Failed to execute task");
+    }
+
+    if (options.json) {
+        printJson(result);
+        return;
+    }
+    print(`Started run ${result.runId} for ${task.title}`);
+}
+
+async function main(): Promise<void> {
+    const [command, ...args] = positionals;
+    if (!command || command === "help" || options.help) {
+        print(USAGE);
+        return;
+    }
+
+    const dataDirectory = options["data-dir"] ?? process.env.SOLTRA_DATA_DIR;
+    if (!dataDirectory) {
+        throw new Error(
+            "No data directory, set SOLTRA_DATA_DIR or pass --data-dir",
+        );
+    }
+    // The storage modules log every load and store, which would drown the output
+    if (!options.verbose) {
+        console.log = () => {};
+    }
+    setStorageBackend(createDataDirectoryBackend(dataDirectory));
+    registerWorkstreamTaskCleanupCallback();
+    registerGlobalOrderHooks();
+
+    switch (command) {
+        case "tasks":
+            return await listTasks();
+        case "show":
+            return await showTask(args[0]);
+        case "create":
+            return await createTaskCommand(args.join(" "));
+        case "update":
+            return await updateTaskCommand(args[0]);
+        case "inbox":
+            return await inbox(args.join(" "));
+        case "connect":
+            return await connect(args[0], args[1]);
+        case "tree":
+            return await tree(args.join(" ") || undefined);
+        case "execute":
+            return await execute(args[0]);
+        default:
+            throw new Error(`Unknown command ${command}\n\n${USAGE}`);
+    }
+}
+
+try {
+    await main();
+} catch (error) {
+    console.error(
+        `soltra: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    process.exit(1);
+}
@@ -49,6 +49,21 @@ export function Header() {
                         <li>
                             <Link to="/products">Products</Link>
                         </li>
+                        <li>
+                            <Link to="/queue">Queue</Link>
+                        </li>
+                        <li>
+                            <Link to="/autopilot">Autopilot</Link>
+                        </li>
+                        <li>
+                            <Link to="/prompt-templates">Prompts</Link>
+                        </li>
+                        <li>
+                            <Link to="/agents">Agents</Link>
+                        </li>
+                        <li>
+                            <Link to="/worktrees">Worktrees</Link>
+                        </li>
                     </ul>
                 </div>
             </div>
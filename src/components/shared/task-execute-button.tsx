@@ -7,11 +7,13 @@ import { getTaskExecutionContext } from "src/task-execution/task-execution-conte
 interface TaskExecuteButtonProps {
     task: Task;
     buttonClassName?: string;
+    onExecuted?: (runId: string | undefined) => void;
 }
 
 export function TaskExecuteButton({
     task,
     buttonClassName = "btn btn-primary btn-sm",
+    onExecuted,
 }: TaskExecuteButtonProps) {
     const [isExecuting, setIsExecuting] = useState(false);
     const [executeError, setExecuteError] = useState<string | null>(null);
@@ -41,6 +43,7 @@ export function TaskExecuteButton({
             );
             if (result.success) {
                 setExecuteSuccess(true);
+                onExecuted?.(result.runId);
             } else {
                 setExecuteError(result.error || "Failed to execute task");
             }
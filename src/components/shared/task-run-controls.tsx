@@ -0,0 +1,85 @@
+import { useState } from "react";
+import type { Task } from "src/entities/tasks/types";
+import {
+    cancelTaskExecution,
+    restartTaskExecution,
+} from "src/task-execution/task-execution-logic";
+import type { TaskExecutionRun } from "src/task-execution/task-execution-run-storage";
+
+interface TaskRunControlsProps {
+    task: Task;
+    run?: TaskExecutionRun;
+    onChange?: (runId: string | undefined) => void;
+}
+
+export function TaskRunControls({ task, run, onChange }: TaskRunControlsProps) {
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [moveToReady, setMoveToReady] = useState(true);
+
+    // Runs that never started can't be cancelled or restarted
+    if (!run || run.error) {
+        return null;
+    }
+
+    const isRunning = !run.endedAt;
+
+    const handleCancel = async () => {
+        setIsBusy(true);
+        setError(null);
+        const result = await cancelTaskExecution(task, run, moveToReady);
+        if (!result.success) {
+            setError(result.error || "Failed to cancel task execution");
+        }
+        setIsBusy(false);
+        onChange?.(run.runId);
+    };
+
+    const handleRestart = async () => {
+        setIsBusy(true);
+        setError(null);
+        const result = await restartTaskExecution(task, run);
+        if (!result.success) {
+            setError(result.error || "Failed to restart task execution");
+        }
+        setIsBusy(false);
+        onChange?.(result.runId);
+    };
+
+    return (
+        <>
+            {isRunning && (
+                <>
+                    <button
+                        className="btn btn-warning btn-sm mr-2"
+                        onClick={handleCancel}
+                        disabled={isBusy}
+                        title="Stop the running agent"
+                    >
+                        Cancel
+                    </button>
+                    <label className="cursor-pointer inline-flex items-center gap-1 mr-2">
+                        <input
+                            type="checkbox"
+                            className="checkbox checkbox-xs"
+                            checked={moveToReady}
+                            onChange={(e) => setMoveToReady(e.target.checked)}
+                        />
+                        <span className="label-text text-xs">
+                            Move back to Ready
+                        </span>
+                    </label>
+                </>
+            )}
+            <button
+                className="btn btn-outline btn-sm mr-2"
+                onClick={handleRestart}
+                disabled={isBusy}
+                title="Run the agent again with the same prompt"
+            >
+                Restart
+            </button>
+            {error && <span className="text-error ml-2">{error}</span>}
+        </>
+    );
+}
@@ -0,0 +1,49 @@
+import type { RunVerification } from "src/task-execution/task-execution-api";
+import { describeVerificationFailures } from "src/task-execution/verification-service";
+
+interface VerificationBadgeProps {
+    verification: RunVerification;
+    size?: "xs" | "sm";
+}
+
+/**
+ * Outcome of the verification commands of a run, with the commands that
+ * failed in the tooltip.
+ */
+export function VerificationBadge({
+    verification,
+    size = "xs",
+}: VerificationBadgeProps) {
+    const sizeClassName = size === "xs" ? "badge-xs" : "badge-sm";
+
+    if (verification.status === "running") {
+        return (
+            <span
+                className={`badge badge-warning ${sizeClassName}`}
+                title="Running the verification commands"
+            >
+                verifying
+            </span>
+        );
+    }
+    if (verification.status === "passed") {
+        return (
+            <span
+                className={`badge badge-success ${sizeClassName}`}
+                title={`Passed: ${verification.results
+                    .map((result) => result.command)
+                    .join(", ")}`}
+            >
+                verified
+            </span>
+        );
+    }
+    return (
+        <span
+            className={`badge badge-error ${sizeClassName}`}
+            title={`Failed: ${describeVerificationFailures(verification)}`}
+        >
+            verification failed
+        </span>
+    );
+}
@@ -3,9 +3,27 @@ import {
     TASK_EXECUTION_SERVER_URL,
     ROOT_CODE_DIR,
 } from "../secrets.ts";
+import type { LauncherType } from "./task-execution/launchers/types";
+import type { StorageBackendType } from "./persistence/storage-backend";
 
 export const CONFIG = {
     GITHUB_PAT: GITHUB_PAT,
     TASK_EXECUTION_SERVER_URL: TASK_EXECUTION_SERVER_URL,
     ROOT_CODE_DIR: ROOT_CODE_DIR,
+    // Where the UI keeps its data: "file-system-access" (the data directory picked
+    // in settings), "http" (the execution server's SOLTRA_DATA_DIR) or "memory".
+    // Browsers without the File System Access API use "http" instead.
+    STORAGE_BACKEND: "file-system-access" as Exclude<StorageBackendType, "data-directory">,
+    // Launcher used by /start-script when the request doesn't specify one:
+    // a Terminal window on macOS, a headless process everywhere else.
+    // The config is bundled for the browser too, which has no process.
+    DEFAULT_LAUNCHER: (typeof process !== "undefined" && process.platform === "darwin"
+        ? "macos-terminal"
+        : "headless") as LauncherType,
+    // Runs the execution server starts at the same time, the rest wait in its queue
+    MAX_CONCURRENT_RUNS: 3,
+    // Runs started at the same time in a single working directory (worktrees included)
+    MAX_CONCURRENT_RUNS_PER_DIRECTORY: 1,
+    // Time each verification command of a run may take before it is stopped
+    VERIFICATION_TIMEOUT_MS: 10 * 60 * 1000,
 };
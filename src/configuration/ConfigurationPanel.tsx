@@ -4,6 +4,10 @@ import {
     getDirectoryHandle,
     setDirectoryHandle,
 } from "../persistence/file-system-handles";
+import {
+    getExecutionServerToken,
+    setExecutionServerToken,
+} from "../task-execution/execution-server-token";
 
 interface DirectoryState {
     [key: string]: string;
@@ -11,6 +15,8 @@ interface DirectoryState {
 
 export function ConfigurationPanel() {
     const [directories, setDirectories] = useState<DirectoryState>({});
+    const [serverToken, setServerToken] = useState(getExecutionServerToken);
+    const [serverTokenSaved, setServerTokenSaved] = useState(false);
 
     // Load existing directory handles on mount
     useEffect(() => {
@@ -45,6 +51,11 @@ export function ConfigurationPanel() {
         }
     };
 
+    const handleSaveServerToken = () => {
+        setExecutionServerToken(serverToken.trim());
+        setServerTokenSaved(true);
+    };
+
     const formatLabel = (key: string) => {
         return key
             .replace(/_/g, " ")
@@ -72,6 +83,37 @@ export function ConfigurationPanel() {
                 </div>
             ))}
 
+            <div className="mt-6">
+                <label className="block text-sm font-medium mb-1">
+                    Execution Server Token
+                </label>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="password"
+                        className="input input-bordered input-sm w-96"
+                        value={serverToken}
+                        onChange={(e) => {
+                            setServerToken(e.target.value);
+                            setServerTokenSaved(false);
+                        }}
+                        placeholder="TASK_EXECUTION_SERVER_TOKEN of the server"
+                    />
+                    <button
+                        onClick={handleSaveServerToken}
+                        className="btn btn-sm btn-primary"
+                    >
+                        Save
+                    </button>
+                    {serverTokenSaved && (
+                        <span className="text-sm text-success">Saved</span>
+                    )}
+                </div>
+                <p className="text-xs text-base-content/60 mt-1">
+                    Kept in this browser only. The execution server rejects
+                    requests without it.
+                </p>
+            </div>
+
             <div className="mt-6 p-4 bg-base-200 rounded">
                 <div className="text-sm">
                     <p>
@@ -82,7 +124,11 @@ export function ConfigurationPanel() {
                         <li>tasks.json</li>
                         <li>products.json</li>
                         <li>task-execution-contexts.json</li>
+                        <li>task-execution-runs.json</li>
                         <li>task-inbox.json</li>
+                        <li>autopilot.json</li>
+                        <li>prompt-templates.json</li>
+                        <li>agents.json</li>
                     </ul>
                     <p className="mt-2">
                         These files will be created automatically when needed.
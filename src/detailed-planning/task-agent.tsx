@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import type { Task } from "src/entities/tasks/types";
+import { loadAgents, type Agent } from "src/task-execution/agent-storage";
+import {
+    resolveAgent,
+    type ResolvedAgent,
+} from "src/task-execution/agent-service";
+import {
+    getTaskExecutionContext,
+    setAgentOnTaskExecutionContext,
+} from "src/task-execution/task-execution-context-storage";
+
+interface TaskAgentProps {
+    task: Task;
+    hasWorkingDirectory: boolean;
+}
+
+/**
+ * Picker for the agent CLI that executes a task, showing which agent
+ * is used when the task doesn't pick one itself.
+ */
+export function TaskAgent({ task, hasWorkingDirectory }: TaskAgentProps) {
+    const [agents, setAgents] = useState<Agent[]>([]);
+    const [agentId, setAgentId] = useState("");
+    const [resolved, setResolved] = useState<ResolvedAgent | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadAgents()
+            .then(setAgents)
+            .catch((err) => console.error("Failed to load agents:", err));
+    }, []);
+
+    useEffect(() => {
+        getTaskExecutionContext(task.uuid).then((executionContext) => {
+            setAgentId(executionContext?.agentId ?? "");
+        });
+        resolveAgent(task.uuid).then(setResolved);
+    }, [task]);
+
+    const handleAgentChange = async (newAgentId: string) => {
+        try {
+            setError(null);
+            await setAgentOnTaskExecutionContext(
+                task.uuid,
+                newAgentId || undefined,
+            );
+            setAgentId(newAgentId);
+            setResolved(await resolveAgent(task.uuid));
+        } catch (err) {
+            console.error("Failed to pick agent:", err);
+            setError(err instanceof Error ? err.message : "Failed to pick agent");
+        }
+    };
+
+    return (
+        <div className="mb-2">
+            <div className="flex items-center gap-2">
+                <span>Agent:</span>
+                <select
+                    className="select select-bordered select-sm"
+                    value={agentId}
+                    onChange={(e) => handleAgentChange(e.target.value)}
+                    disabled={!hasWorkingDirectory}
+                    title={
+                        hasWorkingDirectory
+                            ? "Agent CLI for this task"
+                            : "Set a working directory first"
+                    }
+                >
+                    <option value="">
+                        Same as product
+                        {resolved && resolved.agentSource !== "task"
+                            ? ` (${resolved.agent.name})`
+                            : ""}
+                    </option>
+                    {agents.map((agent) => (
+                        <option key={agent.uuid} value={agent.uuid}>
+                            {agent.name}
+                        </option>
+                    ))}
+                </select>
+            </div>
+            {error && <div className="text-error text-sm mt-1">{error}</div>}
+        </div>
+    );
+}
@@ -0,0 +1,49 @@
+import type { AvailableContextPreset } from "src/task-execution/context-preset-service";
+
+interface TaskContextPresetsProps {
+    presets: AvailableContextPreset[];
+    selectedPresetIds: string[];
+    onToggle: (presetId: string) => void;
+}
+
+/**
+ * Context presets of the task's products. The paths of the checked presets
+ * are added to the task's context when it is executed.
+ */
+export function TaskContextPresets({
+    presets,
+    selectedPresetIds,
+    onToggle,
+}: TaskContextPresetsProps) {
+    if (presets.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="mb-4">
+            <h4 className="text-md font-medium mb-2">Context Presets</h4>
+            <div className="grid gap-1">
+                {presets.map((preset) => (
+                    <label
+                        key={preset.id}
+                        className="flex items-center gap-2 text-sm cursor-pointer"
+                        title={preset.paths.join("\n") || "No paths yet"}
+                    >
+                        <input
+                            type="checkbox"
+                            className="checkbox checkbox-sm"
+                            checked={selectedPresetIds.includes(preset.id)}
+                            onChange={() => onToggle(preset.id)}
+                        />
+                        <span>{preset.name}</span>
+                        <span className="text-xs text-gray-500">
+                            {preset.paths.length} path
+                            {preset.paths.length !== 1 ? "s" : ""} •{" "}
+                            {preset.productTitle}
+                        </span>
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+}
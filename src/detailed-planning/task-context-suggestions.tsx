@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import type { Task } from "src/entities/tasks/types";
+import {
+    suggestContextForTask,
+    type ContextSuggestion,
+} from "src/task-execution/context-suggestion-service";
+
+interface TaskContextSuggestionsProps {
+    task: Task;
+    workingDirectory: string;
+    contextFiles: string[];
+    onAdd: (path: string) => void;
+    onPreview: (path: string) => void;
+}
+
+function describeSuggestion(suggestion: ContextSuggestion): string {
+    if (suggestion.reason === "sibling") {
+        return `Used by ${suggestion.details.join(", ")}`;
+    }
+    return `Matches ${suggestion.details.join(", ")}`;
+}
+
+/**
+ * Files worth adding to a task's context, from its sibling tasks in the
+ * workstream and from matching the task's text against the working
+ * directory. Each can be added with one click.
+ */
+export function TaskContextSuggestions({
+    task,
+    workingDirectory,
+    contextFiles,
+    onAdd,
+    onPreview,
+}: TaskContextSuggestionsProps) {
+    const [suggestions, setSuggestions] = useState<ContextSuggestion[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    // Suggestions only depend on the task and the directory, context changes just hide them
+    useEffect(() => {
+        let isCancelled = false;
+        setIsLoading(true);
+        suggestContextForTask(task, workingDirectory)
+            .then((result) => {
+                if (!isCancelled) {
+                    setSuggestions(result);
+                }
+            })
+            .catch((error) => {
+                console.warn("Could not load context suggestions:", error);
+                if (!isCancelled) {
+                    setSuggestions([]);
+                }
+            })
+            .finally(() => {
+                if (!isCancelled) {
+                    setIsLoading(false);
+                }
+            });
+        return () => {
+            isCancelled = true;
+        };
+    }, [task.uuid, task.title, task.description, workingDirectory]);
+
+    const visibleSuggestions = suggestions.filter(
+        (suggestion) => !contextFiles.includes(suggestion.path),
+    );
+
+    if (!isLoading && visibleSuggestions.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="mb-4">
+            <h4 className="text-md font-medium mb-2">Suggested Context</h4>
+            {isLoading ? (
+                <div className="text-sm text-gray-500">
+                    Finding relevant files...
+                </div>
+            ) : (
+                <div className="bg-gray-50 rounded p-3 max-h-60 overflow-y-auto">
+                    <div className="grid gap-1">
+                        {visibleSuggestions.map((suggestion) => (
+                            <div
+                                key={suggestion.path}
+                                className="flex items-center gap-2 text-sm p-1 rounded hover:bg-gray-100"
+                            >
+                                <button
+                                    className="btn btn-xs btn-outline"
+                                    onClick={() => onAdd(suggestion.path)}
+                                    title="Add to context"
+                                >
+                                    +
+                                </button>
+                                {/* Siblings' entries can be folders, which have no preview */}
+                                {suggestion.reason === "content" ? (
+                                    <span
+                                        className="font-mono text-gray-700 truncate cursor-pointer hover:underline"
+                                        onClick={() =>
+                                            onPreview(suggestion.path)
+                                        }
+                                        title="Preview"
+                                    >
+                                        {suggestion.path}
+                                    </span>
+                                ) : (
+                                    <span className="font-mono text-gray-700 truncate">
+                                        {suggestion.path}
+                                    </span>
+                                )}
+                                <span
+                                    className={`badge badge-sm ${suggestion.reason === "sibling" ? "badge-info" : "badge-ghost"}`}
+                                >
+                                    {suggestion.reason === "sibling"
+                                        ? "workstream"
+                                        : "match"}
+                                </span>
+                                <span className="ml-auto text-xs text-gray-500 truncate">
+                                    {describeSuggestion(suggestion)}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
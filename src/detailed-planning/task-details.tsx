@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { updateTask } from "src/entities/tasks/task-service";
 import { TaskExecution } from "./task-execution";
+import { TaskReview } from "./task-review";
 import type { Task } from "src/entities/tasks/types";
 import {
     loadProducts,
@@ -195,6 +196,21 @@ export function TaskDetails({
                     </div>
                 )}
             </div>
+            {task.notes && task.notes.length > 0 && (
+                <div className="mb-4">
+                    <div className="text-sm font-medium mb-1">Notes:</div>
+                    <ul className="text-sm text-gray-600 space-y-1">
+                        {task.notes.map((note, index) => (
+                            <li key={`${note.createdAt}-${index}`}>
+                                <span className="text-xs text-gray-400 mr-2">
+                                    {new Date(note.createdAt).toLocaleString()}
+                                </span>
+                                {note.text}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
             <div className="mb-4">
                 <div className="text-sm font-medium mb-2">Product:</div>
                 <div className="flex gap-2 items-center">
@@ -219,6 +235,7 @@ export function TaskDetails({
                 </div>
             </div>
             <TaskExecution task={task} />
+            <TaskReview task={task} onUpdate={onUpdate} />
         </div>
     );
 }
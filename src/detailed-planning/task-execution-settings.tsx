@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import type { Task } from "src/entities/tasks/types";
+import { getTaskExecutionSettings } from "src/task-execution/task-execution-context-storage";
+import {
+    describeSettingSource,
+    type ExecutionSettings,
+    type ResolvedSetting,
+} from "src/task-execution/execution-settings";
+import { loadAgents, type Agent } from "src/task-execution/agent-storage";
+import {
+    loadPromptTemplates,
+    type PromptTemplate,
+} from "src/task-execution/prompt-template-storage";
+import { DEFAULT_AGENT } from "src/task-execution/agents/types";
+import { DEFAULT_PROMPT_TEMPLATE } from "src/task-execution/prompt-templates";
+
+interface TaskExecutionSettingsProps {
+    task: Task;
+    refreshKey: string; // Changes when the task's own settings changed
+}
+
+/**
+ * The settings a task is executed with and where each comes from: the task
+ * itself, one of its products, or the default.
+ */
+export function TaskExecutionSettings({
+    task,
+    refreshKey,
+}: TaskExecutionSettingsProps) {
+    const [settings, setSettings] = useState<ExecutionSettings | null>(null);
+    const [agents, setAgents] = useState<Agent[]>([]);
+    const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+
+    useEffect(() => {
+        loadAgents()
+            .then(setAgents)
+            .catch((err) => console.error("Failed to load agents:", err));
+        loadPromptTemplates()
+            .then(setTemplates)
+            .catch((err) =>
+                console.error("Failed to load prompt templates:", err),
+            );
+    }, []);
+
+    useEffect(() => {
+        getTaskExecutionSettings(task.uuid)
+            .then(setSettings)
+            .catch((err) =>
+                console.error("Failed to resolve execution settings:", err),
+            );
+    }, [task.uuid, refreshKey]);
+
+    if (!settings) {
+        return null;
+    }
+
+    const rows: [string, ResolvedSetting<unknown>, string][] = [
+        [
+            "Working directory",
+            settings.workingDirectory,
+            settings.workingDirectory.value ?? "None",
+        ],
+        [
+            "Run in worktree",
+            settings.async,
+            settings.async.value ? "Yes" : "No",
+        ],
+        [
+            "Agent",
+            settings.agentId,
+            agents.find((agent) => agent.uuid === settings.agentId.value)
+                ?.name ?? DEFAULT_AGENT.name,
+        ],
+        [
+            "Prompt template",
+            settings.promptTemplateId,
+            templates.find(
+                (template) => template.uuid === settings.promptTemplateId.value,
+            )?.name ?? DEFAULT_PROMPT_TEMPLATE.name,
+        ],
+        [
+            "Base branch",
+            settings.baseBranch,
+            settings.baseBranch.value ?? "Checked out branch",
+        ],
+        ["Merge mode", settings.mergeMode, settings.mergeMode.value],
+        [
+            "Context",
+            settings.context,
+            `${settings.context.value.length} file${settings.context.value.length !== 1 ? "s" : ""}`,
+        ],
+        [
+            "Context presets",
+            settings.contextPresets,
+            settings.contextPresets.value
+                .map((preset) => preset.name)
+                .join(", ") || "None",
+        ],
+        [
+            "Verification",
+            settings.verificationCommands,
+            settings.verificationCommands.value.join(", ") || "None",
+        ],
+    ];
+
+    return (
+        <details className="mb-2">
+            <summary className="text-sm cursor-pointer">
+                Effective settings
+            </summary>
+            <table className="table table-xs mt-1">
+                <tbody>
+                    {rows.map(([label, setting, value]) => (
+                        <tr key={label}>
+                            <td className="text-gray-500">{label}</td>
+                            <td className="font-mono">{value}</td>
+                            <td
+                                className={
+                                    setting.source.level === "task"
+                                        ? "text-blue-600"
+                                        : "text-gray-500"
+                                }
+                            >
+                                {describeSettingSource(setting.source)}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </details>
+    );
+}
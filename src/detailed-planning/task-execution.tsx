@@ -5,33 +5,93 @@ import {
     setTaskExecutionContext,
     removeTaskExecutionContext,
     setFilesOnTaskExecutionContext,
+    setContextPresetsOnTaskExecutionContext,
+    setAsyncOnTaskExecutionContext,
 } from "src/task-execution/task-execution-context-storage";
+import {
+    getAvailableContextPresets,
+    type AvailableContextPreset,
+} from "src/task-execution/context-preset-service";
 import {
     listDirectoryFiles,
+    searchDirectoryFiles,
     type DirectoryEntry,
+    type DirectorySearchResult,
 } from "src/task-execution/directory-files";
 import { TaskExecuteButton } from "@/components/shared/task-execute-button";
+import { TaskRunControls } from "@/components/shared/task-run-controls";
+import { refreshTaskExecutionRuns } from "src/task-execution/task-execution-run-service";
+import type { TaskExecutionRun } from "src/task-execution/task-execution-run-storage";
+import { TaskRunConsole } from "./task-run-console";
+import { TaskRuns } from "./task-runs";
+import { TaskPrompt } from "./task-prompt";
+import { TaskAgent } from "./task-agent";
+import { TaskExecutionSettings } from "./task-execution-settings";
+import {
+    TaskFilePreview,
+    formatBytes,
+    formatTokens,
+} from "./task-file-preview";
+import { TaskContextSuggestions } from "./task-context-suggestions";
+import { TaskContextPresets } from "./task-context-presets";
+import {
+    getContextStats,
+    type ContextStats,
+} from "src/task-execution/task-execution-api";
 
 interface TaskExecutionProps {
     task: Task;
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+
 export function TaskExecution({ task }: TaskExecutionProps) {
     const [workingDirectory, setWorkingDirectory] = useState<string | null>(
         null,
     );
     const [isEditingDirectory, setIsEditingDirectory] = useState(false);
     const [editedDirectory, setEditedDirectory] = useState("");
-    const [directoryFiles, setDirectoryFiles] = useState<DirectoryEntry[]>([]);
+    // Listed folders by path relative to the working directory, "" is its root
+    const [folderEntries, setFolderEntries] = useState<
+        Record<string, DirectoryEntry[]>
+    >({});
+    const [folderNextOffsets, setFolderNextOffsets] = useState<
+        Record<string, number | null>
+    >({});
+    const [expandedFolders, setExpandedFolders] = useState<Set<string>>(
+        new Set(),
+    );
+    const [loadingFolders, setLoadingFolders] = useState<Set<string>>(
+        new Set(),
+    );
     const [isLoadingFiles, setIsLoadingFiles] = useState(false);
     const [fileListError, setFileListError] = useState<string | null>(null);
     const [searchQuery, setSearchQuery] = useState("");
+    const [searchResult, setSearchResult] =
+        useState<DirectorySearchResult | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+    const [previewPath, setPreviewPath] = useState<string | null>(null);
+    const [contextStats, setContextStats] = useState<ContextStats | null>(null);
     const [contextFiles, setContextFiles] = useState<string[]>([]);
+    const [contextPresets, setContextPresets] = useState<
+        AvailableContextPreset[]
+    >([]);
+    const [contextPresetIds, setContextPresetIds] = useState<string[]>([]);
     const [isAsync, setIsAsync] = useState(true);
+    const [runs, setRuns] = useState<TaskExecutionRun[]>([]);
+    const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+    const clearDirectoryFiles = () => {
+        setFolderEntries({});
+        setFolderNextOffsets({});
+        setExpandedFolders(new Set());
+        setSearchResult(null);
+        setPreviewPath(null);
+    };
 
     const loadDirectoryFiles = async (directory: string) => {
+        clearDirectoryFiles();
         if (!directory) {
-            setDirectoryFiles([]);
             setSearchQuery("");
             return;
         }
@@ -39,8 +99,9 @@ export function TaskExecution({ task }: TaskExecutionProps) {
         setIsLoadingFiles(true);
         setFileListError(null);
         try {
-            const files = await listDirectoryFiles(directory);
-            setDirectoryFiles(files);
+            const page = await listDirectoryFiles(directory);
+            setFolderEntries({ "": page.entries });
+            setFolderNextOffsets({ "": page.nextOffset });
         } catch (error) {
             console.error("Error loading directory files:", error);
             setFileListError(
@@ -48,25 +109,170 @@ export function TaskExecution({ task }: TaskExecutionProps) {
                     ? error.message
                     : "Failed to load directory files",
             );
-            setDirectoryFiles([]);
         } finally {
             setIsLoadingFiles(false);
         }
     };
 
+    /**
+     * Load a page of a folder, appending it to the pages loaded before.
+     */
+    const loadFolderPage = async (path: string, offset: number) => {
+        if (!workingDirectory) {
+            return;
+        }
+        setLoadingFolders((folders) => new Set(folders).add(path));
+        try {
+            const page = await listDirectoryFiles(
+                workingDirectory,
+                path,
+                offset,
+            );
+            setFolderEntries((entries) => ({
+                ...entries,
+                [path]: [
+                    ...(offset > 0 ? (entries[path] ?? []) : []),
+                    ...page.entries,
+                ],
+            }));
+            setFolderNextOffsets((offsets) => ({
+                ...offsets,
+                [path]: page.nextOffset,
+            }));
+        } catch (error) {
+            console.error(`Error loading folder ${path}:`, error);
+            setFileListError(
+                error instanceof Error
+                    ? error.message
+                    : "Failed to load folder",
+            );
+        } finally {
+            setLoadingFolders((folders) => {
+                const remaining = new Set(folders);
+                remaining.delete(path);
+                return remaining;
+            });
+        }
+    };
+
+    const handleToggleFolder = (path: string) => {
+        const expanded = new Set(expandedFolders);
+        if (expanded.has(path)) {
+            expanded.delete(path);
+        } else {
+            expanded.add(path);
+            if (!folderEntries[path]) {
+                loadFolderPage(path, 0);
+            }
+        }
+        setExpandedFolders(expanded);
+    };
+
+    // Search the whole working directory on the server, the tree only has the expanded folders
+    useEffect(() => {
+        const query = searchQuery.trim();
+        if (!workingDirectory || !query) {
+            setSearchResult(null);
+            return;
+        }
+
+        let isCancelled = false;
+        const timeout = setTimeout(async () => {
+            setIsSearching(true);
+            try {
+                const result = await searchDirectoryFiles(
+                    workingDirectory,
+                    query,
+                );
+                if (!isCancelled) {
+                    setSearchResult(result);
+                }
+            } catch (error) {
+                console.error("Error searching directory files:", error);
+            } finally {
+                if (!isCancelled) {
+                    setIsSearching(false);
+                }
+            }
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => {
+            isCancelled = true;
+            clearTimeout(timeout);
+        };
+    }, [workingDirectory, searchQuery]);
+
+    // Sizes of the context entries, to keep the prompt within budget
+    useEffect(() => {
+        // The total includes the paths of the picked presets, like the prompt will
+        const presetPaths = contextPresets
+            .filter((preset) => contextPresetIds.includes(preset.id))
+            .flatMap((preset) => preset.paths);
+        const paths = [...new Set([...contextFiles, ...presetPaths])];
+        if (!workingDirectory || paths.length === 0) {
+            setContextStats(null);
+            return;
+        }
+
+        let isCancelled = false;
+        getContextStats(workingDirectory, paths)
+            .then((stats) => {
+                if (!isCancelled) {
+                    setContextStats(stats);
+                }
+            })
+            .catch((error) => {
+                console.warn("Could not load context sizes:", error);
+                if (!isCancelled) {
+                    setContextStats(null);
+                }
+            });
+        return () => {
+            isCancelled = true;
+        };
+    }, [workingDirectory, contextFiles, contextPresets, contextPresetIds]);
+
     useEffect(() => {
         getTaskExecutionContext(task.uuid).then((executionContext) => {
             const directory = executionContext?.workingDirectory || null;
             setWorkingDirectory(directory);
             setEditedDirectory(directory || "");
             setContextFiles(executionContext?.context || []);
+            setContextPresetIds(executionContext?.contextPresetIds || []);
             setIsAsync(executionContext?.async ?? true);
             if (directory) {
                 loadDirectoryFiles(directory);
             }
         });
+        getAvailableContextPresets(task.uuid)
+            .then(setContextPresets)
+            .catch((error) => {
+                console.warn("Could not load context presets:", error);
+                setContextPresets([]);
+            });
     }, [task]);
 
+    const loadRuns = async (runIdToSelect?: string) => {
+        try {
+            const taskRuns = await refreshTaskExecutionRuns(task.uuid);
+            setRuns(taskRuns);
+            // Show the newest run that produced output unless asked otherwise
+            setSelectedRunId(
+                runIdToSelect ??
+                    taskRuns.find((run) => !run.error)?.runId ??
+                    null,
+            );
+        } catch (error) {
+            console.warn("Could not load runs for task:", error);
+        }
+    };
+
+    useEffect(() => {
+        setRuns([]);
+        setSelectedRunId(null);
+        loadRuns();
+    }, [task.uuid]);
+
     // Working directory handlers
     const handleStartEditDirectory = () => {
         setIsEditingDirectory(true);
@@ -93,8 +299,9 @@ export function TaskExecution({ task }: TaskExecutionProps) {
             } else if (workingDirectory) {
                 await removeTaskExecutionContext(task.uuid);
                 setWorkingDirectory(null);
-                setDirectoryFiles([]);
+                clearDirectoryFiles();
                 setContextFiles([]);
+                setContextPresetIds([]);
             }
         }
         setIsEditingDirectory(false);
@@ -104,9 +311,10 @@ export function TaskExecution({ task }: TaskExecutionProps) {
         await removeTaskExecutionContext(task.uuid);
         setWorkingDirectory(null);
         setEditedDirectory("");
-        setDirectoryFiles([]);
+        clearDirectoryFiles();
         setSearchQuery("");
         setContextFiles([]);
+        setContextPresetIds([]);
         setIsAsync(true);
     };
 
@@ -119,21 +327,125 @@ export function TaskExecution({ task }: TaskExecutionProps) {
         setContextFiles(newContextFiles);
     };
 
+    const handleToggleContextPreset = async (presetId: string) => {
+        const newPresetIds = contextPresetIds.includes(presetId)
+            ? contextPresetIds.filter((id) => id !== presetId)
+            : [...contextPresetIds, presetId];
+
+        await setContextPresetsOnTaskExecutionContext(task.uuid, newPresetIds);
+        setContextPresetIds(newPresetIds);
+    };
+
     const handleToggleAsync = async (checked: boolean) => {
         setIsAsync(checked);
         if (workingDirectory) {
-            await setTaskExecutionContext(
-                task.uuid,
-                workingDirectory,
-                contextFiles,
-                checked,
-            );
+            // Only async is the task's own choice, everything else stays inherited
+            await setAsyncOnTaskExecutionContext(task.uuid, checked);
         }
     };
 
-    const filteredFiles = directoryFiles.filter((entry) =>
-        entry.relativePath.toLowerCase().includes(searchQuery.toLowerCase()),
-    );
+    const rootEntries = folderEntries[""] ?? [];
+
+    const renderEntry = (
+        entry: DirectoryEntry,
+        level: number,
+        showPath: boolean,
+    ) => {
+        const isInContext = contextFiles.includes(entry.relativePath);
+        const isExpanded = expandedFolders.has(entry.relativePath);
+        return (
+            <div
+                className={`flex items-center gap-2 text-sm font-mono p-1 rounded cursor-pointer hover:bg-gray-100 ${
+                    isInContext ? "bg-blue-50 border border-blue-200" : ""
+                }`}
+                style={{ paddingLeft: `${0.25 + level}rem` }}
+                onClick={() => handleToggleFileInContext(entry.relativePath)}
+                title={
+                    isInContext
+                        ? "Click to remove from context"
+                        : "Click to add to context"
+                }
+            >
+                {entry.kind === "directory" && !showPath ? (
+                    <button
+                        className="text-gray-500 w-4 hover:text-gray-800"
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            handleToggleFolder(entry.relativePath);
+                        }}
+                        title={isExpanded ? "Collapse folder" : "Expand folder"}
+                    >
+                        {isExpanded ? "▾" : "▸"}
+                    </button>
+                ) : (
+                    <span className="w-4" />
+                )}
+                <span className="text-gray-400 w-4">
+                    {entry.kind === "directory" ? "📁" : "📄"}
+                </span>
+                <span
+                    className={
+                        entry.kind === "directory"
+                            ? "text-blue-600 font-medium"
+                            : "text-gray-700"
+                    }
+                >
+                    {showPath ? entry.relativePath : entry.name}
+                </span>
+                {isInContext && (
+                    <span className="ml-auto text-blue-500 text-xs">✓</span>
+                )}
+                {entry.kind === "file" && (
+                    <button
+                        className={`text-xs text-gray-400 hover:text-gray-700 ${
+                            isInContext ? "" : "ml-auto"
+                        }`}
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            setPreviewPath(entry.relativePath);
+                        }}
+                        title="Preview file"
+                    >
+                        👁
+                    </button>
+                )}
+            </div>
+        );
+    };
+
+    const renderFolder = (path: string, level: number): React.ReactNode => {
+        const nextOffset = folderNextOffsets[path];
+        return (
+            <>
+                {(folderEntries[path] ?? []).map((entry) => (
+                    <div key={entry.relativePath}>
+                        {renderEntry(entry, level, false)}
+                        {entry.kind === "directory" &&
+                            expandedFolders.has(entry.relativePath) &&
+                            renderFolder(entry.relativePath, level + 1)}
+                    </div>
+                ))}
+                {loadingFolders.has(path) ? (
+                    <div
+                        className="text-xs text-gray-500 p-1"
+                        style={{ paddingLeft: `${0.25 + level}rem` }}
+                    >
+                        Loading...
+                    </div>
+                ) : (
+                    nextOffset != null && (
+                        <button
+                            className="btn btn-xs btn-ghost justify-start"
+                            style={{ marginLeft: `${level}rem` }}
+                            onClick={() => loadFolderPage(path, nextOffset)}
+                        >
+                            Load more
+                        </button>
+                    )
+                )}
+            </>
+        );
+    };
 
     return (
         <div>
@@ -212,13 +524,57 @@ export function TaskExecution({ task }: TaskExecutionProps) {
                     </span>
                 </label>
             </div>
+            <TaskExecutionSettings
+                task={task}
+                refreshKey={`${workingDirectory}|${isAsync}|${contextFiles.join(",")}`}
+            />
+            <TaskAgent
+                task={task}
+                hasWorkingDirectory={workingDirectory !== null}
+            />
+            <TaskPrompt
+                task={task}
+                contextFiles={contextFiles}
+                isAsync={isAsync}
+                hasWorkingDirectory={workingDirectory !== null}
+            />
             <div className="mb-4">
                 <TaskExecuteButton
                     task={task}
                     buttonClassName="btn btn-primary btn-sm mr-2"
+                    onExecuted={(runId) => loadRuns(runId)}
+                />
+                <TaskRunControls
+                    task={task}
+                    run={runs.find((run) => run.runId === selectedRunId)}
+                    onChange={(runId) => loadRuns(runId)}
+                />
+            </div>
+
+            <div className="mb-4">
+                <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-md font-medium">Runs</h4>
+                    <button
+                        className="btn btn-xs btn-outline"
+                        onClick={() => loadRuns(selectedRunId ?? undefined)}
+                    >
+                        Refresh
+                    </button>
+                </div>
+                <TaskRuns
+                    runs={runs}
+                    selectedRunId={selectedRunId}
+                    onSelectRun={setSelectedRunId}
                 />
             </div>
 
+            {selectedRunId && (
+                <div className="mb-4">
+                    <h4 className="text-md font-medium mb-2">Agent Output</h4>
+                    <TaskRunConsole runId={selectedRunId} />
+                </div>
+            )}
+
             {workingDirectory && (
                 <div className="mb-4">
                     <div className="flex items-center justify-between mb-2">
@@ -234,7 +590,7 @@ export function TaskExecution({ task }: TaskExecutionProps) {
                         </button>
                     </div>
 
-                    {directoryFiles.length > 0 && (
+                    {rootEntries.length > 0 && (
                         <div className="mb-2">
                             <input
                                 type="text"
@@ -256,64 +612,40 @@ export function TaskExecution({ task }: TaskExecutionProps) {
                         <div className="text-sm text-gray-500">
                             Loading files...
                         </div>
-                    ) : directoryFiles.length > 0 ? (
-                        filteredFiles.length > 0 ? (
+                    ) : searchQuery.trim() ? (
+                        isSearching && !searchResult ? (
+                            <div className="text-sm text-gray-500">
+                                Searching...
+                            </div>
+                        ) : searchResult && searchResult.entries.length > 0 ? (
                             <div className="bg-gray-50 rounded p-3 max-h-60 overflow-y-auto">
                                 <div className="grid gap-1">
-                                    {filteredFiles.map((entry, index) => {
-                                        const isInContext =
-                                            contextFiles.includes(
-                                                entry.relativePath,
-                                            );
-                                        return (
-                                            <div
-                                                key={`${entry.relativePath}-${index}`}
-                                                className={`flex items-center gap-2 text-sm font-mono p-1 rounded cursor-pointer hover:bg-gray-100 ${
-                                                    isInContext
-                                                        ? "bg-blue-50 border border-blue-200"
-                                                        : ""
-                                                }`}
-                                                onClick={() =>
-                                                    handleToggleFileInContext(
-                                                        entry.relativePath,
-                                                    )
-                                                }
-                                                title={
-                                                    isInContext
-                                                        ? "Click to remove from context"
-                                                        : "Click to add to context"
-                                                }
-                                            >
-                                                <span className="text-gray-400 w-4">
-                                                    {entry.kind === "directory"
-                                                        ? "📁"
-                                                        : "📄"}
-                                                </span>
-                                                <span
-                                                    className={
-                                                        entry.kind ===
-                                                        "directory"
-                                                            ? "text-blue-600 font-medium"
-                                                            : "text-gray-700"
-                                                    }
-                                                >
-                                                    {entry.relativePath}
-                                                </span>
-                                                {isInContext && (
-                                                    <span className="ml-auto text-blue-500 text-xs">
-                                                        ✓
-                                                    </span>
-                                                )}
-                                            </div>
-                                        );
-                                    })}
+                                    {searchResult.entries.map((entry) => (
+                                        <div key={entry.relativePath}>
+                                            {renderEntry(entry, 0, true)}
+                                        </div>
+                                    ))}
                                 </div>
+                                {searchResult.total >
+                                    searchResult.entries.length && (
+                                    <div className="text-xs text-gray-500 italic mt-1">
+                                        Showing {searchResult.entries.length} of{" "}
+                                        {searchResult.total} matches, refine
+                                        your search to see the rest
+                                    </div>
+                                )}
                             </div>
                         ) : (
                             <div className="text-sm text-gray-500 italic">
                                 No files match your search
                             </div>
                         )
+                    ) : rootEntries.length > 0 ? (
+                        <div className="bg-gray-50 rounded p-3 max-h-60 overflow-y-auto">
+                            <div className="grid gap-1">
+                                {renderFolder("", 0)}
+                            </div>
+                        </div>
                     ) : workingDirectory &&
                       !isLoadingFiles &&
                       !fileListError ? (
@@ -321,36 +653,109 @@ export function TaskExecution({ task }: TaskExecutionProps) {
                             No files found in directory
                         </div>
                     ) : null}
+
+                    {previewPath && (
+                        <TaskFilePreview
+                            workingDirectory={workingDirectory}
+                            path={previewPath}
+                            isInContext={contextFiles.includes(previewPath)}
+                            onToggleContext={handleToggleFileInContext}
+                            onClose={() => setPreviewPath(null)}
+                        />
+                    )}
                 </div>
             )}
 
+            {workingDirectory && (
+                <TaskContextPresets
+                    presets={contextPresets}
+                    selectedPresetIds={contextPresetIds}
+                    onToggle={handleToggleContextPreset}
+                />
+            )}
+
+            {workingDirectory && (
+                <TaskContextSuggestions
+                    task={task}
+                    workingDirectory={workingDirectory}
+                    contextFiles={contextFiles}
+                    onAdd={handleToggleFileInContext}
+                    onPreview={setPreviewPath}
+                />
+            )}
+
             {contextFiles.length > 0 && (
                 <div className="mb-4">
-                    <h4 className="text-md font-medium mb-2">
-                        Task Execution Context Files
-                    </h4>
+                    <div className="flex items-center justify-between mb-2">
+                        <h4 className="text-md font-medium">
+                            Task Execution Context Files
+                        </h4>
+                        {contextStats && (
+                            <span
+                                className="text-xs text-gray-500"
+                                title={`${contextStats.total.files} file${contextStats.total.files !== 1 ? "s" : ""}, estimated at 4 bytes per token`}
+                            >
+                                Total: {formatTokens(contextStats.total.tokens)}{" "}
+                                ({formatBytes(contextStats.total.size)})
+                            </span>
+                        )}
+                    </div>
                     <div className="bg-blue-50 rounded p-3 border border-blue-200">
                         <div className="grid gap-1">
-                            {contextFiles.map((filePath, index) => (
-                                <div
-                                    key={`context-${filePath}-${index}`}
-                                    className="flex items-center gap-2 text-sm font-mono p-1 rounded hover:bg-blue-100 cursor-pointer"
-                                    onClick={() =>
-                                        handleToggleFileInContext(filePath)
-                                    }
-                                    title="Click to remove from context"
-                                >
-                                    <span className="text-gray-400 w-4">
-                                        📄
-                                    </span>
-                                    <span className="text-gray-700">
-                                        {filePath}
-                                    </span>
-                                    <span className="ml-auto text-red-500 text-xs hover:text-red-700">
-                                        ✕
-                                    </span>
-                                </div>
-                            ))}
+                            {contextFiles.map((filePath, index) => {
+                                const stats = contextStats?.entries.find(
+                                    (entry) => entry.path === filePath,
+                                );
+                                const isMissing =
+                                    contextStats?.missing.includes(filePath);
+                                return (
+                                    <div
+                                        key={`context-${filePath}-${index}`}
+                                        className="flex items-center gap-2 text-sm font-mono p-1 rounded hover:bg-blue-100 cursor-pointer"
+                                        onClick={() =>
+                                            handleToggleFileInContext(filePath)
+                                        }
+                                        title="Click to remove from context"
+                                    >
+                                        <span className="text-gray-400 w-4">
+                                            {stats?.kind === "directory"
+                                                ? "📁"
+                                                : "📄"}
+                                        </span>
+                                        <span className="text-gray-700">
+                                            {filePath}
+                                        </span>
+                                        {stats && (
+                                            <span
+                                                className="ml-auto text-xs text-gray-500"
+                                                title={
+                                                    stats.kind === "directory"
+                                                        ? `${stats.files} files, ${formatBytes(stats.size)}`
+                                                        : formatBytes(
+                                                              stats.size,
+                                                          )
+                                                }
+                                            >
+                                                {formatTokens(stats.tokens)}
+                                            </span>
+                                        )}
+                                        {isMissing && (
+                                            <span className="ml-auto text-xs text-orange-600">
+                                                not found
+                                            </span>
+                                        )}
+                                        <span
+                                            className={`${
+                                                stats || isMissing
+                                                    ? ""
+                                                    : "ml-auto "
+                                            }text-red-500 text-xs hover:text-red-700`}
+                                        >
+                                            ✕
+                                        </span>
+                                    </div>
+                                );
+                            })}
                         </div>
                     </div>
                 </div>
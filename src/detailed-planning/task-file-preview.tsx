@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import {
+    getFilePreview,
+    type FilePreview,
+} from "src/task-execution/task-execution-api";
+
+interface TaskFilePreviewProps {
+    workingDirectory: string;
+    path: string;
+    isInContext: boolean;
+    onToggleContext: (path: string) => void;
+    onClose: () => void;
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function formatTokens(tokens: number): string {
+    if (tokens < 1000) return `~${tokens} tokens`;
+    return `~${(tokens / 1000).toFixed(1)}k tokens`;
+}
+
+/**
+ * Start of a file in the working directory with its size and token estimate,
+ * so context files can be picked by their contents rather than their names.
+ */
+export function TaskFilePreview({
+    workingDirectory,
+    path,
+    isInContext,
+    onToggleContext,
+    onClose,
+}: TaskFilePreviewProps) {
+    const [preview, setPreview] = useState<FilePreview | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCancelled = false;
+        setPreview(null);
+        setError(null);
+        getFilePreview(workingDirectory, path)
+            .then((filePreview) => {
+                if (!isCancelled) {
+                    setPreview(filePreview);
+                }
+            })
+            .catch((err) => {
+                console.error("Failed to load file preview:", err);
+                if (!isCancelled) {
+                    setError(
+                        err instanceof Error
+                            ? err.message
+                            : "Failed to load file preview",
+                    );
+                }
+            });
+        return () => {
+            isCancelled = true;
+        };
+    }, [workingDirectory, path]);
+
+    return (
+        <div className="border rounded p-2 mt-2 bg-white">
+            <div className="flex items-center gap-2 mb-1">
+                <span className="font-mono text-sm text-gray-700 truncate">
+                    {path}
+                </span>
+                {preview && (
+                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {formatBytes(preview.size)}
+                        {!preview.binary &&
+                            ` • ${formatTokens(preview.tokens)}`}
+                    </span>
+                )}
+                <div className="ml-auto flex gap-1">
+                    <button
+                        className="btn btn-xs btn-outline"
+                        onClick={() => onToggleContext(path)}
+                    >
+                        {isInContext ? "Remove from context" : "Add to context"}
+                    </button>
+                    <button className="btn btn-xs btn-ghost" onClick={onClose}>
+                        ✕
+                    </button>
+                </div>
+            </div>
+
+            {error ? (
+                <div className="text-sm text-red-600">{error}</div>
+            ) : !preview ? (
+                <div className="text-sm text-gray-500">Loading preview...</div>
+            ) : preview.binary ? (
+                <div className="text-sm text-gray-500 italic">
+                    Binary file, no preview
+                </div>
+            ) : (
+                <>
+                    <pre className="bg-gray-50 rounded p-2 text-xs font-mono max-h-80 overflow-auto whitespace-pre">
+                        {preview.content || " "}
+                    </pre>
+                    {preview.truncated && (
+                        <div className="text-xs text-gray-500 italic mt-1">
+                            Showing the start of {preview.lines} lines
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
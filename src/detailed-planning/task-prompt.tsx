@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import type { Task } from "src/entities/tasks/types";
+import {
+    loadPromptTemplates,
+    type PromptTemplate,
+} from "src/task-execution/prompt-template-storage";
+import {
+    renderTaskPrompt,
+    type RenderedPrompt,
+} from "src/task-execution/prompt-templates";
+import {
+    getTaskExecutionContext,
+    setPromptTemplateOnTaskExecutionContext,
+} from "src/task-execution/task-execution-context-storage";
+
+interface TaskPromptProps {
+    task: Task;
+    contextFiles: string[];
+    isAsync: boolean;
+    hasWorkingDirectory: boolean;
+}
+
+const TEMPLATE_SOURCE_LABELS: Record<RenderedPrompt["templateSource"], string> = {
+    task: "picked for this task",
+    product: "inherited from the product",
+    default: "built-in default",
+};
+
+/**
+ * Prompt template picker of a task with a preview of the exact prompt
+ * the agent would get.
+ */
+export function TaskPrompt({
+    task,
+    contextFiles,
+    isAsync,
+    hasWorkingDirectory,
+}: TaskPromptProps) {
+    const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+    const [templateId, setTemplateId] = useState("");
+    const [preview, setPreview] = useState<RenderedPrompt | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadPromptTemplates()
+            .then(setTemplates)
+            .catch((err) =>
+                console.error("Failed to load prompt templates:", err),
+            );
+    }, []);
+
+    useEffect(() => {
+        setPreview(null);
+        getTaskExecutionContext(task.uuid).then((executionContext) => {
+            setTemplateId(executionContext?.promptTemplateId ?? "");
+        });
+    }, [task]);
+
+    const renderPreview = async () => {
+        try {
+            setError(null);
+            setPreview(await renderTaskPrompt(task, contextFiles, isAsync));
+        } catch (err) {
+            console.error("Failed to render prompt:", err);
+            setError(err instanceof Error ? err.message : "Failed to render prompt");
+        }
+    };
+
+    // Keep an open preview in sync with the context and async setting
+    useEffect(() => {
+        if (preview) {
+            renderPreview();
+        }
+    }, [contextFiles, isAsync]);
+
+    const handleTemplateChange = async (newTemplateId: string) => {
+        try {
+            setError(null);
+            await setPromptTemplateOnTaskExecutionContext(
+                task.uuid,
+                newTemplateId || undefined,
+            );
+            setTemplateId(newTemplateId);
+            if (preview) {
+                await renderPreview();
+            }
+        } catch (err) {
+            console.error("Failed to pick prompt template:", err);
+            setError(
+                err instanceof Error ? err.message : "Failed to pick prompt template",
+            );
+        }
+    };
+
+    return (
+        <div className="mb-4">
+            <div className="flex items-center gap-2 mb-2">
+                <span>Prompt Template:</span>
+                <select
+                    className="select select-bordered select-sm"
+                    value={templateId}
+                    onChange={(e) => handleTemplateChange(e.target.value)}
+                    disabled={!hasWorkingDirectory}
+                    title={
+                        hasWorkingDirectory
+                            ? "Prompt template for this task"
+                            : "Set a working directory first"
+                    }
+                >
+                    <option value="">Same as product</option>
+                    {templates.map((template) => (
+                        <option key={template.uuid} value={template.uuid}>
+                            {template.name}
+                        </option>
+                    ))}
+                </select>
+                <button
+                    className="btn btn-xs btn-outline"
+                    onClick={() => (preview ? setPreview(null) : renderPreview())}
+                >
+                    {preview ? "Hide Preview" : "Preview Prompt"}
+                </button>
+            </div>
+
+            {error && <div className="text-error text-sm mb-2">{error}</div>}
+
+            {preview && (
+                <div>
+                    <div className="text-xs text-gray-500 mb-1">
+                        {preview.template.name} (
+                        {TEMPLATE_SOURCE_LABELS[preview.templateSource]})
+                    </div>
+                    <pre className="bg-gray-50 rounded p-3 text-sm whitespace-pre-wrap font-mono max-h-60 overflow-y-auto">
+                        {preview.prompt}
+                    </pre>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,389 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Task } from "src/entities/tasks/types";
+import { updateTask } from "src/entities/tasks/task-service";
+import { getTaskExecutionContext } from "src/task-execution/task-execution-context-storage";
+import {
+    getWorktreeChanges,
+    type MergeWorktreeResult,
+    type WorktreeChanges,
+} from "src/task-execution/task-execution-api";
+import {
+    mergeTaskWorktree,
+    resolveMergeSettings,
+    type ResolvedMergeSettings,
+} from "src/task-execution/merge-service";
+
+interface TaskReviewProps {
+    task: Task;
+    onUpdate: () => void;
+}
+
+interface FileDiff {
+    path: string;
+    lines: string[];
+}
+
+const FILE_STATUS_LABELS: Record<string, string> = {
+    A: "added",
+    M: "modified",
+    D: "deleted",
+    R: "renamed",
+    "?": "untracked",
+};
+
+/**
+ * Split a unified diff into one section per file, keyed by the new path.
+ */
+function splitDiff(diff: string): FileDiff[] {
+    const files: FileDiff[] = [];
+    for (const line of diff.split("\n")) {
+        if (line.startsWith("diff --git ")) {
+            // "diff --git a/<old> b/<new>"
+            const path = line.split(" b/").pop() ?? line;
+            files.push({ path, lines: [line] });
+        } else if (files.length > 0) {
+            files[files.length - 1]!.lines.push(line);
+        }
+    }
+    return files;
+}
+
+function getLineClassName(line: string): string {
+    if (line.startsWith("+++") || line.startsWith("---")) {
+        return "text-gray-500";
+    }
+    if (line.startsWith("+")) {
+        return "bg-green-50 text-green-800";
+    }
+    if (line.startsWith("-")) {
+        return "bg-red-50 text-red-800";
+    }
+    if (line.startsWith("@@")) {
+        return "text-blue-600";
+    }
+    if (line.startsWith("diff --git")) {
+        return "font-semibold text-gray-700 mt-2";
+    }
+    return "text-gray-700";
+}
+
+/**
+ * Changes the agent made in the task's worktree: commits, changed files and
+ * the unified diff against the base branch. The branch can be merged locally
+ * with the product's merge mode, and tasks in review can be approved from
+ * here, which moves them to "Done".
+ */
+export function TaskReview({ task, onUpdate }: TaskReviewProps) {
+    const [worktree, setWorktree] = useState<{
+        name: string;
+        workingDirectory: string;
+    } | null>(null);
+    const [changes, setChanges] = useState<WorktreeChanges | null>(null);
+    const [selectedPath, setSelectedPath] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [mergeSettings, setMergeSettings] =
+        useState<ResolvedMergeSettings | null>(null);
+    const [mergeResult, setMergeResult] = useState<MergeWorktreeResult | null>(
+        null,
+    );
+    const [isMerging, setIsMerging] = useState(false);
+
+    const loadChanges = useCallback(
+        async (name: string, workingDirectory: string, base?: string) => {
+            setIsLoading(true);
+            setError(null);
+            try {
+                setChanges(
+                    await getWorktreeChanges(name, workingDirectory, base),
+                );
+            } catch (err) {
+                console.error("Failed to load worktree changes:", err);
+                setChanges(null);
+                setError(
+                    err instanceof Error
+                        ? err.message
+                        : "Failed to load worktree changes",
+                );
+            } finally {
+                setIsLoading(false);
+            }
+        },
+        [],
+    );
+
+    useEffect(() => {
+        setWorktree(null);
+        setChanges(null);
+        setSelectedPath(null);
+        setMergeResult(null);
+        setMergeSettings(null);
+        setError(null);
+        // Changes are shown against the base branch the worktree merges into
+        const mergeSettingsPromise = resolveMergeSettings(task.uuid)
+            .then((settings) => {
+                setMergeSettings(settings);
+                return settings;
+            })
+            .catch((err) => {
+                console.error("Failed to resolve merge settings:", err);
+                return null;
+            });
+        getTaskExecutionContext(task.uuid)
+            .then(async (executionContext) => {
+                if (!executionContext?.worktree) {
+                    return;
+                }
+                setWorktree({
+                    name: executionContext.worktree,
+                    workingDirectory: executionContext.workingDirectory,
+                });
+                const settings = await mergeSettingsPromise;
+                await loadChanges(
+                    executionContext.worktree,
+                    executionContext.workingDirectory,
+                    settings?.base,
+                );
+            })
+            .catch((err) =>
+                console.error("Failed to load execution context:", err),
+            );
+    }, [task.uuid, loadChanges]);
+
+    const handleMerge = async () => {
+        if (!worktree) {
+            return;
+        }
+        setIsMerging(true);
+        setMergeResult(null);
+        try {
+            const result = await mergeTaskWorktree(task);
+            setMergeResult(result);
+            if (result.status === "merged") {
+                await loadChanges(
+                    worktree.name,
+                    worktree.workingDirectory,
+                    mergeSettings?.base,
+                );
+                onUpdate();
+            }
+        } catch (err) {
+            console.error("Failed to merge worktree:", err);
+            setMergeResult({
+                status: "rejected",
+                reason:
+                    err instanceof Error
+                        ? err.message
+                        : "Failed to merge worktree",
+            });
+        } finally {
+            setIsMerging(false);
+        }
+    };
+
+    const handleApprove = async () => {
+        await updateTask({ ...task, status: "Done" });
+        onUpdate();
+    };
+
+    // Only tasks that ran in a worktree have something to review
+    if (!worktree) {
+        return null;
+    }
+
+    const fileDiffs = changes ? splitDiff(changes.diff) : [];
+    const shownDiffs = selectedPath
+        ? fileDiffs.filter((fileDiff) => fileDiff.path === selectedPath)
+        : fileDiffs;
+
+    return (
+        <div className="mb-4">
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="text-lg font-semibold">Review</h3>
+                <div className="flex gap-2">
+                    <button
+                        className="btn btn-xs btn-outline"
+                        onClick={() =>
+                            loadChanges(
+                                worktree.name,
+                                worktree.workingDirectory,
+                                mergeSettings?.base,
+                            )
+                        }
+                        disabled={isLoading}
+                    >
+                        {isLoading ? "Loading..." : "Refresh"}
+                    </button>
+                    <button
+                        className="btn btn-xs btn-primary"
+                        onClick={handleMerge}
+                        disabled={isMerging || !changes}
+                        title={`Merge the worktree branch into ${
+                            mergeSettings?.base ?? "the checked out branch"
+                        } locally`}
+                    >
+                        {isMerging
+                            ? "Merging..."
+                            : `Merge (${mergeSettings?.mode ?? "merge"})`}
+                    </button>
+                    <button
+                        className="btn btn-xs btn-success"
+                        onClick={handleApprove}
+                        disabled={task.status !== "In Review"}
+                        title={
+                            task.status === "In Review"
+                                ? "Approve the changes and move the task to Done"
+                                : "Only tasks in review can be approved"
+                        }
+                    >
+                        Approve
+                    </button>
+                </div>
+            </div>
+
+            <div className="text-xs text-gray-500 font-mono mb-2">
+                📁 {worktree.workingDirectory} • {worktree.name}
+                {changes &&
+                    ` • ${changes.branch ?? "detached"} vs ${changes.base}`}
+            </div>
+
+            {error && (
+                <div className="alert alert-warning text-sm mb-2">
+                    <span>⚠️ {error}</span>
+                </div>
+            )}
+
+            {mergeResult?.status === "merged" && (
+                <div className="alert alert-success text-sm mb-2">
+                    <span>
+                        {mergeResult.commits > 0
+                            ? `Merged ${mergeResult.branch} into ${mergeResult.base} (${mergeResult.mode}), now at ${mergeResult.head.substring(0, 7)}`
+                            : `${mergeResult.base} already contains ${mergeResult.branch}`}
+                    </span>
+                </div>
+            )}
+            {mergeResult?.status === "rejected" && (
+                <div className="alert alert-error text-sm mb-2">
+                    <span>{mergeResult.reason}</span>
+                </div>
+            )}
+            {mergeResult?.status === "conflicts" && (
+                <div className="alert alert-error text-sm mb-2">
+                    <div>
+                        <div className="font-semibold">
+                            {mergeResult.branch} conflicts with{" "}
+                            {mergeResult.base}, nothing was merged
+                        </div>
+                        {mergeResult.conflicts.map((conflict) => (
+                            <div
+                                key={conflict.path}
+                                className="text-xs font-mono"
+                            >
+                                {conflict.path}{" "}
+                                <span className="opacity-70">
+                                    ({conflict.type.replace(/-/g, " ")})
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {changes && (
+                <>
+                    {changes.commits.length > 0 && (
+                        <div className="mb-2">
+                            <div className="text-sm font-medium mb-1">
+                                Commits ({changes.commits.length})
+                            </div>
+                            <div className="bg-gray-50 rounded p-2 text-xs font-mono max-h-32 overflow-y-auto">
+                                {changes.commits.map((commit) => (
+                                    <div key={commit.hash} title={commit.date}>
+                                        <span className="text-gray-400">
+                                            {commit.hash.substring(0, 7)}
+                                        </span>{" "}
+                                        {commit.subject}{" "}
+                                        <span className="text-gray-400">
+                                            ({commit.author})
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="text-sm font-medium mb-1">
+                        Changed files ({changes.files.length})
+                    </div>
+                    {changes.files.length === 0 ? (
+                        <div className="text-sm text-gray-500 italic mb-2">
+                            No changes compared to {changes.base}
+                        </div>
+                    ) : (
+                        <div className="bg-gray-50 rounded p-2 mb-2 max-h-48 overflow-y-auto">
+                            <div
+                                className={`text-xs p-1 rounded cursor-pointer hover:bg-gray-100 ${
+                                    selectedPath === null ? "bg-blue-50" : ""
+                                }`}
+                                onClick={() => setSelectedPath(null)}
+                            >
+                                All files
+                            </div>
+                            {changes.files.map((file) => (
+                                <div
+                                    key={file.path}
+                                    className={`flex items-center gap-2 text-sm font-mono p-1 rounded cursor-pointer hover:bg-gray-100 ${
+                                        selectedPath === file.path
+                                            ? "bg-blue-50 border border-blue-200"
+                                            : ""
+                                    }`}
+                                    onClick={() => setSelectedPath(file.path)}
+                                >
+                                    <span className="badge badge-ghost badge-xs w-16">
+                                        {FILE_STATUS_LABELS[file.status] ??
+                                            file.status}
+                                    </span>
+                                    <span className="text-gray-700 truncate">
+                                        {file.path}
+                                    </span>
+                                    {file.additions !== null && (
+                                        <span className="ml-auto text-xs">
+                                            <span className="text-green-600">
+                                                +{file.additions}
+                                            </span>{" "}
+                                            <span className="text-red-600">
+                                                -{file.deletions}
+                                            </span>
+                                        </span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {shownDiffs.length > 0 && (
+                        <div className="bg-white border rounded p-2 text-xs font-mono max-h-[32rem] overflow-auto">
+                            {shownDiffs.map((fileDiff) => (
+                                <div key={fileDiff.path}>
+                                    {fileDiff.lines.map((line, index) => (
+                                        <div
+                                            key={index}
+                                            className={`whitespace-pre ${getLineClassName(line)}`}
+                                        >
+                                            {line || " "}
+                                        </div>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {changes.truncated && (
+                        <div className="text-xs text-gray-500 italic mt-1">
+                            The diff is too large and was cut off
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from "react";
+import { getRunLogUrl } from "src/task-execution/task-execution-api";
+
+// Only keep the tail of very chatty runs in memory
+const MAX_OUTPUT_CHARS = 200_000;
+const RECONNECT_DELAY_MS = 2000;
+
+// Terminal launchers capture raw pane output, including colors and cursor movement
+const ANSI_ESCAPE_PATTERN =
+    /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07]*(\x07|\x1b\\)|\x1b[()][0-9A-Za-z]|\r(?!\n)/g;
+
+function stripAnsi(text: string): string {
+    return text.replace(ANSI_ESCAPE_PATTERN, "");
+}
+
+interface TaskRunConsoleProps {
+    runId: string;
+}
+
+/**
+ * Live tailing console for the output of a single run. Reconnects resume
+ * from the last received byte offset, so no output is shown twice. The
+ * server ends the stream once the run finished and all output was sent.
+ */
+export function TaskRunConsole({ runId }: TaskRunConsoleProps) {
+    const [output, setOutput] = useState("");
+    const [isConnected, setIsConnected] = useState(false);
+    const [isComplete, setIsComplete] = useState(false);
+    const offsetRef = useRef(0);
+    const outputRef = useRef<HTMLPreElement>(null);
+
+    useEffect(() => {
+        setOutput("");
+        setIsComplete(false);
+        offsetRef.current = 0;
+
+        let eventSource: EventSource | null = null;
+        let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+        let isClosed = false;
+
+        const connect = () => {
+            eventSource = new EventSource(
+                getRunLogUrl(runId, offsetRef.current),
+            );
+            eventSource.onopen = () => setIsConnected(true);
+            eventSource.onmessage = (event) => {
+                const { offset, text } = JSON.parse(event.data) as {
+                    offset: number;
+                    text: string;
+                };
+                offsetRef.current = offset;
+                setOutput((prev) =>
+                    (prev + stripAnsi(text)).slice(-MAX_OUTPUT_CHARS),
+                );
+            };
+            eventSource.addEventListener("end", () => {
+                // Closed before EventSource tries to reconnect on its own
+                isClosed = true;
+                eventSource?.close();
+                setIsConnected(false);
+                setIsComplete(true);
+            });
+            eventSource.onerror = () => {
+                setIsConnected(false);
+                // EventSource retries by itself unless the stream was rejected
+                if (
+                    eventSource?.readyState === EventSource.CLOSED &&
+                    !isClosed
+                ) {
+                    reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+                }
+            };
+        };
+
+        connect();
+
+        return () => {
+            isClosed = true;
+            clearTimeout(reconnectTimer);
+            eventSource?.close();
+        };
+    }, [runId]);
+
+    // Keep the newest output in view
+    useEffect(() => {
+        if (outputRef.current) {
+            outputRef.current.scrollTop = outputRef.current.scrollHeight;
+        }
+    }, [output]);
+
+    return (
+        <div>
+            <div className="flex items-center gap-2 mb-1 text-xs text-gray-500">
+                <span
+                    className={`badge badge-xs ${isConnected ? "badge-success" : "badge-ghost"}`}
+                />
+                <span>
+                    {isConnected
+                        ? "Live"
+                        : isComplete
+                          ? "Finished"
+                          : "Disconnected"}
+                </span>
+                <span className="font-mono ml-auto">Run {runId}</span>
+            </div>
+            <pre
+                ref={outputRef}
+                className="bg-gray-900 text-gray-100 text-xs font-mono p-3 rounded max-h-80 overflow-y-auto whitespace-pre-wrap"
+            >
+                {output || "Waiting for output..."}
+            </pre>
+        </div>
+    );
+}
@@ -0,0 +1,105 @@
+import type { TaskExecutionRun } from "src/task-execution/task-execution-run-storage";
+import { VerificationBadge } from "@/components/shared/verification-badge";
+
+interface TaskRunsProps {
+    runs: TaskExecutionRun[];
+    selectedRunId: string | null;
+    onSelectRun: (runId: string) => void;
+}
+
+function getRunOutcome(run: TaskExecutionRun): {
+    label: string;
+    className: string;
+} {
+    if (run.error) {
+        return { label: "Failed to start", className: "badge-error" };
+    }
+    if (run.cancelled) {
+        return { label: "Cancelled", className: "badge-neutral" };
+    }
+    if (!run.endedAt && !run.handle) {
+        return { label: "Queued", className: "badge-info" };
+    }
+    if (!run.endedAt) {
+        return { label: "Running", className: "badge-warning" };
+    }
+    if (run.exitCode === 0) {
+        return { label: "Succeeded", className: "badge-success" };
+    }
+    if (run.exitCode === null || run.exitCode === undefined) {
+        return { label: "Finished", className: "badge-ghost" };
+    }
+    return { label: `Failed (exit ${run.exitCode})`, className: "badge-error" };
+}
+
+function formatDuration(startedAt: string, endedAt: string): string {
+    const seconds = Math.round(
+        (new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 1000,
+    );
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * List of past executions of a task with their outcome.
+ * Selecting a run shows its output in the console.
+ */
+export function TaskRuns({ runs, selectedRunId, onSelectRun }: TaskRunsProps) {
+    if (runs.length === 0) {
+        return (
+            <div className="text-sm text-gray-500 italic">
+                This task hasn't been executed yet
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-gray-50 rounded p-3 max-h-60 overflow-y-auto">
+            <div className="grid gap-1">
+                {runs.map((run) => {
+                    const outcome = getRunOutcome(run);
+                    const isSelected = run.runId === selectedRunId;
+                    return (
+                        <div
+                            key={run.runId}
+                            className={`flex items-center gap-2 text-sm p-1 rounded ${
+                                run.error
+                                    ? ""
+                                    : "cursor-pointer hover:bg-gray-100"
+                            } ${isSelected ? "bg-blue-50 border border-blue-200" : ""}`}
+                            onClick={() => !run.error && onSelectRun(run.runId)}
+                            title={run.error || run.prompt}
+                        >
+                            <span
+                                className={`badge badge-sm ${outcome.className}`}
+                            >
+                                {outcome.label}
+                            </span>
+                            {run.verification && (
+                                <VerificationBadge
+                                    verification={run.verification}
+                                    size="sm"
+                                />
+                            )}
+                            <span className="text-gray-700">
+                                {new Date(run.startedAt).toLocaleString()}
+                            </span>
+                            {run.endedAt && (
+                                <span className="text-gray-500 text-xs">
+                                    {formatDuration(run.startedAt, run.endedAt)}
+                                </span>
+                            )}
+                            <span className="ml-auto font-mono text-xs text-gray-500">
+                                {run.agent && `${run.agent} • `}
+                                {run.launcher}
+                                {run.worktree && ` • ${run.worktree}`}
+                            </span>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -9,7 +9,18 @@
  *       "title": string,
  *       "description": string,  // Detailed description of the product
  *       "tasks": string[],       // Array of UUIDs of tasks associated with this product
- *       "parent": string         // UUID of the parent product (optional)
+ *       "parent": string,        // UUID of the parent product (optional)
+ *       "workingDirectory": string, // Relative path to the working directory (optional)
+ *       "promptTemplateId": string, // UUID of the prompt template used to execute tasks (optional)
+ *       "agentId": string,          // UUID of the agent CLI used to execute tasks (optional)
+ *       "async": boolean,           // Whether tasks run in a worktree by default (optional)
+ *       "defaultContext": string[], // Context of tasks without files of their own (optional)
+ *       "baseBranch": string,       // Branch task worktrees are merged into (optional)
+ *       "mergeMode": string,        // "merge", "squash" or "rebase" (optional)
+ *       "verificationCommands": string[], // Command lines that verify a run, e.g. "bun test" (optional)
+ *       "contextPresets": [         // Named context lists for tasks (optional)
+ *         { "id": string, "name": string, "paths": string[] }
+ *       ]
  *     },
  *     ...
  *   }
@@ -43,6 +54,18 @@
  * - "tasks" is an array of UUIDs of tasks associated with this product.
  * - "parent" is the UUID of the parent product (optional for root products).
  * - "workingDirectory" is a relative path to the working directory for this product (optional).
+ * - "promptTemplateId" is the prompt template for tasks of this product and its sub-products (optional).
+ * - "agentId" is the agent CLI for tasks of this product and its sub-products (optional).
+ * - "async" and "defaultContext" are defaults for tasks of this product and its sub-products,
+ *   a task's own choice wins (optional, the nearest product that sets them wins).
+ * - "baseBranch" and "mergeMode" decide how task worktrees of this product and its sub-products
+ *   are merged locally (optional, the nearest product that sets them wins).
+ * - "verificationCommands" run one after the other in the working directory or worktree once the
+ *   agent exited successfully (optional, the nearest product that has them wins). Each line is
+ *   split into arguments at whitespace and quotes, there is no shell.
+ * - "contextPresets" can be picked by tasks of this product and its sub-products instead of
+ *   listing the same paths again. Tasks store the preset ids and the paths are looked up when
+ *   the task is executed, so changing a preset changes it for every task (optional).
  * - The file may contain additional fields in the future, but these are the primary structures.
  */
 
@@ -50,8 +73,9 @@ import {
     readFile,
     writeFile,
     DataFileName,
-} from "src/persistence/file-system-handles";
-import type { Product } from "./types";
+} from "src/persistence/storage-backend";
+import type { ContextPreset, Product } from "./types";
+import type { MergeMode } from "src/task-execution/worktrees/types";
 
 export async function loadProducts(): Promise<Product[]> {
     const text = await readFile(DataFileName.PRODUCT);
@@ -68,6 +92,14 @@ export async function loadProducts(): Promise<Product[]> {
                 tasks: string[];
                 parent?: string;
                 workingDirectory?: string;
+                promptTemplateId?: string;
+                agentId?: string;
+                async?: boolean;
+                defaultContext?: string[];
+                baseBranch?: string;
+                mergeMode?: MergeMode;
+                verificationCommands?: string[];
+                contextPresets?: ContextPreset[];
             };
             return {
                 uuid,
@@ -76,6 +108,14 @@ export async function loadProducts(): Promise<Product[]> {
                 tasks: product.tasks || [],
                 parent: product.parent,
                 workingDirectory: product.workingDirectory,
+                promptTemplateId: product.promptTemplateId,
+                agentId: product.agentId,
+                async: product.async,
+                defaultContext: product.defaultContext,
+                baseBranch: product.baseBranch,
+                mergeMode: product.mergeMode,
+                verificationCommands: product.verificationCommands,
+                contextPresets: product.contextPresets,
             };
         });
         console.log(`[product-file-storage] loadProducts: Loaded ${products.length} products`);
@@ -91,7 +131,7 @@ export async function addProduct(product: Product): Promise<void> {
 }
 
 export async function storeProducts(products: Product[]): Promise<void> {
-    // Serialize products with title, description, tasks, parent, and workingDirectory
+    // Serialize products with title, description, tasks, parent, workingDirectory, promptTemplateId, agentId, execution defaults, merge settings, verification commands and context presets
     const productsObj = products.reduce(
         (acc, p) => {
             acc[p.uuid] = {
@@ -102,6 +142,22 @@ export async function storeProducts(products: Product[]): Promise<void> {
                 ...(p.workingDirectory && {
                     workingDirectory: p.workingDirectory,
                 }),
+                ...(p.promptTemplateId && {
+                    promptTemplateId: p.promptTemplateId,
+                }),
+                ...(p.agentId && { agentId: p.agentId }),
+                ...(p.async !== undefined && { async: p.async }),
+                ...(p.defaultContext?.length && {
+                    defaultContext: p.defaultContext,
+                }),
+                ...(p.baseBranch && { baseBranch: p.baseBranch }),
+                ...(p.mergeMode && { mergeMode: p.mergeMode }),
+                ...(p.verificationCommands?.length && {
+                    verificationCommands: p.verificationCommands,
+                }),
+                ...(p.contextPresets?.length && {
+                    contextPresets: p.contextPresets,
+                }),
             };
             return acc;
         },
@@ -113,6 +169,14 @@ export async function storeProducts(products: Product[]): Promise<void> {
                 tasks: string[];
                 parent?: string;
                 workingDirectory?: string;
+                promptTemplateId?: string;
+                agentId?: string;
+                async?: boolean;
+                defaultContext?: string[];
+                baseBranch?: string;
+                mergeMode?: MergeMode;
+                verificationCommands?: string[];
+                contextPresets?: ContextPreset[];
             }
         >,
     );
@@ -1,5 +1,5 @@
 import type { Product } from "./types";
-import { loadProducts } from "./product-file-storage";
+import { loadProducts, storeProducts } from "./product-file-storage";
 
 /**
  * Fetch the Product that a given task is associated with.
@@ -53,3 +53,26 @@ export async function getProductHierarchyForTask(
 
     return hierarchy;
 }
+
+/**
+ * Move a task to another product, or out of its product.
+ * @param taskUuid - The UUID of the task
+ * @param productUuid - The UUID of the new product, null to remove the task from its product
+ */
+export async function setProductOfTask(
+    taskUuid: string,
+    productUuid: string | null,
+): Promise<void> {
+    const products = await loadProducts();
+    if (productUuid && !products.some((p) => p.uuid === productUuid)) {
+        throw new Error(`Product with uuid ${productUuid} not found`);
+    }
+
+    for (const product of products) {
+        product.tasks = product.tasks.filter((taskId) => taskId !== taskUuid);
+        if (product.uuid === productUuid) {
+            product.tasks.push(taskUuid);
+        }
+    }
+    await storeProducts(products);
+}
@@ -1,3 +1,11 @@
+import type { MergeMode } from "src/task-execution/worktrees/types";
+
+export interface ContextPreset {
+    id: string;
+    name: string; // e.g. "API layer"
+    paths: string[]; // Files and folders relative to the working directory
+}
+
 export interface Product {
     uuid: string;
     title: string;
@@ -5,4 +13,12 @@ export interface Product {
     tasks: string[]; // Array of UUIDs of tasks associated with this product
     parent?: string; // UUID of the parent product (optional for root products)
     workingDirectory?: string; // Relative path to the working directory for this product
+    promptTemplateId?: string; // UUID of the prompt template for tasks of this product and its sub-products
+    agentId?: string; // UUID of the agent CLI for tasks of this product and its sub-products
+    async?: boolean; // Whether tasks run in a worktree unless they pick for themselves
+    defaultContext?: string[]; // Context of tasks that don't list any files of their own
+    baseBranch?: string; // Branch worktrees of its tasks are merged into, defaults to the checked out branch
+    mergeMode?: MergeMode; // How worktree branches are merged for this product and its sub-products
+    verificationCommands?: string[]; // Command lines run without a shell in the worktree after the agent exits, e.g. tests, lint, build
+    contextPresets?: ContextPreset[]; // Named context lists tasks of this product and its sub-products can use
 }
@@ -9,7 +9,10 @@
  *       "uuid": string,
  *       "title": string,
  *       "description": string,    // Detailed description of the task
- *       "status": TaskStatus      // Current status of the task
+ *       "status": TaskStatus,     // Current status of the task
+ *       "notes": [                // Remarks added while working on the task (optional)
+ *         { "createdAt": string, "text": string }
+ *       ]
  *     },
  *     ...
  *   ]
@@ -39,13 +42,14 @@
  * - Each task has "uuid", "title", "description", and "status" properties.
  * - "title" is a short name for the task.
  * - "description" is a detailed description of the task.
+ * - "notes" is only stored when a task has at least one note.
  */
 
 import {
     readFile,
     writeFile,
     DataFileName,
-} from "src/persistence/file-system-handles";
+} from "src/persistence/storage-backend";
 import type { Task } from "./types";
 import { triggerTaskCreateCallbacks } from "./task-hooks";
 
@@ -63,6 +67,7 @@ export async function loadTasks(): Promise<Task[]> {
             title: task.title,
             description: task.description || "",
             status: task.status || "Triage",
+            ...(Array.isArray(task.notes) && { notes: task.notes }),
         }));
         console.log(`[task-file-storage] loadTasks: Loaded ${tasks.length} tasks`);
         return tasks;
@@ -83,6 +88,7 @@ export async function storeTasks(tasks: Task[]): Promise<void> {
         title: t.title,
         description: t.description,
         status: t.status,
+        ...(t.notes?.length && { notes: t.notes }),
     }));
 
     console.log(`[task-file-storage] storeTasks: Saving ${tasks.length} tasks`);
@@ -2,7 +2,7 @@ import {
     readFile,
     writeFile,
     DataFileName,
-} from "src/persistence/file-system-handles";
+} from "src/persistence/storage-backend";
 
 export interface InboxTask {
     title: string;
@@ -5,9 +5,23 @@ export type TaskStatus =
     | "In Review"
     | "Done";
 
+export const TASK_STATUSES: TaskStatus[] = [
+    "Triage",
+    "Ready",
+    "In Progress",
+    "In Review",
+    "Done",
+];
+
+export interface TaskNote {
+    createdAt: string; // ISO timestamp
+    text: string;
+}
+
 export interface Task {
     uuid: string;
     title: string;
     description: string;
     status: TaskStatus;
+    notes?: TaskNote[]; // Remarks added while working on the task, oldest first
 }
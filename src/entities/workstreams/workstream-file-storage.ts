@@ -55,7 +55,7 @@ import {
     readFile,
     writeFile,
     DataFileName,
-} from "src/persistence/file-system-handles";
+} from "src/persistence/storage-backend";
 import type { Workstream, WorkstreamDependency } from "./types";
 import { triggerWorkstreamCreateCallbacks } from "./workstream-hooks";
 
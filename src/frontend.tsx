@@ -10,6 +10,39 @@ import { App } from "./App";
 import { registerWorktreeCleanupCallback } from "./task-execution/task-execution-service";
 import { registerWorkstreamTaskCleanupCallback } from "./entities/workstreams/workstream-hooks";
 import { registerGlobalOrderHooks } from "./high-level-planning/global-order-hooks";
+import { registerRunLifecycleListener } from "./task-execution/task-execution-run-service";
+import { migrateWorktreeIdentities } from "./task-execution/worktree-service";
+import { registerAutopilotHooks } from "./autopilot/autopilot-hooks";
+import { CONFIG } from "./config";
+import { setStorageBackend } from "./persistence/storage-backend";
+import {
+    createFileSystemAccessBackend,
+    isFileSystemAccessSupported,
+} from "./persistence/file-system-access-backend";
+import { createHttpBackend } from "./persistence/http-backend";
+import { getExecutionServerToken } from "./task-execution/execution-server-token";
+import { createMemoryBackend } from "./persistence/memory-backend";
+
+function createStorageBackend() {
+    if (CONFIG.STORAGE_BACKEND === "memory") {
+        return createMemoryBackend();
+    }
+    if (CONFIG.STORAGE_BACKEND === "file-system-access") {
+        if (isFileSystemAccessSupported()) {
+            return createFileSystemAccessBackend();
+        }
+        console.log(
+            "File System Access API not supported, keeping data on the execution server",
+        );
+    }
+    return createHttpBackend(
+        CONFIG.TASK_EXECUTION_SERVER_URL,
+        getExecutionServerToken,
+    );
+}
+
+// Select where data is kept before anything loads it
+setStorageBackend(createStorageBackend());
 
 // Register task status change callbacks
 registerWorktreeCleanupCallback();
@@ -20,6 +53,18 @@ registerWorkstreamTaskCleanupCallback();
 // Register global order update hooks
 registerGlobalOrderHooks();
 
+// Move tasks along when their agent runs finish
+registerRunLifecycleListener();
+
+// Execute the next tasks of workstreams on autopilot
+registerAutopilotHooks();
+
+// Record worktrees of tasks that ran before their names were stored, so
+// their next runs keep using them
+migrateWorktreeIdentities().catch((error) =>
+    console.error("Failed to migrate worktrees:", error),
+);
+
 function start() {
     const root = createRoot(document.getElementById("root")!);
     root.render(<App />);
@@ -4,12 +4,16 @@ import type { TaskStatus } from "src/entities/tasks/types";
 import { getStatusColors } from "./status-colors";
 import { getProductByTaskUuid } from "src/entities/products/product-service";
 import { getTaskExecutionContext } from "src/task-execution/task-execution-context-storage";
+import type { RunVerification } from "src/task-execution/task-execution-api";
+import { useRunQueue } from "src/queue/use-run-queue";
+import { VerificationBadge } from "@/components/shared/verification-badge";
 
 export interface TaskNodeData {
     label: string;
     taskId: string;
     status?: TaskStatus;
     workstreamId?: string;
+    verification?: RunVerification; // Of the task's latest run, loaded once for the whole graph
     onAsyncToggle: (taskId: string, newValue: boolean) => void;
 }
 
@@ -17,19 +21,24 @@ export function TaskNode({ data }: { data: TaskNodeData }) {
     const [productTitle, setProductTitle] = useState<string | undefined>();
     const [workingDirectory, setWorkingDirectory] = useState<string | undefined>();
     const [async, setAsync] = useState<boolean>(false);
+    const { queue } = useRunQueue();
+    const queuePosition = queue
+        ? queue.queued.findIndex((run) => run.taskId === data.taskId)
+        : -1;
 
     useEffect(() => {
         getProductByTaskUuid(data.taskId).then((product) => {
             if (product) {
                 setProductTitle(product.title);
-                setWorkingDirectory(product.workingDirectory);
             }
         });
     }, [data.taskId]);
 
     useEffect(() => {
         getTaskExecutionContext(data.taskId).then((context) => {
+            // Both may be inherited from a product further up
             if (context) {
+                setWorkingDirectory(context.workingDirectory);
                 setAsync(context.async);
             }
         });
@@ -104,6 +113,17 @@ export function TaskNode({ data }: { data: TaskNodeData }) {
                     title="Run in worktree (async)"
                 />
                 <span className="text-[10px] opacity-70">async</span>
+                {queuePosition !== -1 && (
+                    <span
+                        className="badge badge-info badge-xs"
+                        title={`Waiting for a free slot, #${queuePosition + 1} in the queue`}
+                    >
+                        queued
+                    </span>
+                )}
+                {data.verification && (
+                    <VerificationBadge verification={data.verification} />
+                )}
             </div>
             <Handle
                 type="source"
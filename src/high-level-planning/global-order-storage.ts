@@ -21,7 +21,7 @@ import {
     readFile,
     writeFile,
     DataFileName,
-} from "src/persistence/file-system-handles";
+} from "src/persistence/storage-backend";
 
 export type OrderItemType = "task" | "workstream";
 
@@ -41,6 +41,8 @@ import {
     setTaskExecutionContext,
 } from "src/task-execution/task-execution-context-storage";
 import { executeTask } from "src/task-execution/task-execution-logic";
+import { loadTaskExecutionRuns } from "src/task-execution/task-execution-run-storage";
+import type { RunVerification } from "src/task-execution/task-execution-api";
 import { TaskNode, type TaskNodeData } from "./dag-task-card";
 import { TaskSearchBar } from "./task-search-bar";
 import {
@@ -123,6 +125,9 @@ export default function TaskDAGFlow({
     const navigate = useNavigate();
     const [workstreams, setWorkstreams] = useState<Workstream[]>([]);
     const [globalOrder, setGlobalOrder] = useState<OrderItem[]>([]);
+    const [verifications, setVerifications] = useState<
+        Map<string, RunVerification>
+    >(new Map());
     const [connectionInProgress, setConnectionInProgress] = useState(false);
     const [contextMenu, setContextMenu] = useState<{
         show: boolean;
@@ -514,6 +519,33 @@ export default function TaskDAGFlow({
         initializeData();
     }, [tasks]);
 
+    // Runs complete with a status change, so reload the latest verifications
+    // then, once for all cards
+    useEffect(() => {
+        loadTaskExecutionRuns()
+            .then((runs) => {
+                const latestRuns = new Map<string, (typeof runs)[number]>();
+                for (const run of runs) {
+                    const latest = latestRuns.get(run.taskId);
+                    if (!latest || run.startedAt > latest.startedAt) {
+                        latestRuns.set(run.taskId, run);
+                    }
+                }
+                setVerifications(
+                    new Map(
+                        [...latestRuns].flatMap(([taskId, run]) =>
+                            run.verification
+                                ? [[taskId, run.verification]]
+                                : []
+                        )
+                    )
+                );
+            })
+            .catch((error) => {
+                console.error("Failed to load run verifications:", error);
+            });
+    }, [tasks]);
+
     // Update nodes and edges when tasks or workstreams change
     useEffect(() => {
         convertTasksToDAG(
@@ -525,6 +557,13 @@ export default function TaskDAGFlow({
             // Apply highlighting to matched node
             const nodesWithHighlight = newNodes.map((node) => ({
                 ...node,
+                data:
+                    node.type === "taskNode"
+                        ? {
+                              ...node.data,
+                              verification: verifications.get(node.id),
+                          }
+                        : node.data,
                 style: {
                     ...node.style,
                     ...(node.id === highlightedNodeId
@@ -551,6 +590,7 @@ export default function TaskDAGFlow({
         tasks,
         workstreams,
         globalOrder,
+        verifications,
         highlightedNodeId,
         setNodes,
         setEdges,
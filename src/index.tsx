@@ -2,6 +2,59 @@ import { serve } from "bun";
 import index from "./index.html";
 import { startScriptHandler } from "./task-execution/handlers/start-script";
 import { deleteWorktreeHandler } from "./task-execution/handlers/delete-worktree";
+import { listRunsHandler } from "./task-execution/handlers/list-runs";
+import { streamRunLogHandler } from "./task-execution/handlers/stream-run-log";
+import { cancelRunHandler } from "./task-execution/handlers/cancel-run";
+import { restartRunHandler } from "./task-execution/handlers/restart-run";
+import { streamRunEventsHandler } from "./task-execution/handlers/stream-run-events";
+import { getQueueHandler } from "./task-execution/handlers/get-queue";
+import { listWorktreesHandler } from "./task-execution/handlers/list-worktrees";
+import { getWorktreeChangesHandler } from "./task-execution/handlers/get-worktree-changes";
+import { mergeWorktreeHandler } from "./task-execution/handlers/merge-worktree";
+import { listFilesHandler } from "./task-execution/handlers/list-files";
+import { getFilePreviewHandler } from "./task-execution/handlers/get-file-preview";
+import { getContextStatsHandler } from "./task-execution/handlers/get-context-stats";
+import { suggestContextHandler } from "./task-execution/handlers/suggest-context";
+import { preflightHandler, withAuth } from "./task-execution/auth";
+import { initDataApi, withDataApi } from "./api/data-api";
+import {
+    listTasksHandler,
+    createTaskHandler,
+    getTaskHandler,
+    updateTaskHandler,
+    deleteTaskHandler,
+} from "./api/handlers/tasks";
+import {
+    listProductsHandler,
+    createProductHandler,
+    getProductHandler,
+    updateProductHandler,
+    deleteProductHandler,
+} from "./api/handlers/products";
+import {
+    listWorkstreamsHandler,
+    createWorkstreamHandler,
+    getWorkstreamHandler,
+    updateWorkstreamHandler,
+    deleteWorkstreamHandler,
+    addWorkstreamTaskHandler,
+    removeWorkstreamTaskHandler,
+    addDependencyHandler,
+    removeDependencyHandler,
+} from "./api/handlers/workstreams";
+import {
+    listInboxHandler,
+    addInboxHandler,
+    removeInboxHandler,
+    convertInboxHandler,
+} from "./api/handlers/inbox";
+import {
+    getGlobalOrderHandler,
+    updateGlobalOrderHandler,
+} from "./api/handlers/global-order";
+import { getDataFileHandler, putDataFileHandler } from "./api/handlers/data-files";
+
+const dataDirectory = initDataApi();
 
 const server = serve({
     routes: {
@@ -30,18 +83,269 @@ const server = serve({
             });
         },
 
-        // Task execution endpoints
+        // Planning data endpoints, these require a token and SOLTRA_DATA_DIR (see api/data-api.ts)
+        "/api/tasks": {
+            GET: withAuth(withDataApi(listTasksHandler)),
+            POST: withAuth(withDataApi(createTaskHandler)),
+            OPTIONS: preflightHandler,
+        },
+
+        "/api/tasks/:id": {
+            GET: withAuth(
+                withDataApi(async (req) => {
+                    return await getTaskHandler(req, req.params.id);
+                }),
+            ),
+            PATCH: withAuth(
+                withDataApi(async (req) => {
+                    return await updateTaskHandler(req, req.params.id);
+                }),
+            ),
+            DELETE: withAuth(
+                withDataApi(async (req) => {
+                    return await deleteTaskHandler(req, req.params.id);
+                }),
+            ),
+            OPTIONS: preflightHandler,
+        },
+
+        "/api/products": {
+            GET: withAuth(withDataApi(listProductsHandler)),
+            POST: withAuth(withDataApi(createProductHandler)),
+            OPTIONS: preflightHandler,
+        },
+
+        "/api/products/:id": {
+            GET: withAuth(
+                withDataApi(async (req) => {
+                    return await getProductHandler(req, req.params.id);
+                }),
+            ),
+            PATCH: withAuth(
+                withDataApi(async (req) => {
+                    return await updateProductHandler(req, req.params.id);
+                }),
+            ),
+            DELETE: withAuth(
+                withDataApi(async (req) => {
+                    return await deleteProductHandler(req, req.params.id);
+                }),
+            ),
+            OPTIONS: preflightHandler,
+        },
+
+        "/api/workstreams": {
+            GET: withAuth(withDataApi(listWorkstreamsHandler)),
+            POST: withAuth(withDataApi(createWorkstreamHandler)),
+            OPTIONS: preflightHandler,
+        },
+
+        "/api/workstreams/:id": {
+            GET: withAuth(
+                withDataApi(async (req) => {
+                    return await getWorkstreamHandler(req, req.params.id);
+                }),
+            ),
+            PATCH: withAuth(
+                withDataApi(async (req) => {
+                    return await updateWorkstreamHandler(req, req.params.id);
+                }),
+            ),
+            DELETE: withAuth(
+                withDataApi(async (req) => {
+                    return await deleteWorkstreamHandler(req, req.params.id);
+                }),
+            ),
+            OPTIONS: preflightHandler,
+        },
+
+        "/api/workstreams/:id/tasks": {
+            POST: withAuth(
+                withDataApi(async (req) => {
+                    return await addWorkstreamTaskHandler(req, req.params.id);
+                }),
+            ),
+            OPTIONS: preflightHandler,
+        },
+
+        "/api/workstreams/:id/tasks/:taskId": {
+            DELETE: withAuth(
+                withDataApi(async (req) => {
+                    return await removeWorkstreamTaskHandler(
+                        req,
+                        req.params.id,
+                        req.params.taskId,
+                    );
+                }),
+            ),
+            OPTIONS: preflightHandler,
+        },
+
+        "/api/workstreams/:id/dependencies": {
+            POST: withAuth(
+                withDataApi(async (req) => {
+                    return await addDependencyHandler(req, req.params.id);
+                }),
+            ),
+            DELETE: withAuth(
+                withDataApi(async (req) => {
+                    return await removeDependencyHandler(req, req.params.id);
+                }),
+            ),
+            OPTIONS: preflightHandler,
+        },
+
+        "/api/inbox": {
+            GET: withAuth(withDataApi(listInboxHandler)),
+            POST: withAuth(withDataApi(addInboxHandler)),
+            OPTIONS: preflightHandler,
+        },
+
+        "/api/inbox/:title": {
+            DELETE: withAuth(
+                withDataApi(async (req) => {
+                    return await removeInboxHandler(
+                        req,
+                        decodeURIComponent(req.params.title),
+                    );
+                }),
+            ),
+            OPTIONS: preflightHandler,
+        },
+
+        "/api/inbox/:title/convert": {
+            POST: withAuth(
+                withDataApi(async (req) => {
+                    return await convertInboxHandler(
+                        req,
+                        decodeURIComponent(req.params.title),
+                    );
+                }),
+            ),
+            OPTIONS: preflightHandler,
+        },
+
+        "/api/global-order": {
+            GET: withAuth(withDataApi(getGlobalOrderHandler)),
+            PUT: withAuth(withDataApi(updateGlobalOrderHandler)),
+            OPTIONS: preflightHandler,
+        },
+
+        // Raw data files, for the UI's HTTP storage backend
+        "/api/data/:fileName": {
+            GET: withAuth(withDataApi(getDataFileHandler)),
+            PUT: withAuth(withDataApi(putDataFileHandler)),
+            OPTIONS: preflightHandler,
+        },
+
+        // Task execution endpoints, these require a token (see task-execution/auth.ts)
         "/start-script": {
-            async POST(req) {
+            POST: withAuth(async (req) => {
                 return await startScriptHandler(req);
-            },
+            }),
+            OPTIONS: preflightHandler,
+        },
+
+        "/worktrees": {
+            GET: withAuth(async () => {
+                return await listWorktreesHandler();
+            }),
+            OPTIONS: preflightHandler,
         },
 
         "/worktree/:worktree": {
-            async DELETE(req) {
+            DELETE: withAuth(async (req) => {
                 const worktree = req.params.worktree;
                 return await deleteWorktreeHandler(req, worktree);
-            },
+            }),
+            OPTIONS: preflightHandler,
+        },
+
+        "/worktree/:worktree/changes": {
+            GET: withAuth(async (req) => {
+                return await getWorktreeChangesHandler(
+                    req,
+                    req.params.worktree,
+                );
+            }),
+            OPTIONS: preflightHandler,
+        },
+
+        "/worktree/:worktree/merge": {
+            POST: withAuth(async (req) => {
+                return await mergeWorktreeHandler(req, req.params.worktree);
+            }),
+            OPTIONS: preflightHandler,
+        },
+
+        "/files": {
+            GET: withAuth(async (req) => {
+                return await listFilesHandler(req);
+            }),
+            OPTIONS: preflightHandler,
+        },
+
+        "/files/stats": {
+            POST: withAuth(async (req) => {
+                return await getContextStatsHandler(req);
+            }),
+            OPTIONS: preflightHandler,
+        },
+
+        "/files/suggestions": {
+            POST: withAuth(async (req) => {
+                return await suggestContextHandler(req);
+            }),
+            OPTIONS: preflightHandler,
+        },
+
+        "/file": {
+            GET: withAuth(async (req) => {
+                return await getFilePreviewHandler(req);
+            }),
+            OPTIONS: preflightHandler,
+        },
+
+        "/runs": {
+            GET: withAuth(async (req) => {
+                return await listRunsHandler(req);
+            }),
+            OPTIONS: preflightHandler,
+        },
+
+        "/queue": {
+            GET: withAuth(async () => {
+                return await getQueueHandler();
+            }),
+            OPTIONS: preflightHandler,
+        },
+
+        "/events": {
+            GET: withAuth(async (req) => {
+                return await streamRunEventsHandler(req);
+            }, { allowQueryToken: true }),
+            OPTIONS: preflightHandler,
+        },
+
+        "/runs/:id/log": {
+            GET: withAuth(async (req) => {
+                return await streamRunLogHandler(req, req.params.id);
+            }, { allowQueryToken: true }),
+            OPTIONS: preflightHandler,
+        },
+
+        "/runs/:id/cancel": {
+            POST: withAuth(async (req) => {
+                return await cancelRunHandler(req, req.params.id);
+            }),
+            OPTIONS: preflightHandler,
+        },
+
+        "/runs/:id/restart": {
+            POST: withAuth(async (req) => {
+                return await restartRunHandler(req, req.params.id);
+            }),
+            OPTIONS: preflightHandler,
         },
     },
 
@@ -55,3 +359,6 @@ const server = serve({
 });
 
 console.log(`🚀 Server running at ${server.url}`);
+if (dataDirectory) {
+    console.log(`📂 Planning data API using ${dataDirectory}`);
+}
@@ -0,0 +1,201 @@
+/**
+ * Model Context Protocol over stdio
+ *
+ * Just enough of MCP for a server that offers tools: JSON-RPC 2.0 messages,
+ * one per line on stdin and stdout, answering initialize, ping, tools/list
+ * and tools/call. Requests are handled one at a time in the order they
+ * arrive. Anything the server logs must go to stderr, stdout carries the
+ * protocol.
+ *
+ * https://modelcontextprotocol.io/specification
+ */
+
+export interface McpTool {
+    name: string;
+    description: string;
+    inputSchema: {
+        type: "object";
+        properties: Record<string, unknown>;
+        required?: string[];
+    };
+    /**
+     * Run the tool. The result is sent to the client as JSON text, a thrown
+     * error as a tool error the model can read and react to.
+     */
+    call(args: Record<string, unknown>): Promise<unknown>;
+}
+
+export interface McpServerInfo {
+    name: string;
+    version: string;
+}
+
+interface JsonRpcMessage {
+    jsonrpc: "2.0";
+    id?: string | number | null;
+    method?: string;
+    params?: Record<string, unknown>;
+}
+
+// Newest first, clients asking for another version get the newest
+const PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+class JsonRpcError extends Error {
+    constructor(
+        public code: number,
+        message: string,
+    ) {
+        super(message);
+    }
+}
+
+function send(message: Record<string, unknown>): void {
+    process.stdout.write(`${JSON.stringify({ jsonrpc: "2.0", ...message })}\n`);
+}
+
+async function callTool(
+    tools: McpTool[],
+    params: Record<string, unknown> | undefined,
+): Promise<Record<string, unknown>> {
+    const tool = tools.find((t) => t.name === params?.name);
+    if (!tool) {
+        throw new JsonRpcError(
+            INVALID_PARAMS,
+            `Unknown tool: ${String(params?.name)}`,
+        );
+    }
+
+    const args = params?.arguments ?? {};
+    if (typeof args !== "object" || Array.isArray(args)) {
+        throw new JsonRpcError(
+            INVALID_PARAMS,
+            "Tool arguments must be an object",
+        );
+    }
+
+    try {
+        const result = await tool.call(args as Record<string, unknown>);
+        return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+    } catch (error) {
+        return {
+            content: [
+                {
+                    type: "text",
+                    text:
+                        error instanceof Error ? error.message : String(error),
+                },
+            ],
+            isError: true,
+        };
+    }
+}
+
+async function handleRequest(
+    message: JsonRpcMessage,
+    tools: McpTool[],
+    serverInfo: McpServerInfo,
+): Promise<unknown> {
+    switch (message.method) {
+        case "initialize": {
+            const requested = message.params?.protocolVersion;
+            return {
+                protocolVersion:
+                    PROTOCOL_VERSIONS.find((v) => v === requested) ??
+                    PROTOCOL_VERSIONS[0],
+                capabilities: { tools: {} },
+                serverInfo,
+            };
+        }
+        case "ping":
+            return {};
+        case "tools/list":
+            return {
+                tools: tools.map(({ name, description, inputSchema }) => ({
+                    name,
+                    description,
+                    inputSchema,
+                })),
+            };
+        case "tools/call":
+            return await callTool(tools, message.params);
+        default:
+            throw new JsonRpcError(
+                METHOD_NOT_FOUND,
+                `Method not found: ${message.method}`,
+            );
+    }
+}
+
+async function handleLine(
+    line: string,
+    tools: McpTool[],
+    serverInfo: McpServerInfo,
+): Promise<void> {
+    let message: JsonRpcMessage;
+    try {
+        message = JSON.parse(line);
+    } catch {
+        send({
+            id: null,
+            error: { code: PARSE_ERROR, message: "Parse error" },
+        });
+        return;
+    }
+
+    if (typeof message?.method !== "string") {
+        // Responses carry no method, and we never send requests they could answer
+        const isResponse =
+            message &&
+            typeof message === "object" &&
+            ("result" in message || "error" in message);
+        if (!isResponse) {
+            send({
+                id: message?.id ?? null,
+                error: { code: INVALID_REQUEST, message: "Invalid request" },
+            });
+        }
+        return;
+    }
+
+    // Notifications, like notifications/initialized, get no answer
+    if (message.id === undefined) {
+        return;
+    }
+
+    try {
+        const result = await handleRequest(message, tools, serverInfo);
+        send({ id: message.id, result });
+    } catch (error) {
+        send({
+            id: message.id,
+            error: {
+                code:
+                    error instanceof JsonRpcError ? error.code : INTERNAL_ERROR,
+                message: error instanceof Error ? error.message : String(error),
+            },
+        });
+    }
+}
+
+/**
+ * Serve the tools on stdin and stdout until stdin is closed.
+ */
+export async function serveMcpStdio(
+    tools: McpTool[],
+    serverInfo: McpServerInfo,
+): Promise<void> {
+    // Bun reads stdin line by line through console
+    for await (const line of console) {
+        if (line.trim()) {
+            await handleLine(line, tools, serverInfo);
+        }
+    }
+}
@@ -0,0 +1,42 @@
+#!/usr/bin/env bun
+/**
+ * Soltra MCP Server
+ *
+ * Model Context Protocol server on stdio that lets coding agents read and
+ * update their own task: get it, change its status, add notes, create
+ * follow-up tasks, add dependencies and look at the other tasks of its
+ * workstream. It uses the same services as the UI, with the data files in
+ * the directory given by SOLTRA_DATA_DIR.
+ *
+ * Agents started by the execution server get the uuid of their task in
+ * SOLTRA_TASK_ID, which the MCP server they start inherits, so the tools
+ * work on that task unless a call names another one.
+ *
+ * Register it with the agent, e.g. for Claude:
+ *   claude mcp add soltra -e SOLTRA_DATA_DIR=/path/to/data -- bun /path/to/src/mcp/soltra-mcp.ts
+ */
+
+import { setStorageBackend } from "src/persistence/storage-backend";
+import { createDataDirectoryBackend } from "src/persistence/data-directory-backend";
+import { registerWorkstreamTaskCleanupCallback } from "src/entities/workstreams/workstream-hooks";
+import { registerGlobalOrderHooks } from "src/high-level-planning/global-order-hooks";
+import { serveMcpStdio } from "./mcp-server";
+import { createTaskTools } from "./task-tools";
+
+// stdout carries the protocol, so the storage modules log to stderr
+console.log = console.error;
+
+const dataDirectory = process.env.SOLTRA_DATA_DIR;
+if (!dataDirectory) {
+    console.error("soltra-mcp: No data directory, set SOLTRA_DATA_DIR");
+    process.exit(1);
+}
+
+setStorageBackend(createDataDirectoryBackend(dataDirectory));
+registerWorkstreamTaskCleanupCallback();
+registerGlobalOrderHooks();
+
+await serveMcpStdio(createTaskTools(process.env.SOLTRA_TASK_ID || undefined), {
+    name: "soltra",
+    version: "0.1.0",
+});
@@ -0,0 +1,302 @@
+import { loadTasks } from "src/entities/tasks/task-file-storage";
+import { createTask, updateTask } from "src/entities/tasks/task-service";
+import {
+    TASK_STATUSES,
+    type Task,
+    type TaskStatus,
+} from "src/entities/tasks/types";
+import {
+    getProductByTaskUuid,
+    setProductOfTask,
+} from "src/entities/products/product-service";
+import { loadWorkstreams } from "src/entities/workstreams/workstream-file-storage";
+import { wouldCreateCycle } from "src/entities/workstreams/workstream-service";
+import { connectTasks } from "src/entities/workstreams/workstream-task-service";
+import type { DependencyType } from "src/entities/workstreams/types";
+import type { McpTool } from "./mcp-server";
+
+const DEPENDENCY_TYPES: DependencyType[] = ["blocks", "related"];
+
+const TASK_ID_PROPERTY = {
+    type: "string",
+    description: "UUID of the task, defaults to the task you were started for",
+};
+
+function optionalString(
+    args: Record<string, unknown>,
+    name: string,
+): string | undefined {
+    const value = args[name];
+    if (value === undefined) {
+        return undefined;
+    }
+    if (typeof value !== "string") {
+        throw new Error(`${name} must be a string`);
+    }
+    return value;
+}
+
+function requiredString(args: Record<string, unknown>, name: string): string {
+    const value = optionalString(args, name)?.trim();
+    if (!value) {
+        throw new Error(`${name} is required`);
+    }
+    return value;
+}
+
+/**
+ * The task named by the taskId argument, else the one the agent was
+ * started for.
+ */
+async function findTask(
+    args: Record<string, unknown>,
+    defaultTaskId: string | undefined,
+): Promise<Task> {
+    const taskId = optionalString(args, "taskId") ?? defaultTaskId;
+    if (!taskId) {
+        throw new Error(
+            "taskId is required, no task was given to this server by SOLTRA_TASK_ID",
+        );
+    }
+    return await findTaskById(taskId);
+}
+
+async function findTaskById(taskId: string): Promise<Task> {
+    const task = (await loadTasks()).find((t) => t.uuid === taskId);
+    if (!task) {
+        throw new Error(`No task with id ${taskId}`);
+    }
+    return task;
+}
+
+/**
+ * A task with its product, workstream and the tasks it blocks or is blocked by.
+ */
+async function describeTask(task: Task) {
+    const [tasks, workstreams, product] = await Promise.all([
+        loadTasks(),
+        loadWorkstreams(),
+        getProductByTaskUuid(task.uuid),
+    ]);
+    const workstream = workstreams.find((ws) => ws.tasks.includes(task.uuid));
+    const summary = (uuid: string) => {
+        const other = tasks.find((t) => t.uuid === uuid);
+        return {
+            uuid,
+            title: other?.title ?? "",
+            status: other?.status ?? null,
+        };
+    };
+    const blocking = (workstream?.dependencies ?? []).filter(
+        (dep) => dep.type === "blocks",
+    );
+
+    return {
+        ...task,
+        product: product ? { uuid: product.uuid, title: product.title } : null,
+        workstream: workstream
+            ? { uuid: workstream.uuid, title: workstream.title }
+            : null,
+        blockedBy: blocking
+            .filter((dep) => dep.toTaskUuid === task.uuid)
+            .map((dep) => summary(dep.fromTaskUuid)),
+        blocks: blocking
+            .filter((dep) => dep.fromTaskUuid === task.uuid)
+            .map((dep) => summary(dep.toTaskUuid)),
+    };
+}
+
+/**
+ * Make `fromTask` block (or relate to) `toTask`, joining or creating their
+ * workstream like connecting them in the DAG view does.
+ */
+async function addDependency(
+    fromTaskId: string,
+    toTaskId: string,
+    type: DependencyType,
+): Promise<void> {
+    const workstream = (await loadWorkstreams()).find(
+        (ws) => ws.tasks.includes(fromTaskId) && ws.tasks.includes(toTaskId),
+    );
+    if (
+        workstream &&
+        (await wouldCreateCycle(workstream.uuid, fromTaskId, toTaskId))
+    ) {
+        throw new Error("The dependency would create a cycle");
+    }
+    await connectTasks(fromTaskId, toTaskId, await loadTasks(), type);
+}
+
+/**
+ * Tools for coding agents to read and update the task they work on.
+ *
+ * @param defaultTaskId Task the agent was started for, used when a tool call doesn't name one
+ */
+export function createTaskTools(defaultTaskId: string | undefined): McpTool[] {
+    return [
+        {
+            name: "get_task",
+            description:
+                "Get a task with its description, notes, status, product, workstream and the tasks blocking it or blocked by it.",
+            inputSchema: {
+                type: "object",
+                properties: { taskId: TASK_ID_PROPERTY },
+            },
+            async call(args) {
+                return await describeTask(await findTask(args, defaultTaskId));
+            },
+        },
+        {
+            name: "update_task_status",
+            description: `Set the status of a task, e.g. to "In Review" once your work is ready. One of ${TASK_STATUSES.join(", ")}.`,
+            inputSchema: {
+                type: "object",
+                properties: {
+                    taskId: TASK_ID_PROPERTY,
+                    status: { type: "string", enum: TASK_STATUSES },
+                },
+                required: ["status"],
+            },
+            async call(args) {
+                const task = await findTask(args, defaultTaskId);
+                const status = requiredString(args, "status");
+                if (!TASK_STATUSES.includes(status as TaskStatus)) {
+                    throw new Error(
+                        `status must be one of ${TASK_STATUSES.join(", ")}`,
+                    );
+                }
+                const updatedTask = { ...task, status: status as TaskStatus };
+                await updateTask(updatedTask);
+                return updatedTask;
+            },
+        },
+        {
+            name: "add_task_note",
+            description:
+                "Add a note to a task, e.g. a decision you made, a problem you ran into or what is left to do.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    taskId: TASK_ID_PROPERTY,
+                    text: { type: "string" },
+                },
+                required: ["text"],
+            },
+            async call(args) {
+                const task = await findTask(args, defaultTaskId);
+                const updatedTask: Task = {
+                    ...task,
+                    notes: [
+                        ...(task.notes ?? []),
+                        {
+                            createdAt: new Date().toISOString(),
+                            text: requiredString(args, "text"),
+                        },
+                    ],
+                };
+                await updateTask(updatedTask);
+                return updatedTask;
+            },
+        },
+        {
+            name: "create_follow_up_task",
+            description:
+                "Create a task for work that should happen after a task, e.g. something out of its scope. The new task joins the task's product and workstream and is blocked by the task.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    taskId: TASK_ID_PROPERTY,
+                    title: { type: "string" },
+                    description: { type: "string" },
+                },
+                required: ["title"],
+            },
+            async call(args) {
+                const task = await findTask(args, defaultTaskId);
+                const title = requiredString(args, "title");
+                const description = optionalString(args, "description") ?? "";
+
+                const followUp = await createTask(title, description);
+                const product = await getProductByTaskUuid(task.uuid);
+                if (product) {
+                    await setProductOfTask(followUp.uuid, product.uuid);
+                }
+                await addDependency(task.uuid, followUp.uuid, "blocks");
+                return await describeTask(followUp);
+            },
+        },
+        {
+            name: "add_dependency",
+            description:
+                'Make one task block another ("blocks", the default) or mark them as related ("related"). Tasks not in a workstream yet join the other task\'s workstream.',
+            inputSchema: {
+                type: "object",
+                properties: {
+                    fromTaskId: {
+                        type: "string",
+                        description:
+                            "UUID of the task that has to be done first",
+                    },
+                    toTaskId: {
+                        type: "string",
+                        description: "UUID of the task that waits for it",
+                    },
+                    type: { type: "string", enum: DEPENDENCY_TYPES },
+                },
+                required: ["fromTaskId", "toTaskId"],
+            },
+            async call(args) {
+                const fromTask = await findTaskById(
+                    requiredString(args, "fromTaskId"),
+                );
+                const toTask = await findTaskById(
+                    requiredString(args, "toTaskId"),
+                );
+                const type = optionalString(args, "type") ?? "blocks";
+                if (!DEPENDENCY_TYPES.includes(type as DependencyType)) {
+                    throw new Error(
+                        `type must be one of ${DEPENDENCY_TYPES.join(", ")}`,
+                    );
+                }
+                await addDependency(
+                    fromTask.uuid,
+                    toTask.uuid,
+                    type as DependencyType,
+                );
+                return await describeTask(toTask);
+            },
+        },
+        {
+            name: "get_sibling_tasks",
+            description:
+                "Get the other tasks in the workstream of a task, with their status and the dependencies between all tasks of the workstream.",
+            inputSchema: {
+                type: "object",
+                properties: { taskId: TASK_ID_PROPERTY },
+            },
+            async call(args) {
+                const task = await findTask(args, defaultTaskId);
+                const workstream = (await loadWorkstreams()).find((ws) =>
+                    ws.tasks.includes(task.uuid),
+                );
+                if (!workstream) {
+                    return { workstream: null, tasks: [], dependencies: [] };
+                }
+
+                const tasks = await loadTasks();
+                return {
+                    workstream: {
+                        uuid: workstream.uuid,
+                        title: workstream.title,
+                    },
+                    tasks: workstream.tasks
+                        .filter((uuid) => uuid !== task.uuid)
+                        .flatMap(
+                            (uuid) => tasks.find((t) => t.uuid === uuid) ?? [],
+                        ),
+                    dependencies: workstream.dependencies,
+                };
+            },
+        },
+    ];
+}
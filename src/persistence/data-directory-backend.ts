@@ -0,0 +1,41 @@
+import { mkdirSync } from "node:fs";
+import { rename } from "node:fs/promises";
+import { join } from "node:path";
+import type { DataFileName, StorageBackend } from "./storage-backend";
+
+/**
+ * Data files in a directory on disk, for code running in Bun rather than the
+ * browser. Point it at the same directory as the app's data directory to
+ * share the data with the UI.
+ *
+ * Files are written to a temporary file first and then renamed, so readers
+ * never see half a file.
+ *
+ * @param directory Absolute path, created if it doesn't exist
+ */
+export function createDataDirectoryBackend(directory: string): StorageBackend {
+    mkdirSync(directory, { recursive: true });
+
+    return {
+        type: "data-directory",
+
+        async readFile(fileName: DataFileName): Promise<string | null> {
+            const file = Bun.file(join(directory, fileName));
+            if (!(await file.exists())) {
+                return null;
+            }
+            const text = await file.text();
+            return text.trim() === "" ? null : text;
+        },
+
+        async writeFile(
+            fileName: DataFileName,
+            content: string,
+        ): Promise<void> {
+            const path = join(directory, fileName);
+            const temporaryPath = `${path}.${process.pid}.tmp`;
+            await Bun.write(temporaryPath, content);
+            await rename(temporaryPath, path);
+        },
+    };
+}
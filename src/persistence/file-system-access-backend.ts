@@ -0,0 +1,69 @@
+import { DirectoryHandleType, getDirectoryHandle } from "./file-system-handles";
+import type { DataFileName, StorageBackend } from "./storage-backend";
+
+async function getDataFileHandle(
+    fileName: DataFileName,
+): Promise<FileSystemFileHandle> {
+    const dirHandle = await getDirectoryHandle(DirectoryHandleType.DATA_DIR);
+    if (!dirHandle) {
+        throw new Error(
+            `No data directory configured. Please set up the data directory in settings.`,
+        );
+    }
+
+    const fileHandle = await dirHandle.getFileHandle(fileName, {
+        create: true,
+    });
+
+    // Check if we still have permission to access the file
+    const permission = await fileHandle.queryPermission({ mode: "readwrite" });
+    if (permission === "denied") {
+        throw new Error(`Permission denied for file ${fileName}`);
+    }
+
+    // Request permission if needed
+    if (permission === "prompt") {
+        const newPermission = await fileHandle.requestPermission({
+            mode: "readwrite",
+        });
+        if (newPermission === "denied") {
+            throw new Error(`Permission denied for file ${fileName}`);
+        }
+    }
+
+    return fileHandle;
+}
+
+/**
+ * Data files in the data directory picked in the browser's settings, whose
+ * handle is kept in IndexedDB.
+ */
+export function createFileSystemAccessBackend(): StorageBackend {
+    return {
+        type: "file-system-access",
+
+        async readFile(fileName: DataFileName): Promise<string | null> {
+            const fileHandle = await getDataFileHandle(fileName);
+            const file = await fileHandle.getFile();
+            const text = await file.text();
+            return text.trim() === "" ? null : text;
+        },
+
+        async writeFile(
+            fileName: DataFileName,
+            content: string,
+        ): Promise<void> {
+            const fileHandle = await getDataFileHandle(fileName);
+            const writable = await fileHandle.createWritable();
+            await writable.write(content);
+            await writable.close();
+        },
+    };
+}
+
+/**
+ * Whether the browser supports picking a data directory.
+ */
+export function isFileSystemAccessSupported(): boolean {
+    return typeof window !== "undefined" && "showDirectoryPicker" in window;
+}
@@ -0,0 +1,63 @@
+import type { DataFileName, StorageBackend } from "./storage-backend";
+
+/**
+ * Data files in the data directory of our server, read and written through
+ * its /api/data routes. For browsers without the File System Access API.
+ *
+ * @param serverUrl Base URL of the server, e.g. http://localhost:3000
+ * @param getToken Token the server accepts, see task-execution/auth.ts. Read
+ * for every request, so a token changed in the settings applies right away.
+ */
+export function createHttpBackend(
+    serverUrl: string,
+    getToken: () => string,
+): StorageBackend {
+    const fileUrl = (fileName: DataFileName) =>
+        `${serverUrl}/api/data/${encodeURIComponent(fileName)}`;
+    const authorization = () => ({ Authorization: `Bearer ${getToken()}` });
+
+    const throwResponseError = async (response: Response, action: string) => {
+        const body = await response.json().catch(() => null);
+        throw new Error(
+            `Failed to ${action}: ${
+                body?.details ??
+                body?.error ??
+                `Server responded with status ${response.status}`
+            }`,
+        );
+    };
+
+    return {
+        type: "http",
+
+        async readFile(fileName: DataFileName): Promise<string | null> {
+            const response = await fetch(fileUrl(fileName), {
+                headers: authorization(),
+            });
+            if (response.status === 204) {
+                return null;
+            }
+            if (!response.ok) {
+                await throwResponseError(response, `read ${fileName}`);
+            }
+            return await response.text();
+        },
+
+        async writeFile(
+            fileName: DataFileName,
+            content: string,
+        ): Promise<void> {
+            const response = await fetch(fileUrl(fileName), {
+                method: "PUT",
+                headers: {
+                    ...authorization(),
+                    "Content-Type": "application/json",
+                },
+                body: content,
+            });
+            if (!response.ok) {
+                await throwResponseError(response, `write ${fileName}`);
+            }
+        },
+    };
+}
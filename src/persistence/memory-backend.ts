@@ -0,0 +1,32 @@
+import type { DataFileName, StorageBackend } from "./storage-backend";
+
+/**
+ * Data files kept in memory only, gone when the process or page ends. For
+ * tests, and for trying the app without picking a data directory.
+ *
+ * @param files Initial content by file name
+ */
+export function createMemoryBackend(
+    files: Partial<Record<DataFileName, string>> = {},
+): StorageBackend {
+    const contents = new Map(Object.entries(files)) as Map<
+        DataFileName,
+        string
+    >;
+
+    return {
+        type: "memory",
+
+        async readFile(fileName: DataFileName): Promise<string | null> {
+            const text = contents.get(fileName);
+            return text === undefined || text.trim() === "" ? null : text;
+        },
+
+        async writeFile(
+            fileName: DataFileName,
+            content: string,
+        ): Promise<void> {
+            contents.set(fileName, content);
+        },
+    };
+}
@@ -0,0 +1,77 @@
+/**
+ * Storage Backend
+ *
+ * The storage modules keep their data in JSON files with the names below and
+ * read and write them through readFile and writeFile, which go to the
+ * backend selected at startup:
+ *
+ * - File System Access: the data directory picked in the browser's settings
+ *   (file-system-access-backend.ts)
+ * - HTTP: the server's data directory, for browsers without the File System
+ *   Access API (http-backend.ts)
+ * - Data directory: a directory on disk, for code running in Bun like the
+ *   server and scripts (data-directory-backend.ts)
+ * - In-memory: nothing is persisted, for tests and previews (memory-backend.ts)
+ */
+
+// Standardized file names for each type
+export const DataFileName = {
+    TASK: "tasks.json",
+    TASK_EXECUTION_CONTEXT: "task-execution-contexts.json",
+    TASK_EXECUTION_RUN: "task-execution-runs.json",
+    TASK_INBOX: "task-inbox.json",
+    AUTOPILOT: "autopilot.json",
+    PROMPT_TEMPLATE: "prompt-templates.json",
+    AGENT: "agents.json",
+    PRODUCT: "products.json",
+    WORKSTREAM: "workstreams.json",
+    GLOBAL_ORDER: "global-order.json",
+} as const;
+export type DataFileName = (typeof DataFileName)[keyof typeof DataFileName];
+
+export const DATA_FILE_NAMES: DataFileName[] = Object.values(DataFileName);
+
+export type StorageBackendType =
+    "file-system-access" | "http" | "data-directory" | "memory";
+
+export interface StorageBackend {
+    type: StorageBackendType;
+    /**
+     * Content of a data file, null if it doesn't exist or is empty.
+     */
+    readFile(fileName: DataFileName): Promise<string | null>;
+    /**
+     * Replace the content of a data file, creating it if needed.
+     */
+    writeFile(fileName: DataFileName, content: string): Promise<void>;
+}
+
+let storageBackend: StorageBackend | null = null;
+
+/**
+ * Select where the data files are kept. Call it once at startup, before any
+ * data is loaded.
+ */
+export function setStorageBackend(backend: StorageBackend): void {
+    storageBackend = backend;
+}
+
+export function getStorageBackend(): StorageBackend {
+    if (!storageBackend) {
+        throw new Error(
+            "No storage backend selected. Call setStorageBackend at startup.",
+        );
+    }
+    return storageBackend;
+}
+
+export async function readFile(fileName: DataFileName): Promise<string | null> {
+    return await getStorageBackend().readFile(fileName);
+}
+
+export async function writeFile(
+    fileName: DataFileName,
+    content: string,
+): Promise<void> {
+    await getStorageBackend().writeFile(fileName, content);
+}
@@ -0,0 +1,104 @@
+import type { ContextPreset } from "src/entities/products/types";
+
+interface ProductContextPresetsProps {
+    presets: ContextPreset[];
+    onChange: (presets: ContextPreset[]) => void;
+}
+
+function parsePaths(text: string): string[] {
+    return text
+        .split("\n")
+        .map((path) => path.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Editor for the named context presets of a product. Tasks reference presets
+ * by id, so renaming a preset or changing its paths applies to all of them.
+ */
+export function ProductContextPresets({
+    presets,
+    onChange,
+}: ProductContextPresetsProps) {
+    const handleUpdatePreset = (
+        presetId: string,
+        changes: Partial<Omit<ContextPreset, "id">>,
+    ) => {
+        onChange(
+            presets.map((preset) =>
+                preset.id === presetId ? { ...preset, ...changes } : preset,
+            ),
+        );
+    };
+
+    const handleAddPreset = () => {
+        onChange([
+            ...presets,
+            {
+                id: crypto.randomUUID(),
+                name: `Preset ${presets.length + 1}`,
+                paths: [],
+            },
+        ]);
+    };
+
+    const handleRemovePreset = (presetId: string) => {
+        onChange(presets.filter((preset) => preset.id !== presetId));
+    };
+
+    return (
+        <div className="mt-2">
+            <div className="flex items-center gap-2 mb-1">
+                <label className="text-xs text-gray-500">Context Presets</label>
+                <button
+                    className="btn btn-xs btn-outline"
+                    onClick={handleAddPreset}
+                >
+                    + Add
+                </button>
+            </div>
+            {presets.map((preset) => (
+                <div
+                    key={preset.id}
+                    className="flex gap-2 items-start mb-2 max-w-md"
+                >
+                    <div className="flex-1">
+                        <input
+                            type="text"
+                            className="input input-bordered input-sm w-full mb-1"
+                            defaultValue={preset.name}
+                            placeholder="Name, e.g. API layer"
+                            onBlur={(e) => {
+                                const name = e.target.value.trim();
+                                if (name && name !== preset.name) {
+                                    handleUpdatePreset(preset.id, { name });
+                                }
+                            }}
+                        />
+                        <textarea
+                            className="textarea textarea-bordered textarea-sm font-mono w-full"
+                            rows={2}
+                            defaultValue={preset.paths.join("\n")}
+                            placeholder="One path per line, relative to the working directory"
+                            onBlur={(e) => {
+                                const paths = parsePaths(e.target.value);
+                                if (
+                                    paths.join("\n") !== preset.paths.join("\n")
+                                ) {
+                                    handleUpdatePreset(preset.id, { paths });
+                                }
+                            }}
+                        />
+                    </div>
+                    <button
+                        className="btn btn-xs btn-ghost text-red-500"
+                        onClick={() => handleRemovePreset(preset.id)}
+                        title="Remove preset, tasks using it keep their own files"
+                    >
+                        ✕
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -5,7 +5,17 @@ import {
     storeProducts,
     updateProduct,
 } from "src/entities/products/product-file-storage";
-import type { Product } from "src/entities/products/types";
+import type { ContextPreset, Product } from "src/entities/products/types";
+import {
+    loadPromptTemplates,
+    type PromptTemplate,
+} from "src/task-execution/prompt-template-storage";
+import { loadAgents, type Agent } from "src/task-execution/agent-storage";
+import {
+    MERGE_MODES,
+    type MergeMode,
+} from "src/task-execution/worktrees/types";
+import { ProductContextPresets } from "./product-context-presets";
 import {
     getDirectoryHandle,
     DirectoryHandleType,
@@ -19,6 +29,10 @@ export function ProductsPanel() {
     const [selectedWorkingDirectory, setSelectedWorkingDirectory] =
         useState<string>("");
     const [codingDirectories, setCodingDirectories] = useState<string[]>([]);
+    const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(
+        [],
+    );
+    const [agents, setAgents] = useState<Agent[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
@@ -26,6 +40,14 @@ export function ProductsPanel() {
     useEffect(() => {
         loadProductsFromStorage();
         loadCodingDirectories();
+        loadPromptTemplates()
+            .then(setPromptTemplates)
+            .catch((err) =>
+                console.error("Failed to load prompt templates:", err),
+            );
+        loadAgents()
+            .then(setAgents)
+            .catch((err) => console.error("Failed to load agents:", err));
     }, []);
 
     const loadProductsFromStorage = async () => {
@@ -129,6 +151,163 @@ export function ProductsPanel() {
         }
     };
 
+    const handleUpdatePromptTemplate = async (
+        productId: string,
+        promptTemplateId: string,
+    ) => {
+        try {
+            setError(null);
+            const product = products.find((p) => p.uuid === productId);
+            if (!product) {
+                throw new Error("Product not found");
+            }
+            const updatedProduct = {
+                ...product,
+                promptTemplateId: promptTemplateId || undefined,
+            };
+            await updateProduct(updatedProduct);
+            setProducts(
+                products.map((p) =>
+                    p.uuid === productId ? updatedProduct : p,
+                ),
+            );
+        } catch (err) {
+            console.error("Failed to update prompt template:", err);
+            setError("Failed to update prompt template. Please try again.");
+        }
+    };
+
+    const handleUpdateAgent = async (productId: string, agentId: string) => {
+        try {
+            setError(null);
+            const product = products.find((p) => p.uuid === productId);
+            if (!product) {
+                throw new Error("Product not found");
+            }
+            const updatedProduct = {
+                ...product,
+                agentId: agentId || undefined,
+            };
+            await updateProduct(updatedProduct);
+            setProducts(
+                products.map((p) =>
+                    p.uuid === productId ? updatedProduct : p,
+                ),
+            );
+        } catch (err) {
+            console.error("Failed to update agent:", err);
+            setError("Failed to update agent. Please try again.");
+        }
+    };
+
+    const handleUpdateMergeSettings = async (
+        productId: string,
+        changes: Pick<Product, "baseBranch" | "mergeMode">,
+    ) => {
+        try {
+            setError(null);
+            const product = products.find((p) => p.uuid === productId);
+            if (!product) {
+                throw new Error("Product not found");
+            }
+            const updatedProduct = { ...product, ...changes };
+            await updateProduct(updatedProduct);
+            setProducts(
+                products.map((p) =>
+                    p.uuid === productId ? updatedProduct : p,
+                ),
+            );
+        } catch (err) {
+            console.error("Failed to update merge settings:", err);
+            setError("Failed to update merge settings. Please try again.");
+        }
+    };
+
+    const handleUpdateExecutionDefaults = async (
+        productId: string,
+        changes: Pick<Product, "async" | "defaultContext">,
+    ) => {
+        try {
+            setError(null);
+            const product = products.find((p) => p.uuid === productId);
+            if (!product) {
+                throw new Error("Product not found");
+            }
+            const updatedProduct = { ...product, ...changes };
+            await updateProduct(updatedProduct);
+            setProducts(
+                products.map((p) =>
+                    p.uuid === productId ? updatedProduct : p,
+                ),
+            );
+        } catch (err) {
+            console.error("Failed to update execution defaults:", err);
+            setError("Failed to update execution defaults. Please try again.");
+        }
+    };
+
+    const handleUpdateVerificationCommands = async (
+        productId: string,
+        text: string,
+    ) => {
+        try {
+            setError(null);
+            const product = products.find((p) => p.uuid === productId);
+            if (!product) {
+                throw new Error("Product not found");
+            }
+            const verificationCommands = text
+                .split("\n")
+                .map((command) => command.trim())
+                .filter(Boolean);
+            const updatedProduct = {
+                ...product,
+                verificationCommands:
+                    verificationCommands.length > 0
+                        ? verificationCommands
+                        : undefined,
+            };
+            await updateProduct(updatedProduct);
+            setProducts(
+                products.map((p) =>
+                    p.uuid === productId ? updatedProduct : p,
+                ),
+            );
+        } catch (err) {
+            console.error("Failed to update verification commands:", err);
+            setError(
+                "Failed to update verification commands. Please try again.",
+            );
+        }
+    };
+
+    const handleUpdateContextPresets = async (
+        productId: string,
+        contextPresets: ContextPreset[],
+    ) => {
+        try {
+            setError(null);
+            const product = products.find((p) => p.uuid === productId);
+            if (!product) {
+                throw new Error("Product not found");
+            }
+            const updatedProduct = {
+                ...product,
+                contextPresets:
+                    contextPresets.length > 0 ? contextPresets : undefined,
+            };
+            await updateProduct(updatedProduct);
+            setProducts(
+                products.map((p) =>
+                    p.uuid === productId ? updatedProduct : p,
+                ),
+            );
+        } catch (err) {
+            console.error("Failed to update context presets:", err);
+            setError("Failed to update context presets. Please try again.");
+        }
+    };
+
     // Helper function to get children of a product
     const getChildren = (parentId: string): Product[] => {
         return products.filter((p) => p.parent === parentId);
@@ -183,6 +362,254 @@ export function ProductsPanel() {
                                         ))}
                                     </select>
                                 </div>
+                                <div className="mt-2">
+                                    <label className="text-xs text-gray-500 block mb-1">
+                                        Prompt Template
+                                    </label>
+                                    <select
+                                        className="select select-bordered select-sm w-full max-w-xs"
+                                        value={product.promptTemplateId || ""}
+                                        onChange={(e) =>
+                                            handleUpdatePromptTemplate(
+                                                product.uuid,
+                                                e.target.value,
+                                            )
+                                        }
+                                    >
+                                        <option value="">
+                                            {product.parent
+                                                ? "Same as parent product"
+                                                : "Default"}
+                                        </option>
+                                        {promptTemplates.map((template) => (
+                                            <option
+                                                key={template.uuid}
+                                                value={template.uuid}
+                                            >
+                                                {template.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className="mt-2">
+                                    <label className="text-xs text-gray-500 block mb-1">
+                                        Agent
+                                    </label>
+                                    <select
+                                        className="select select-bordered select-sm w-full max-w-xs"
+                                        value={product.agentId || ""}
+                                        onChange={(e) =>
+                                            handleUpdateAgent(
+                                                product.uuid,
+                                                e.target.value,
+                                            )
+                                        }
+                                    >
+                                        <option value="">
+                                            {product.parent
+                                                ? "Same as parent product"
+                                                : "Claude (default)"}
+                                        </option>
+                                        {agents.map((agent) => (
+                                            <option
+                                                key={agent.uuid}
+                                                value={agent.uuid}
+                                            >
+                                                {agent.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className="mt-2 flex gap-2 items-start">
+                                    <div>
+                                        <label className="text-xs text-gray-500 block mb-1">
+                                            Run in Worktree
+                                        </label>
+                                        <select
+                                            className="select select-bordered select-sm"
+                                            value={
+                                                product.async === undefined
+                                                    ? ""
+                                                    : String(product.async)
+                                            }
+                                            onChange={(e) =>
+                                                handleUpdateExecutionDefaults(
+                                                    product.uuid,
+                                                    {
+                                                        async:
+                                                            e.target.value ===
+                                                            ""
+                                                                ? undefined
+                                                                : e.target
+                                                                      .value ===
+                                                                  "true",
+                                                    },
+                                                )
+                                            }
+                                            title="For tasks that don't pick for themselves"
+                                        >
+                                            <option value="">
+                                                {product.parent
+                                                    ? "Same as parent product"
+                                                    : "No (default)"}
+                                            </option>
+                                            <option value="true">Yes</option>
+                                            <option value="false">No</option>
+                                        </select>
+                                    </div>
+                                    <div className="flex-1 max-w-md">
+                                        <label className="text-xs text-gray-500 block mb-1">
+                                            Default Context
+                                        </label>
+                                        <textarea
+                                            className="textarea textarea-bordered textarea-sm font-mono w-full"
+                                            rows={1}
+                                            defaultValue={(
+                                                product.defaultContext ?? []
+                                            ).join("\n")}
+                                            placeholder={
+                                                product.parent
+                                                    ? "Same as parent product"
+                                                    : "One path per line"
+                                            }
+                                            title="Context of tasks that don't pick any files themselves"
+                                            onBlur={(e) => {
+                                                const defaultContext =
+                                                    e.target.value
+                                                        .split("\n")
+                                                        .map((path) =>
+                                                            path.trim(),
+                                                        )
+                                                        .filter(Boolean);
+                                                if (
+                                                    defaultContext.join(
+                                                        "\n",
+                                                    ) !==
+                                                    (
+                                                        product.defaultContext ??
+                                                        []
+                                                    ).join("\n")
+                                                ) {
+                                                    handleUpdateExecutionDefaults(
+                                                        product.uuid,
+                                                        {
+                                                            defaultContext:
+                                                                defaultContext.length >
+                                                                0
+                                                                    ? defaultContext
+                                                                    : undefined,
+                                                        },
+                                                    );
+                                                }
+                                            }}
+                                        />
+                                    </div>
+                                </div>
+                                <div className="mt-2 flex gap-2">
+                                    <div>
+                                        <label className="text-xs text-gray-500 block mb-1">
+                                            Merge Mode
+                                        </label>
+                                        <select
+                                            className="select select-bordered select-sm"
+                                            value={product.mergeMode || ""}
+                                            onChange={(e) =>
+                                                handleUpdateMergeSettings(
+                                                    product.uuid,
+                                                    {
+                                                        mergeMode:
+                                                            (e.target
+                                                                .value as MergeMode) ||
+                                                            undefined,
+                                                    },
+                                                )
+                                            }
+                                        >
+                                            <option value="">
+                                                {product.parent
+                                                    ? "Same as parent product"
+                                                    : "merge (default)"}
+                                            </option>
+                                            {MERGE_MODES.map((mode) => (
+                                                <option key={mode} value={mode}>
+                                                    {mode}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="text-xs text-gray-500 block mb-1">
+                                            Base Branch
+                                        </label>
+                                        <input
+                                            type="text"
+                                            className="input input-bordered input-sm font-mono"
+                                            defaultValue={
+                                                product.baseBranch || ""
+                                            }
+                                            placeholder={
+                                                product.parent
+                                                    ? "Same as parent product"
+                                                    : "Checked out branch"
+                                            }
+                                            onBlur={(e) => {
+                                                const baseBranch =
+                                                    e.target.value.trim() ||
+                                                    undefined;
+                                                if (
+                                                    baseBranch !==
+                                                    product.baseBranch
+                                                ) {
+                                                    handleUpdateMergeSettings(
+                                                        product.uuid,
+                                                        { baseBranch },
+                                                    );
+                                                }
+                                            }}
+                                        />
+                                    </div>
+                                </div>
+                                <div className="mt-2">
+                                    <label className="text-xs text-gray-500 block mb-1">
+                                        Verification Commands
+                                    </label>
+                                    <textarea
+                                        className="textarea textarea-bordered textarea-sm font-mono w-full max-w-md"
+                                        rows={2}
+                                        defaultValue={(
+                                            product.verificationCommands ?? []
+                                        ).join("\n")}
+                                        placeholder={
+                                            product.parent
+                                                ? "Same as parent product"
+                                                : "One command per line, e.g. bun test"
+                                        }
+                                        title="Run in the worktree after the agent exits, without a shell, so && or | don't work. A failed command keeps the task from moving on."
+                                        onBlur={(e) => {
+                                            if (
+                                                e.target.value !==
+                                                (
+                                                    product.verificationCommands ??
+                                                    []
+                                                ).join("\n")
+                                            ) {
+                                                handleUpdateVerificationCommands(
+                                                    product.uuid,
+                                                    e.target.value,
+                                                );
+                                            }
+                                        }}
+                                    />
+                                </div>
+                                <ProductContextPresets
+                                    presets={product.contextPresets ?? []}
+                                    onChange={(presets) =>
+                                        handleUpdateContextPresets(
+                                            product.uuid,
+                                            presets,
+                                        )
+                                    }
+                                />
                                 <div className="text-xs text-gray-500 mt-2">
                                     {product.tasks.length} task
                                     {product.tasks.length !== 1 ? "s" : ""}
@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import {
+    createPromptTemplate,
+    loadPromptTemplates,
+    removePromptTemplate,
+    updatePromptTemplate,
+    type PromptTemplate,
+} from "src/task-execution/prompt-template-storage";
+import {
+    DEFAULT_PROMPT_TEMPLATE,
+    PROMPT_PLACEHOLDERS,
+} from "src/task-execution/prompt-templates";
+
+export function PromptTemplatesPanel() {
+    const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [nameInput, setNameInput] = useState("");
+    const [bodyInput, setBodyInput] = useState("");
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        loadTemplatesFromStorage();
+    }, []);
+
+    const loadTemplatesFromStorage = async () => {
+        try {
+            setLoading(true);
+            setError(null);
+            setTemplates(await loadPromptTemplates());
+        } catch (err) {
+            console.error("Failed to load prompt templates:", err);
+            setError(
+                "Failed to load prompt templates. Please check file permissions.",
+            );
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const selectTemplate = (template: PromptTemplate | null) => {
+        setSelectedId(template?.uuid ?? null);
+        setNameInput(template?.name ?? "");
+        setBodyInput(template?.body ?? DEFAULT_PROMPT_TEMPLATE.body);
+        setSaved(false);
+        setError(null);
+    };
+
+    const handleSave = async () => {
+        if (!nameInput.trim()) {
+            setError("Template name is required");
+            return;
+        }
+
+        try {
+            setError(null);
+            if (selectedId) {
+                const updatedTemplate = {
+                    uuid: selectedId,
+                    name: nameInput.trim(),
+                    body: bodyInput,
+                };
+                await updatePromptTemplate(updatedTemplate);
+                setTemplates(
+                    templates.map((t) =>
+                        t.uuid === selectedId ? updatedTemplate : t,
+                    ),
+                );
+            } else {
+                const newTemplate = await createPromptTemplate(
+                    nameInput.trim(),
+                    bodyInput,
+                );
+                setTemplates([...templates, newTemplate]);
+                setSelectedId(newTemplate.uuid);
+            }
+            setSaved(true);
+        } catch (err) {
+            console.error("Failed to save prompt template:", err);
+            setError("Failed to save prompt template. Please try again.");
+        }
+    };
+
+    const handleRemove = async (templateId: string) => {
+        try {
+            setError(null);
+            await removePromptTemplate(templateId);
+            setTemplates(templates.filter((t) => t.uuid !== templateId));
+            if (selectedId === templateId) {
+                selectTemplate(null);
+            }
+        } catch (err) {
+            console.error("Failed to remove prompt template:", err);
+            setError("Failed to remove prompt template. Please try again.");
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="container mx-auto p-6">
+                <div className="flex justify-center items-center py-12">
+                    <span className="loading loading-spinner loading-lg"></span>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="container mx-auto p-6">
+            <h2 className="text-3xl font-bold mb-6">Prompt Templates</h2>
+
+            {error && (
+                <div className="alert alert-error mb-6">
+                    <span>{error}</span>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Template List - Left Side */}
+                <div className="lg:col-span-1">
+                    <div className="card bg-base-100 shadow-xl">
+                        <div className="card-body">
+                            <h3 className="card-title text-xl mb-2">
+                                Templates
+                            </h3>
+                            <div
+                                className="p-2 rounded bg-base-200 text-sm text-gray-500"
+                                title={DEFAULT_PROMPT_TEMPLATE.body}
+                            >
+                                {DEFAULT_PROMPT_TEMPLATE.name} (built-in, used
+                                when no template is picked)
+                            </div>
+                            {templates.map((template) => (
+                                <div
+                                    key={template.uuid}
+                                    className={`flex items-center gap-2 p-2 rounded cursor-pointer hover:bg-base-200 ${
+                                        template.uuid === selectedId
+                                            ? "bg-blue-50 border border-blue-200"
+                                            : ""
+                                    }`}
+                                    onClick={() => selectTemplate(template)}
+                                >
+                                    <span className="flex-1 text-sm font-medium">
+                                        {template.name}
+                                    </span>
+                                    <button
+                                        className="btn btn-error btn-xs"
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleRemove(template.uuid);
+                                        }}
+                                    >
+                                        Remove
+                                    </button>
+                                </div>
+                            ))}
+                            <button
+                                className="btn btn-outline btn-sm mt-2"
+                                onClick={() => selectTemplate(null)}
+                            >
+                                New Template
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Template Editor - Right Side */}
+                <div className="lg:col-span-2">
+                    <div className="card bg-base-100 shadow-xl">
+                        <div className="card-body">
+                            <h3 className="card-title text-xl mb-2">
+                                {selectedId ? "Edit Template" : "New Template"}
+                            </h3>
+                            <input
+                                type="text"
+                                placeholder="Template name..."
+                                className="input input-bordered w-full"
+                                value={nameInput}
+                                onChange={(e) => {
+                                    setNameInput(e.target.value);
+                                    setSaved(false);
+                                }}
+                            />
+                            <textarea
+                                className="textarea textarea-bordered w-full font-mono text-sm"
+                                rows={10}
+                                value={bodyInput}
+                                onChange={(e) => {
+                                    setBodyInput(e.target.value);
+                                    setSaved(false);
+                                }}
+                            />
+                            <div className="flex items-center gap-2">
+                                <button
+                                    className="btn btn-primary btn-sm"
+                                    onClick={handleSave}
+                                >
+                                    Save
+                                </button>
+                                {saved && (
+                                    <span className="text-success text-sm">
+                                        Saved!
+                                    </span>
+                                )}
+                            </div>
+
+                            <h4 className="font-semibold mt-4">Placeholders</h4>
+                            <div className="grid gap-1 text-sm">
+                                {Object.entries(PROMPT_PLACEHOLDERS).map(
+                                    ([name, description]) => (
+                                        <div key={name} className="flex gap-2">
+                                            <code className="text-blue-600">
+                                                {`{{${name}}}`}
+                                            </code>
+                                            <span className="text-gray-600">
+                                                {description}
+                                            </span>
+                                        </div>
+                                    ),
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
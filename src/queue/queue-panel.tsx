@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { loadTasks } from "src/entities/tasks/task-file-storage";
+import {
+    cancelRun,
+    type ExecutionRun,
+} from "src/task-execution/task-execution-api";
+import { useRunQueue } from "./use-run-queue";
+
+function formatWaitingTime(since: string): string {
+    const seconds = Math.round((Date.now() - new Date(since).getTime()) / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Runs the execution server is working on and the runs waiting for a free slot,
+ * in the order they will start.
+ */
+export function QueuePanel() {
+    const { queue, error, refresh } = useRunQueue();
+    const [taskTitles, setTaskTitles] = useState<Map<string, string>>(
+        new Map(),
+    );
+    const [cancelError, setCancelError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadTasks()
+            .then((tasks) =>
+                setTaskTitles(new Map(tasks.map((t) => [t.uuid, t.title]))),
+            )
+            .catch((err) => console.error("Failed to load tasks:", err));
+    }, []);
+
+    const handleCancel = async (run: ExecutionRun) => {
+        try {
+            setCancelError(null);
+            const response = await cancelRun(run.id);
+            if (!response.ok) {
+                throw new Error(
+                    `Server responded with status ${response.status}`,
+                );
+            }
+            await refresh();
+        } catch (err) {
+            console.error("Failed to cancel run:", err);
+            setCancelError(
+                err instanceof Error ? err.message : "Failed to cancel run",
+            );
+        }
+    };
+
+    const renderRun = (run: ExecutionRun, position?: number) => (
+        <div
+            key={run.id}
+            className="flex items-center gap-3 p-2 rounded bg-base-200 text-sm"
+        >
+            {position !== undefined ? (
+                <span className="badge badge-info badge-sm">#{position}</span>
+            ) : (
+                <span className="badge badge-warning badge-sm">Running</span>
+            )}
+            <div className="flex-1 min-w-0">
+                <div className="font-medium truncate" title={run.prompt}>
+                    {run.taskId ? (
+                        <Link
+                            to={`/task/${run.taskId}`}
+                            className="link link-hover"
+                        >
+                            {taskTitles.get(run.taskId) ?? run.prompt}
+                        </Link>
+                    ) : (
+                        run.prompt
+                    )}
+                </div>
+                <div className="text-xs text-gray-500 font-mono">
+                    📁 {run.codeDirectory}
+                    {run.worktree && ` • ${run.worktree}`} • {run.launcher}
+                    {run.priority !== 0 && ` • priority ${run.priority}`}
+                </div>
+            </div>
+            <span className="text-xs text-gray-500">
+                {position !== undefined
+                    ? `waiting ${formatWaitingTime(run.queuedAt)}`
+                    : `running ${formatWaitingTime(run.startedAt ?? run.queuedAt)}`}
+            </span>
+            <button
+                className="btn btn-xs btn-outline btn-error"
+                onClick={() => handleCancel(run)}
+            >
+                Cancel
+            </button>
+        </div>
+    );
+
+    return (
+        <div className="container mx-auto p-6">
+            <h2 className="text-3xl font-bold mb-6">Execution Queue</h2>
+
+            {(error || cancelError) && (
+                <div className="alert alert-error mb-6">
+                    <span>{cancelError ?? error}</span>
+                </div>
+            )}
+
+            {!queue && !error && (
+                <div className="flex justify-center items-center py-12">
+                    <span className="loading loading-spinner loading-lg"></span>
+                </div>
+            )}
+
+            {queue && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <div className="card bg-base-100 shadow-xl">
+                        <div className="card-body">
+                            <h3 className="card-title text-xl">
+                                Running ({queue.running.length}/
+                                {queue.limits.maxConcurrentRuns})
+                            </h3>
+                            <p className="text-xs text-gray-500 mb-2">
+                                At most{" "}
+                                {queue.limits.maxConcurrentRunsPerDirectory} run
+                                {queue.limits.maxConcurrentRunsPerDirectory !== 1
+                                    ? "s"
+                                    : ""}{" "}
+                                per working directory
+                            </p>
+                            <div className="space-y-2">
+                                {queue.running.length === 0 ? (
+                                    <div className="text-center text-gray-500 py-6">
+                                        Nothing is running
+                                    </div>
+                                ) : (
+                                    queue.running.map((run) => renderRun(run))
+                                )}
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="card bg-base-100 shadow-xl">
+                        <div className="card-body">
+                            <h3 className="card-title text-xl mb-2">
+                                Queued ({queue.queued.length})
+                            </h3>
+                            <div className="space-y-2">
+                                {queue.queued.length === 0 ? (
+                                    <div className="text-center text-gray-500 py-6">
+                                        The queue is empty
+                                    </div>
+                                ) : (
+                                    queue.queued.map((run, index) =>
+                                        renderRun(run, index + 1),
+                                    )
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
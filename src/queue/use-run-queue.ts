@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import {
+    getQueue,
+    type RunQueue,
+} from "src/task-execution/task-execution-api";
+
+const POLL_INTERVAL_MS = 3000;
+
+type QueueListener = (queue: RunQueue | null, error: string | null) => void;
+
+/**
+ * All components showing the queue share a single poll of the execution server,
+ * which runs while at least one of them is mounted.
+ */
+const listeners = new Set<QueueListener>();
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let lastQueue: RunQueue | null = null;
+let lastError: string | null = null;
+
+async function pollQueue(): Promise<void> {
+    try {
+        lastQueue = await getQueue();
+        lastError = null;
+    } catch (err) {
+        lastError =
+            err instanceof Error ? err.message : "Failed to load the queue";
+    }
+    listeners.forEach((listener) => listener(lastQueue, lastError));
+}
+
+function subscribe(listener: QueueListener): () => void {
+    listeners.add(listener);
+    if (!pollTimer) {
+        pollQueue();
+        pollTimer = setInterval(pollQueue, POLL_INTERVAL_MS);
+    }
+
+    return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && pollTimer) {
+            clearInterval(pollTimer);
+            pollTimer = null;
+        }
+    };
+}
+
+/**
+ * Running and queued runs of the execution server, refreshed every few seconds.
+ */
+export function useRunQueue(): {
+    queue: RunQueue | null;
+    error: string | null;
+    refresh: () => Promise<void>;
+} {
+    const [queue, setQueue] = useState<RunQueue | null>(lastQueue);
+    const [error, setError] = useState<string | null>(lastError);
+
+    useEffect(
+        () =>
+            subscribe((newQueue, newError) => {
+                setQueue(newQueue);
+                setError(newError);
+            }),
+        [],
+    );
+
+    return { queue, error, refresh: pollQueue };
+}
@@ -0,0 +1,40 @@
+import { getAgent } from "./agent-storage";
+import { DEFAULT_AGENT, type AgentDefinition } from "./agents/types";
+import type { SettingSource } from "./execution-settings";
+import { getTaskExecutionSettings } from "./task-execution-context-storage";
+
+export interface ResolvedAgent {
+    agent: AgentDefinition;
+    agentSource: SettingSource["level"];
+}
+
+/**
+ * The agent CLI that executes a task, as resolved by getTaskExecutionSettings:
+ * the one picked for the task, else the nearest product in its hierarchy that
+ * has one, else Claude. An agent that was deleted since runs as Claude, like
+ * the effective settings show it.
+ */
+export async function resolveAgent(taskId: string): Promise<ResolvedAgent> {
+    const { agentId } = await getTaskExecutionSettings(taskId);
+    const agent = agentId.value ? await getAgent(agentId.value) : undefined;
+    if (agentId.value && !agent) {
+        console.warn(
+            `Agent ${agentId.value} of task ${taskId} no longer exists, using ${DEFAULT_AGENT.name}`,
+        );
+    }
+
+    return {
+        agent: agent ? toDefinition(agent) : DEFAULT_AGENT,
+        agentSource: agentId.source.level,
+    };
+}
+
+function toDefinition(agent: AgentDefinition): AgentDefinition {
+    return {
+        name: agent.name,
+        command: agent.command,
+        args: agent.args,
+        promptMode: agent.promptMode,
+        env: agent.env,
+    };
+}
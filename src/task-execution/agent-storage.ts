@@ -0,0 +1,127 @@
+/**
+ * Agent Storage Format
+ *
+ * Agent CLIs that can execute tasks are stored in a single JSON file with the following structure:
+ *
+ * {
+ *   "agents": {
+ *     "<agentId>": {
+ *       "name": string,                  // Name shown when picking an agent
+ *       "command": string,               // Program to run on the execution server
+ *       "args": string[],                // Arguments, may contain {prompt} or {promptFile}
+ *       "promptMode": "argv" | "stdin" | "file",
+ *       "env": { [name: string]: string } // Extra environment variables
+ *     },
+ *     ...
+ *   }
+ * }
+ *
+ * Example:
+ * {
+ *   "agents": {
+ *     "3e1f2a4b-5c6d-4e7f-8a9b-0c1d2e3f4a5b": {
+ *       "name": "Claude (skip permissions)",
+ *       "command": "claude",
+ *       "args": ["--dangerously-skip-permissions", "{prompt}"],
+ *       "promptMode": "argv",
+ *       "env": {}
+ *     },
+ *     "9f8e7d6c-5b4a-4392-8170-6f5e4d3c2b1a": {
+ *       "name": "Wrapper script",
+ *       "command": "/home/user/bin/agent.sh",
+ *       "args": ["--prompt-file", "{promptFile}"],
+ *       "promptMode": "file",
+ *       "env": { "AGENT_MODEL": "large" }
+ *     }
+ *   }
+ * }
+ *
+ * - argv: the prompt replaces {prompt} in the args, or is passed as the last argument.
+ * - file: the path of a file holding the prompt replaces {promptFile}, or is passed as the last argument.
+ * - stdin: the prompt is written to the agent's stdin.
+ * - The built-in Claude agent is not stored, it is used when a task and its products don't pick an agent.
+ */
+
+import {
+    readFile,
+    writeFile,
+    DataFileName,
+} from "src/persistence/storage-backend";
+import type { AgentDefinition } from "./agents/types";
+
+export interface Agent extends AgentDefinition {
+    uuid: string;
+}
+
+export async function loadAgents(): Promise<Agent[]> {
+    const text = await readFile(DataFileName.AGENT);
+    if (!text) {
+        console.log(
+            "[agent-storage] loadAgents: No file found, returning empty array"
+        );
+        return [];
+    }
+    const obj = JSON.parse(text);
+
+    if (obj && obj.agents && typeof obj.agents === "object") {
+        const agents = Object.entries(obj.agents).map(([uuid, value]) => {
+            const agent = value as Partial<AgentDefinition>;
+            return {
+                uuid,
+                name: agent.name || "",
+                command: agent.command || "",
+                args: agent.args || [],
+                promptMode: agent.promptMode || "argv",
+                env: agent.env || {},
+            };
+        });
+        console.log(`[agent-storage] loadAgents: Loaded ${agents.length} agents`);
+        return agents;
+    }
+
+    throw new Error("Invalid Agent file format");
+}
+
+export async function getAgent(agentId: string): Promise<Agent | null> {
+    const agents = await loadAgents();
+    return agents.find((a) => a.uuid === agentId) ?? null;
+}
+
+export async function createAgent(definition: AgentDefinition): Promise<Agent> {
+    const agent: Agent = { uuid: crypto.randomUUID(), ...definition };
+    const agents = await loadAgents();
+    agents.push(agent);
+    await storeAgents(agents);
+    return agent;
+}
+
+export async function updateAgent(updatedAgent: Agent): Promise<void> {
+    const agents = await loadAgents();
+    const index = agents.findIndex((a) => a.uuid === updatedAgent.uuid);
+    if (index === -1) {
+        throw new Error(`Agent with uuid ${updatedAgent.uuid} not found`);
+    }
+    agents[index] = updatedAgent;
+    await storeAgents(agents);
+}
+
+export async function removeAgent(agentId: string): Promise<void> {
+    const agents = await loadAgents();
+    await storeAgents(agents.filter((a) => a.uuid !== agentId));
+}
+
+async function storeAgents(agents: Agent[]): Promise<void> {
+    const agentsObj = agents.reduce(
+        (acc, { uuid, ...definition }) => {
+            acc[uuid] = definition;
+            return acc;
+        },
+        {} as Record<string, AgentDefinition>
+    );
+
+    console.log(`[agent-storage] storeAgents: Saving ${agents.length} agents`);
+    await writeFile(
+        DataFileName.AGENT,
+        JSON.stringify({ agents: agentsObj }, null, 2)
+    );
+}
@@ -0,0 +1,118 @@
+import { writeFileSync } from "node:fs";
+import { PROMPT_MODES, type AgentDefinition } from "./types";
+
+const PROMPT_PLACEHOLDER = "{prompt}";
+const PROMPT_FILE_PLACEHOLDER = "{promptFile}";
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Check an agent definition received from a client.
+ *
+ * @returns The definition, or a message describing what's wrong with it
+ */
+export function parseAgentDefinition(value: unknown): AgentDefinition | string {
+    if (!value || typeof value !== "object") {
+        return "Agent must be an object.";
+    }
+
+    const agent = value as Record<string, unknown>;
+    if (typeof agent.name !== "string" || !agent.name.trim()) {
+        return "Agent name must be a non-empty string.";
+    }
+    if (typeof agent.command !== "string" || !agent.command.trim()) {
+        return "Agent command must be a non-empty string.";
+    }
+    const args = agent.args ?? [];
+    if (!Array.isArray(args) || args.some((arg) => typeof arg !== "string")) {
+        return "Agent args must be an array of strings.";
+    }
+    if (!PROMPT_MODES.includes(agent.promptMode as AgentDefinition["promptMode"])) {
+        return `Agent prompt mode must be one of: ${PROMPT_MODES.join(", ")}.`;
+    }
+    const env = agent.env ?? {};
+    if (
+        typeof env !== "object" ||
+        Array.isArray(env) ||
+        Object.entries(env).some(
+            ([name, val]) => !ENV_NAME_PATTERN.test(name) || typeof val !== "string",
+        )
+    ) {
+        return "Agent env must map variable names to strings.";
+    }
+
+    return {
+        name: agent.name,
+        command: agent.command,
+        args: args as string[],
+        promptMode: agent.promptMode as AgentDefinition["promptMode"],
+        env: env as Record<string, string>,
+    };
+}
+
+/**
+ * Build the command that runs an agent with a prompt.
+ *
+ * - argv: the prompt replaces {prompt} in the args, or is added as the last argument
+ * - file: the prompt is written to `promptPath`, which replaces {promptFile} in the
+ *   args or is added as the last argument
+ * - stdin: the prompt is written to `promptPath` and fed to the agent on stdin
+ *
+ * Environment variables are set through `env`, so every launcher supports them.
+ */
+export function buildAgentCommand(
+    agent: AgentDefinition,
+    prompt: string,
+    promptPath: string,
+): string[] {
+    let command: string[];
+
+    switch (agent.promptMode) {
+        case "argv":
+            command = [
+                agent.command,
+                ...withPlaceholder(agent.args, PROMPT_PLACEHOLDER, prompt),
+            ];
+            break;
+        case "file":
+            writeFileSync(promptPath, prompt);
+            command = [
+                agent.command,
+                ...withPlaceholder(agent.args, PROMPT_FILE_PLACEHOLDER, promptPath),
+            ];
+            break;
+        case "stdin":
+            writeFileSync(promptPath, prompt);
+            // The script is fixed, the prompt path and agent command are passed as argv
+            command = [
+                "sh",
+                "-c",
+                'exec "$@" < "$0"',
+                promptPath,
+                agent.command,
+                ...agent.args,
+            ];
+            break;
+    }
+
+    const envAssignments = Object.entries(agent.env).map(
+        ([name, value]) => `${name}=${value}`,
+    );
+    return envAssignments.length > 0
+        ? ["env", ...envAssignments, ...command]
+        : command;
+}
+
+/**
+ * Replace the placeholder in the args, or add the value as the last argument
+ * when none of the args contains it.
+ */
+function withPlaceholder(
+    args: string[],
+    placeholder: string,
+    value: string,
+): string[] {
+    if (!args.some((arg) => arg.includes(placeholder))) {
+        return [...args, value];
+    }
+    return args.map((arg) => arg.split(placeholder).join(value));
+}
@@ -0,0 +1,22 @@
+export type PromptMode = "argv" | "stdin" | "file";
+
+export const PROMPT_MODES: PromptMode[] = ["argv", "stdin", "file"];
+
+export interface AgentDefinition {
+    name: string; // Human-readable name, recorded with every run
+    command: string; // Program to run, looked up on the PATH of the execution server
+    args: string[]; // Arguments, may contain {prompt} or {promptFile}
+    promptMode: PromptMode; // How the prompt is handed to the agent
+    env: Record<string, string>; // Extra environment variables
+}
+
+/**
+ * Agent used when a request doesn't specify one.
+ */
+export const DEFAULT_AGENT: AgentDefinition = {
+    name: "Claude",
+    command: "claude",
+    args: [],
+    promptMode: "argv",
+    env: {},
+};
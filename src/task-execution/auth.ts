@@ -0,0 +1,154 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { SERVER_CONFIG } from "./server-config";
+
+const TOKEN_QUERY_PARAMETER = "token";
+
+/**
+ * Tokens the execution server accepts, by client name. The app's own token
+ * is accepted as client "app".
+ */
+function getAcceptedTokens(): [string, string][] {
+    const tokens: [string, string][] = Object.entries(
+        SERVER_CONFIG.TASK_EXECUTION_CLIENT_TOKENS,
+    );
+    if (SERVER_CONFIG.TASK_EXECUTION_SERVER_TOKEN) {
+        tokens.push(["app", SERVER_CONFIG.TASK_EXECUTION_SERVER_TOKEN]);
+    }
+    return tokens.filter(([, token]) => token);
+}
+
+/**
+ * Compare tokens in constant time, hashing first so their lengths don't leak.
+ */
+function tokensMatch(a: string, b: string): boolean {
+    const hashA = createHash("sha256").update(a).digest();
+    const hashB = createHash("sha256").update(b).digest();
+    return timingSafeEqual(hashA, hashB);
+}
+
+export interface AuthOptions {
+    /**
+     * Also accept the token from the query string of GET requests, for
+     * EventSource streams which can't set headers. Tokens in URLs end up in
+     * logs and browser history, so only streams should allow this.
+     */
+    allowQueryToken?: boolean;
+}
+
+/**
+ * Token from the Authorization header, or from the query string when the
+ * route allows it.
+ */
+function getRequestToken(req: Request, options: AuthOptions): string | null {
+    const authorization = req.headers.get("Authorization");
+    if (authorization?.startsWith("Bearer ")) {
+        return authorization.slice("Bearer ".length).trim();
+    }
+    if (options.allowQueryToken && req.method === "GET") {
+        return new URL(req.url).searchParams.get(TOKEN_QUERY_PARAMETER);
+    }
+    return null;
+}
+
+/**
+ * Browsers send an Origin header with cross-origin and most same-origin requests.
+ * Requests without one (curl, the CLI) are only checked for their token.
+ */
+function isAllowedOrigin(req: Request, origin: string): boolean {
+    return (
+        origin === new URL(req.url).origin ||
+        SERVER_CONFIG.TASK_EXECUTION_ALLOWED_ORIGINS.includes(origin)
+    );
+}
+
+function withCorsHeaders(req: Request, response: Response): Response {
+    const origin = req.headers.get("Origin");
+    if (origin && isAllowedOrigin(req, origin)) {
+        response.headers.set("Access-Control-Allow-Origin", origin);
+        response.headers.set("Vary", "Origin");
+    }
+    return response;
+}
+
+/**
+ * Check the origin and token of a request to the execution server.
+ *
+ * @returns An error response, or null when the request may proceed
+ */
+export function authorizeRequest(
+    req: Request,
+    options: AuthOptions = {},
+): Response | null {
+    const origin = req.headers.get("Origin");
+    if (origin && !isAllowedOrigin(req, origin)) {
+        return Response.json(
+            { error: "Forbidden", details: `Origin not allowed: ${origin}` },
+            { status: 403 },
+        );
+    }
+
+    const acceptedTokens = getAcceptedTokens();
+    if (acceptedTokens.length === 0) {
+        return Response.json(
+            {
+                error: "Unauthorized",
+                details:
+                    "No tokens are configured on the execution server, set TASK_EXECUTION_SERVER_TOKEN in its environment.",
+            },
+            { status: 401 },
+        );
+    }
+
+    const token = getRequestToken(req, options);
+    if (!token) {
+        return Response.json(
+            { error: "Unauthorized", details: "Missing token." },
+            { status: 401 },
+        );
+    }
+    if (!acceptedTokens.some(([, accepted]) => tokensMatch(token, accepted))) {
+        return Response.json(
+            { error: "Unauthorized", details: "Invalid token." },
+            { status: 401 },
+        );
+    }
+
+    return null;
+}
+
+/**
+ * Wrap an execution server handler so it only runs for authorized requests,
+ * adding CORS headers for allowed origins to every response.
+ */
+export function withAuth<R extends Request>(
+    handler: (req: R) => Promise<Response>,
+    options: AuthOptions = {},
+): (req: R) => Promise<Response> {
+    return async (req) => {
+        const rejection = authorizeRequest(req, options);
+        return withCorsHeaders(req, rejection ?? (await handler(req)));
+    };
+}
+
+/**
+ * Answer CORS preflight requests from allowed origins. Preflights carry no
+ * token, the actual request is authorized by withAuth.
+ */
+export async function preflightHandler(req: Request): Promise<Response> {
+    const origin = req.headers.get("Origin");
+    if (!origin || !isAllowedOrigin(req, origin)) {
+        return new Response(null, { status: 403 });
+    }
+
+    return withCorsHeaders(
+        req,
+        new Response(null, {
+            status: 204,
+            headers: {
+                "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+                "Access-Control-Allow-Headers": "Authorization, Content-Type",
+                "Access-Control-Max-Age": "600",
+            },
+        }),
+    );
+}
@@ -0,0 +1,37 @@
+import { getProductHierarchyForTask } from "src/entities/products/product-service";
+import type { ContextPreset } from "src/entities/products/types";
+import { getTaskExecutionSettings } from "./task-execution-context-storage";
+
+export interface AvailableContextPreset extends ContextPreset {
+    productTitle: string; // Product that defines the preset
+}
+
+/**
+ * Context presets a task can pick: those of its product and of every
+ * product above it, from the root down.
+ */
+export async function getAvailableContextPresets(
+    taskId: string,
+): Promise<AvailableContextPreset[]> {
+    const hierarchy = await getProductHierarchyForTask(taskId);
+    return hierarchy.flatMap((product) =>
+        (product.contextPresets ?? []).map((preset) => ({
+            ...preset,
+            productTitle: product.title,
+        })),
+    );
+}
+
+/**
+ * The context a task is executed with: its own entries followed by the
+ * current paths of the presets it picked, without duplicates. Presets that
+ * were deleted since are skipped, see getTaskExecutionSettings.
+ */
+export async function resolveTaskContext(
+    taskId: string,
+    context: string[],
+): Promise<string[]> {
+    const { contextPresets } = await getTaskExecutionSettings(taskId);
+    const paths = contextPresets.value.flatMap((preset) => preset.paths);
+    return [...new Set([...context, ...paths])];
+}
@@ -0,0 +1,95 @@
+import type { Task } from "src/entities/tasks/types";
+import { loadTasks } from "src/entities/tasks/task-file-storage";
+import { loadWorkstreams } from "src/entities/workstreams/workstream-file-storage";
+import { getTaskExecutionContext } from "./task-execution-context-storage";
+import { suggestContextFiles } from "./task-execution-api";
+
+export interface ContextSuggestion {
+    path: string; // Relative to the working directory
+    reason: "sibling" | "content";
+    // Titles of the sibling tasks using the path, or the words it matched
+    details: string[];
+}
+
+const CONTENT_SUGGESTION_LIMIT = 10;
+const SIBLING_SUGGESTION_LIMIT = 10;
+
+/**
+ * Context entries of the other tasks in the task's workstreams that use the
+ * same working directory, most shared first.
+ */
+async function suggestFromSiblings(
+    task: Task,
+    workingDirectory: string,
+): Promise<ContextSuggestion[]> {
+    const [workstreams, tasks] = await Promise.all([
+        loadWorkstreams(),
+        loadTasks(),
+    ]);
+    const taskTitles = new Map(tasks.map((t) => [t.uuid, t.title]));
+    const siblingIds = new Set(
+        workstreams
+            .filter((ws) => ws.tasks.includes(task.uuid))
+            .flatMap((ws) => ws.tasks),
+    );
+    siblingIds.delete(task.uuid);
+
+    const usedBy = new Map<string, string[]>();
+    for (const siblingId of siblingIds) {
+        const executionContext = await getTaskExecutionContext(siblingId);
+        if (executionContext?.workingDirectory !== workingDirectory) {
+            continue;
+        }
+        for (const path of executionContext.context) {
+            usedBy.set(path, [
+                ...(usedBy.get(path) ?? []),
+                taskTitles.get(siblingId) ?? siblingId,
+            ]);
+        }
+    }
+
+    return [...usedBy.entries()]
+        .sort((a, b) => b[1].length - a[1].length)
+        .slice(0, SIBLING_SUGGESTION_LIMIT)
+        .map(([path, titles]) => ({
+            path,
+            reason: "sibling",
+            details: titles,
+        }));
+}
+
+/**
+ * Files that could go into a task's context: the ones its sibling tasks in
+ * the same workstream use, then the files whose paths and contents best
+ * match the task's title and description.
+ */
+export async function suggestContextForTask(
+    task: Task,
+    workingDirectory: string,
+): Promise<ContextSuggestion[]> {
+    const [siblingSuggestions, fileSuggestions] = await Promise.all([
+        suggestFromSiblings(task, workingDirectory),
+        suggestContextFiles(
+            workingDirectory,
+            `${task.title}\n${task.description}`,
+            CONTENT_SUGGESTION_LIMIT,
+        ),
+    ]);
+
+    const seen = new Set<string>();
+    const suggestions: ContextSuggestion[] = [];
+    for (const suggestion of [
+        ...siblingSuggestions,
+        ...fileSuggestions.map((file): ContextSuggestion => ({
+            path: file.path,
+            reason: "content",
+            details: file.terms,
+        })),
+    ]) {
+        if (!seen.has(suggestion.path)) {
+            seen.add(suggestion.path);
+            suggestions.push(suggestion);
+        }
+    }
+    return suggestions;
+}
@@ -0,0 +1,22 @@
+const STORAGE_KEY = "taskExecutionServerToken";
+
+/**
+ * Token sent to the execution server. In the browser it is entered in the
+ * settings and kept in localStorage, never in the bundle, which the server
+ * hands out without a token. Scripts running in Bun, like the CLI, take it
+ * from SOLTRA_TOKEN.
+ */
+export function getExecutionServerToken(): string {
+    if (typeof localStorage !== "undefined") {
+        return localStorage.getItem(STORAGE_KEY) ?? "";
+    }
+    return process.env.SOLTRA_TOKEN ?? "";
+}
+
+export function setExecutionServerToken(token: string): void {
+    if (token) {
+        localStorage.setItem(STORAGE_KEY, token);
+    } else {
+        localStorage.removeItem(STORAGE_KEY);
+    }
+}
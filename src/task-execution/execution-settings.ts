@@ -0,0 +1,188 @@
+import type { ContextPreset, Product } from "src/entities/products/types";
+import type { MergeMode } from "./worktrees/types";
+
+/**
+ * Where an effective execution setting comes from: the task itself, a product
+ * in its hierarchy, or the built-in default.
+ */
+export type SettingSource =
+    | { level: "task" }
+    | { level: "product"; productId: string; productTitle: string }
+    | { level: "default" };
+
+export interface ResolvedSetting<T> {
+    value: T;
+    source: SettingSource;
+}
+
+export interface ExecutionSettings {
+    workingDirectory: ResolvedSetting<string | null>;
+    async: ResolvedSetting<boolean>;
+    agentId: ResolvedSetting<string | undefined>; // Undefined means the default agent
+    promptTemplateId: ResolvedSetting<string | undefined>; // Undefined means the default template
+    baseBranch: ResolvedSetting<string | undefined>; // Undefined means the checked out branch
+    mergeMode: ResolvedSetting<MergeMode>;
+    context: ResolvedSetting<string[]>;
+    contextPresets: ResolvedSetting<ContextPreset[]>; // Presets the task picked that still exist
+    verificationCommands: ResolvedSetting<string[]>; // Command lines, see verification-service
+}
+
+/**
+ * Settings a task may set for itself, anything left out is inherited.
+ */
+export interface OwnExecutionSettings {
+    workingDirectory?: string;
+    async?: boolean;
+    agentId?: string;
+    promptTemplateId?: string;
+    context?: string[];
+    contextPresetIds?: string[];
+}
+
+const TASK: SettingSource = { level: "task" };
+const DEFAULT: SettingSource = { level: "default" };
+
+/**
+ * The value of the nearest product that has one.
+ *
+ * @param nearestFirst Product hierarchy of the task, its own product first
+ */
+function fromProducts<T>(
+    nearestFirst: Product[],
+    pick: (product: Product) => T | undefined,
+): ResolvedSetting<T> | undefined {
+    for (const product of nearestFirst) {
+        const value = pick(product);
+        if (value !== undefined) {
+            return {
+                value,
+                source: {
+                    level: "product",
+                    productId: product.uuid,
+                    productTitle: product.title,
+                },
+            };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * The first candidate that is set, else the default.
+ */
+function firstSet<T>(
+    defaultValue: T,
+    ...candidates: (ResolvedSetting<T> | undefined)[]
+): ResolvedSetting<T> {
+    return (
+        candidates.find((candidate) => candidate !== undefined) ?? {
+            value: defaultValue,
+            source: DEFAULT,
+        }
+    );
+}
+
+function fromTask<T>(value: T | undefined): ResolvedSetting<T> | undefined {
+    return value !== undefined ? { value, source: TASK } : undefined;
+}
+
+/**
+ * Resolve the effective execution settings of a task by walking its product
+ * hierarchy from its own product up to the root. Settings the task picked
+ * itself win, except for the working directory: products own the code, so
+ * their directory wins and the task's is only used outside of one.
+ *
+ * @param hierarchy Product hierarchy of the task, from the root down
+ */
+export function resolveExecutionSettings(
+    own: OwnExecutionSettings | undefined,
+    hierarchy: Product[],
+): ExecutionSettings {
+    const nearestFirst = [...hierarchy].reverse();
+
+    return {
+        workingDirectory: firstSet<string | null>(
+            null,
+            fromProducts(nearestFirst, (p) => p.workingDirectory || undefined),
+            fromTask(own?.workingDirectory || undefined),
+        ),
+        async: firstSet(
+            false,
+            fromTask(own?.async),
+            fromProducts(nearestFirst, (p) => p.async),
+        ),
+        agentId: firstSet<string | undefined>(
+            undefined,
+            fromTask(own?.agentId),
+            fromProducts(nearestFirst, (p) => p.agentId),
+        ),
+        promptTemplateId: firstSet<string | undefined>(
+            undefined,
+            fromTask(own?.promptTemplateId),
+            fromProducts(nearestFirst, (p) => p.promptTemplateId),
+        ),
+        baseBranch: firstSet<string | undefined>(
+            undefined,
+            fromProducts(nearestFirst, (p) => p.baseBranch),
+        ),
+        mergeMode: firstSet<MergeMode>(
+            "merge",
+            fromProducts(nearestFirst, (p) => p.mergeMode),
+        ),
+        // A task with no context entries of its own starts from the product's
+        context: firstSet<string[]>(
+            [],
+            fromTask(own?.context?.length ? own.context : undefined),
+            fromProducts(nearestFirst, (p) =>
+                p.defaultContext?.length ? p.defaultContext : undefined,
+            ),
+        ),
+        // Presets are looked up by id, so the task follows changes to them
+        contextPresets: firstSet<ContextPreset[]>(
+            [],
+            fromTask(
+                own?.contextPresetIds?.length
+                    ? findContextPresets(own.contextPresetIds, hierarchy)
+                    : undefined,
+            ),
+        ),
+        verificationCommands: firstSet<string[]>(
+            [],
+            fromProducts(nearestFirst, (p) =>
+                p.verificationCommands?.length
+                    ? p.verificationCommands
+                    : undefined,
+            ),
+        ),
+    };
+}
+
+/**
+ * The presets with the given ids defined by any product in the hierarchy.
+ * Ids of deleted presets are skipped.
+ */
+function findContextPresets(
+    presetIds: string[],
+    hierarchy: Product[],
+): ContextPreset[] {
+    const presets = hierarchy.flatMap(
+        (product) => product.contextPresets ?? [],
+    );
+    return presetIds.flatMap(
+        (presetId) => presets.find((preset) => preset.id === presetId) ?? [],
+    );
+}
+
+/**
+ * Short label for where a setting comes from, e.g. "Product: Soltra".
+ */
+export function describeSettingSource(source: SettingSource): string {
+    switch (source.level) {
+        case "task":
+            return "Task";
+        case "product":
+            return `Product: ${source.productTitle}`;
+        case "default":
+            return "Default";
+    }
+}
@@ -0,0 +1,221 @@
+import { join } from "node:path";
+import { runGit } from "../worktrees/git";
+import { collectEntries } from "./file-listing";
+
+export interface FileSuggestion {
+    path: string; // Relative to the working directory
+    score: number;
+    terms: string[]; // Query terms the file matched, best first
+}
+
+interface IndexedFile {
+    path: string;
+    pathTerms: Set<string>;
+    termCounts: Map<string, number>;
+    length: number; // Terms in the content
+}
+
+interface FileIndex {
+    key: string; // Changes when the files may have changed
+    files: IndexedFile[];
+    documentFrequencies: Map<string, number>; // Files each term occurs in, path or content
+    averageLength: number;
+    createdAt: number;
+}
+
+// Limits so large repositories stay quick to index
+const MAX_FILES = 5000;
+const MAX_FILE_BYTES = 64 * 1024;
+const MAX_TOTAL_BYTES = 32 * 1024 * 1024;
+const MAX_DEPTH = 50;
+// Indexes are rebuilt after this long even without a new commit, for uncommitted edits
+const INDEX_TTL_MS = 5 * 60 * 1000;
+const MAX_INDEXES = 10;
+
+// BM25 parameters, the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+// A query term in the path says more than one somewhere in the content
+const PATH_WEIGHT = 2;
+
+const STOP_WORDS = new Set([
+    "the", "and", "for", "with", "that", "this", "from", "into", "when", "then",
+    "are", "was", "were", "will", "should", "can", "not", "all", "any", "add",
+    "use", "new", "make", "get", "set", "have", "has", "our", "your", "its",
+    "also", "only", "but", "per", "via", "out", "them", "they", "there", "which",
+    "what", "want", "need", "let", "each", "more", "some", "one", "two",
+]);
+
+// Lowercase file extensions that are worth reading as text
+const BINARY_EXTENSIONS = new Set([
+    "png", "jpg", "jpeg", "gif", "webp", "ico", "pdf", "zip", "gz", "tar",
+    "woff", "woff2", "ttf", "otf", "mp3", "mp4", "mov", "wasm", "lock",
+]);
+
+/**
+ * Indexes by working directory, so repeated suggestions don't read every file again.
+ */
+const indexes = new Map<string, FileIndex>();
+
+/**
+ * Split text into lowercase terms: camelCase, snake_case and kebab-case words
+ * are split up, short words and stop words are dropped.
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .map(stem)
+        .filter((term) => term.length >= 3 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Crude suffix stripping so "tasks", "task" and "tasking" match each other.
+ */
+function stem(term: string): string {
+    if (term.length > 5 && term.endsWith("ing")) return term.slice(0, -3);
+    if (term.length > 4 && term.endsWith("ies")) return `${term.slice(0, -3)}y`;
+    if (term.length > 4 && term.endsWith("es") && !term.endsWith("ses")) return term.slice(0, -2);
+    if (term.length > 3 && term.endsWith("s") && !term.endsWith("ss")) return term.slice(0, -1);
+    return term;
+}
+
+function isTextCandidate(path: string): boolean {
+    const extension = path.split(".").pop()?.toLowerCase() ?? "";
+    return !BINARY_EXTENSIONS.has(extension);
+}
+
+async function buildIndex(workingDirectory: string, key: string): Promise<FileIndex> {
+    const { entries } = await collectEntries(workingDirectory, workingDirectory, MAX_DEPTH);
+    const files: IndexedFile[] = [];
+    const documentFrequencies = new Map<string, number>();
+    let totalBytes = 0;
+    let totalLength = 0;
+
+    for (const entry of entries) {
+        if (entry.kind !== "file" || files.length >= MAX_FILES) {
+            continue;
+        }
+
+        let content = "";
+        if (isTextCandidate(entry.relativePath) && totalBytes < MAX_TOTAL_BYTES) {
+            const bytes = new Uint8Array(
+                await Bun.file(join(workingDirectory, entry.relativePath))
+                    .slice(0, MAX_FILE_BYTES)
+                    .arrayBuffer()
+                    .catch(() => new ArrayBuffer(0)),
+            );
+            totalBytes += bytes.length;
+            // Skip binary files, like git does
+            if (!bytes.includes(0)) {
+                content = new TextDecoder().decode(bytes);
+            }
+        }
+
+        const termCounts = new Map<string, number>();
+        const contentTerms = tokenize(content);
+        for (const term of contentTerms) {
+            termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+        }
+        const pathTerms = new Set(tokenize(entry.relativePath));
+        for (const term of new Set([...pathTerms, ...termCounts.keys()])) {
+            documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+        }
+
+        files.push({
+            path: entry.relativePath,
+            pathTerms,
+            termCounts,
+            length: contentTerms.length,
+        });
+        totalLength += contentTerms.length;
+    }
+
+    console.log(`Indexed ${files.length} files of ${workingDirectory} for context suggestions`);
+    return {
+        key,
+        files,
+        documentFrequencies,
+        averageLength: files.length > 0 ? totalLength / files.length : 0,
+        createdAt: Date.now(),
+    };
+}
+
+/**
+ * The index of a working directory, rebuilt when its checked out commit
+ * changed or it got too old.
+ */
+async function getIndex(workingDirectory: string): Promise<FileIndex> {
+    const head = (await runGit(workingDirectory, ["rev-parse", "HEAD"]))?.trim() ?? "";
+    const cached = indexes.get(workingDirectory);
+    if (cached && cached.key === head && Date.now() - cached.createdAt < INDEX_TTL_MS) {
+        return cached;
+    }
+
+    const index = await buildIndex(workingDirectory, head);
+    indexes.delete(workingDirectory);
+    indexes.set(workingDirectory, index);
+    // Maps keep insertion order, so the first one is the oldest
+    if (indexes.size > MAX_INDEXES) {
+        indexes.delete(indexes.keys().next().value!);
+    }
+    return index;
+}
+
+/**
+ * Rank the files of a working directory by how relevant they are to a text,
+ * e.g. a task's title and description. Terms are weighted with BM25, a
+ * TF-IDF variant, over file contents, and matches in the path count extra.
+ * Everything stays local, nothing is sent over the network.
+ *
+ * @param workingDirectory Absolute path of the working directory
+ */
+export async function suggestContextFiles(
+    workingDirectory: string,
+    text: string,
+    limit: number,
+): Promise<FileSuggestion[]> {
+    const queryTerms = [...new Set(tokenize(text))];
+    if (queryTerms.length === 0) {
+        return [];
+    }
+
+    const index = await getIndex(workingDirectory);
+    const fileCount = index.files.length;
+    const idf = new Map(
+        queryTerms.map((term) => {
+            const frequency = index.documentFrequencies.get(term) ?? 0;
+            return [term, Math.log(1 + (fileCount - frequency + 0.5) / (frequency + 0.5))];
+        }),
+    );
+
+    const suggestions: FileSuggestion[] = [];
+    for (const file of index.files) {
+        const termScores: [string, number][] = [];
+        for (const term of queryTerms) {
+            const count = file.termCounts.get(term) ?? 0;
+            const lengthRatio = index.averageLength > 0 ? file.length / index.averageLength : 1;
+            const contentScore =
+                count > 0 ? (count * (K1 + 1)) / (count + K1 * (1 - B + B * lengthRatio)) : 0;
+            const pathScore = file.pathTerms.has(term) ? PATH_WEIGHT : 0;
+            const score = idf.get(term)! * (contentScore + pathScore);
+            if (score > 0) {
+                termScores.push([term, score]);
+            }
+        }
+        if (termScores.length === 0) {
+            continue;
+        }
+
+        termScores.sort((a, b) => b[1] - a[1]);
+        suggestions.push({
+            path: file.path,
+            score: termScores.reduce((sum, [, score]) => sum + score, 0),
+            terms: termScores.map(([term]) => term),
+        });
+    }
+
+    return suggestions.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,185 @@
+import { readdirSync } from "node:fs";
+import { join, relative, sep } from "node:path";
+import { execGit, runGit } from "../worktrees/git";
+
+export interface FileEntry {
+    name: string;
+    kind: "file" | "directory";
+    relativePath: string; // Relative to the working directory, with forward slashes
+}
+
+export interface FileListingOptions {
+    depth: number; // 1 lists the direct children of the folder only
+    offset: number;
+    limit: number;
+    query?: string; // Only entries whose relative path contains it, case-insensitive
+}
+
+export interface FileListing {
+    entries: FileEntry[];
+    total: number; // Entries matching before pagination
+    nextOffset: number | null; // Offset of the next page, null on the last page
+    gitignore: boolean; // Whether git's rules picked the files, false outside repositories
+}
+
+// Skipped when listing a folder that isn't in a git repository
+const IGNORED_NAMES = new Set(["node_modules"]);
+
+/**
+ * Whether the folder is inside a git work tree.
+ */
+async function isInGitRepository(folder: string): Promise<boolean> {
+    const result = await runGit(folder, ["rev-parse", "--is-inside-work-tree"]);
+    return result?.trim() === "true";
+}
+
+/**
+ * Files git would consider part of the folder: tracked files that still exist
+ * plus untracked files that aren't ignored, relative to the folder.
+ */
+async function listGitFiles(folder: string): Promise<string[] | null> {
+    const [files, deleted] = await Promise.all([
+        execGit(folder, ["ls-files", "-z", "--cached", "--others", "--exclude-standard"]),
+        execGit(folder, ["ls-files", "-z", "--deleted"]),
+    ]);
+    if (files.exitCode !== 0) {
+        return null;
+    }
+    const deletedFiles = new Set(deleted.stdout.split("\0").filter(Boolean));
+    return [...new Set(files.stdout.split("\0"))].filter(
+        (file) => file && !deletedFiles.has(file),
+    );
+}
+
+/**
+ * Entries of the folder down to `depth` levels, derived from the files git
+ * lists. Folders that only hold ignored files don't show up at all.
+ */
+function entriesFromFiles(
+    files: string[],
+    prefix: string,
+    depth: number,
+): FileEntry[] {
+    const entries = new Map<string, FileEntry>();
+    for (const file of files) {
+        // Nested repositories are listed as "<folder>/"
+        const isFolder = file.endsWith("/");
+        const parts = file.split("/").filter(Boolean);
+        const folderCount = isFolder ? parts.length : parts.length - 1;
+
+        for (let i = 1; i <= Math.min(folderCount, depth); i++) {
+            const relativePath = prefix + parts.slice(0, i).join("/");
+            if (!entries.has(relativePath)) {
+                entries.set(relativePath, {
+                    name: parts[i - 1]!,
+                    kind: "directory",
+                    relativePath,
+                });
+            }
+        }
+        if (!isFolder && parts.length <= depth) {
+            const relativePath = prefix + parts.join("/");
+            entries.set(relativePath, {
+                name: parts[parts.length - 1]!,
+                kind: "file",
+                relativePath,
+            });
+        }
+    }
+    return [...entries.values()];
+}
+
+/**
+ * Walk a folder outside of git, skipping hidden files and node_modules.
+ */
+function walkFolder(
+    folder: string,
+    prefix: string,
+    depth: number,
+    entries: FileEntry[] = [],
+): FileEntry[] {
+    let children;
+    try {
+        children = readdirSync(folder, { withFileTypes: true });
+    } catch {
+        return entries;
+    }
+    for (const child of children) {
+        if (child.name.startsWith(".") || IGNORED_NAMES.has(child.name)) {
+            continue;
+        }
+        const relativePath = `${prefix}${child.name}`;
+        if (child.isDirectory()) {
+            entries.push({ name: child.name, kind: "directory", relativePath });
+            if (depth > 1) {
+                walkFolder(join(folder, child.name), `${relativePath}/`, depth - 1, entries);
+            }
+        } else if (child.isFile()) {
+            entries.push({ name: child.name, kind: "file", relativePath });
+        }
+    }
+    return entries;
+}
+
+/**
+ * Files and folders of a folder inside a working directory down to `depth`
+ * levels, unsorted. Inside git repositories only tracked files and untracked
+ * files that aren't ignored are collected, so build output and dependencies
+ * stay out.
+ *
+ * @param workingDirectory Absolute path of the working directory
+ * @param folder Absolute path of the folder, inside the working directory
+ */
+export async function collectEntries(
+    workingDirectory: string,
+    folder: string,
+    depth: number,
+): Promise<{ entries: FileEntry[]; gitignore: boolean }> {
+    const folderPath = relative(workingDirectory, folder).split(sep).join("/");
+    const prefix = folderPath ? `${folderPath}/` : "";
+
+    if (await isInGitRepository(folder)) {
+        const files = await listGitFiles(folder);
+        if (files) {
+            return { entries: entriesFromFiles(files, prefix, depth), gitignore: true };
+        }
+    }
+    return { entries: walkFolder(folder, prefix, depth), gitignore: false };
+}
+
+/**
+ * List the files and folders of a folder inside a working directory, sorted
+ * by path, a page at a time. See collectEntries for which files are listed.
+ *
+ * @param workingDirectory Absolute path of the working directory
+ * @param folder Absolute path of the folder to list, inside the working directory
+ */
+export async function listFiles(
+    workingDirectory: string,
+    folder: string,
+    options: FileListingOptions,
+): Promise<FileListing> {
+    const collected = await collectEntries(workingDirectory, folder, options.depth);
+    let entries = collected.entries;
+
+    if (options.query) {
+        const query = options.query.toLowerCase();
+        entries = entries.filter((entry) =>
+            entry.relativePath.toLowerCase().includes(query),
+        );
+    }
+    entries.sort((a, b) =>
+        a.relativePath.localeCompare(b.relativePath, undefined, {
+            numeric: true,
+            sensitivity: "base",
+        }),
+    );
+
+    const end = options.offset + options.limit;
+    return {
+        entries: entries.slice(options.offset, end),
+        total: entries.length,
+        nextOffset: end < entries.length ? end : null,
+        gitignore: collected.gitignore,
+    };
+}
@@ -0,0 +1,129 @@
+import { statSync } from "node:fs";
+import { join } from "node:path";
+import { collectEntries } from "./file-listing";
+
+export interface FilePreview {
+    size: number; // Bytes
+    tokens: number; // Rough estimate for the whole file, 0 for binary files
+    binary: boolean;
+    content: string; // Start of the file, empty for binary files
+    lines: number; // Lines of the whole file, or of the part that was read for very large files
+    truncated: boolean; // Whether content stops before the end of the file
+}
+
+export interface ContextEntryStats {
+    path: string; // As requested, relative to the working directory
+    kind: "file" | "directory";
+    size: number; // Bytes, summed over the files of a directory
+    tokens: number;
+    files: number; // 1 for a file, the files git doesn't ignore for a directory
+}
+
+// Common rule of thumb for source code and English text
+const BYTES_PER_TOKEN = 4;
+// Files are only read this far, the token estimate uses the full size anyway
+const MAX_READ_BYTES = 1024 * 1024;
+const BINARY_SNIFF_BYTES = 8000;
+// Deep enough for any real project when summing up a directory
+const MAX_DIRECTORY_DEPTH = 50;
+
+export function estimateTokens(bytes: number): number {
+    return Math.ceil(bytes / BYTES_PER_TOKEN);
+}
+
+/**
+ * Files with NUL bytes near the start are treated as binary, like git does.
+ */
+function isBinary(bytes: Uint8Array): boolean {
+    return bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/**
+ * Where to cut a preview of `maxLines` lines so it doesn't stop in the middle
+ * of a block: before the last blank line or top-level statement in the final
+ * quarter of the preview, falling back to a hard cut.
+ *
+ * @returns Number of lines to keep
+ */
+function findCutLine(lines: string[], maxLines: number): number {
+    for (let i = maxLines; i > maxLines * 0.75; i--) {
+        const line = lines[i]!;
+        // Closing brackets end the previous block, they don't start a new one
+        const startsStatement = /^\S/.test(line) && !/^[)\]}]/.test(line);
+        if (line.trim() === "" || startsStatement) {
+            return i;
+        }
+    }
+    return maxLines;
+}
+
+/**
+ * Read the start of a file for previewing, up to `maxLines` lines.
+ *
+ * @param path Absolute path of the file
+ */
+export async function getFilePreview(
+    path: string,
+    maxLines: number,
+): Promise<FilePreview> {
+    const file = Bun.file(path);
+    const size = file.size;
+    const bytes = new Uint8Array(
+        await file.slice(0, MAX_READ_BYTES).arrayBuffer(),
+    );
+
+    if (isBinary(bytes)) {
+        return { size, tokens: 0, binary: true, content: "", lines: 0, truncated: size > 0 };
+    }
+
+    const lines = new TextDecoder().decode(bytes).split("\n");
+    const keptLines =
+        lines.length > maxLines ? findCutLine(lines, maxLines) : lines.length;
+    return {
+        size,
+        tokens: estimateTokens(size),
+        binary: false,
+        content: lines.slice(0, keptLines).join("\n"),
+        lines: lines.length,
+        truncated: keptLines < lines.length || size > MAX_READ_BYTES,
+    };
+}
+
+/**
+ * Size and token estimate of a context entry. Directories count every file
+ * in them that git doesn't ignore, binary files included.
+ *
+ * @param workingDirectory Absolute path of the working directory
+ * @param path Entry relative to the working directory, as requested
+ * @param absolutePath Absolute path of the entry, inside the working directory
+ */
+export async function getContextEntryStats(
+    workingDirectory: string,
+    path: string,
+    absolutePath: string,
+): Promise<ContextEntryStats> {
+    const stats = statSync(absolutePath);
+    if (!stats.isDirectory()) {
+        return { path, kind: "file", size: stats.size, tokens: estimateTokens(stats.size), files: 1 };
+    }
+
+    const { entries } = await collectEntries(
+        workingDirectory,
+        absolutePath,
+        MAX_DIRECTORY_DEPTH,
+    );
+    let size = 0;
+    let files = 0;
+    for (const entry of entries) {
+        if (entry.kind !== "file") {
+            continue;
+        }
+        try {
+            size += statSync(join(workingDirectory, entry.relativePath)).size;
+            files++;
+        } catch {
+            // Removed since it was listed
+        }
+    }
+    return { path, kind: "directory", size, tokens: estimateTokens(size), files };
+}
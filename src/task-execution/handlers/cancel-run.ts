@@ -0,0 +1,34 @@
+import { getRun } from "../runs/run-registry";
+import { cancelRun } from "../runs/run-service";
+
+/**
+ * Handler for the POST /runs/:id/cancel endpoint
+ * Stops the agent of a running run or takes a queued run out of the queue
+ */
+export async function cancelRunHandler(
+    req: Request,
+    runId: string,
+): Promise<Response> {
+    if (!getRun(runId)) {
+        return Response.json(
+            { error: `Run not found: ${runId}` },
+            { status: 404 }
+        );
+    }
+
+    try {
+        const run = await cancelRun(runId);
+        return Response.json({
+            message: "Run cancelled",
+            run,
+        });
+    } catch (error) {
+        return Response.json(
+            {
+                error: "Failed to cancel run",
+                details: error instanceof Error ? error.message : String(error),
+            },
+            { status: 500 }
+        );
+    }
+}
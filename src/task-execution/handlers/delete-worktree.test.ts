@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, rmSync, symlinkSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CONFIG } from "@/config";
+import { deleteWorktreeHandler } from "./delete-worktree";
+
+const originalRootCodeDir = CONFIG.ROOT_CODE_DIR;
+let testDir: string;
+let codeDir: string;
+let outsideDir: string;
+
+function deleteWorktree(
+    worktree: string,
+    body: Record<string, unknown>,
+): Promise<Response> {
+    return deleteWorktreeHandler(
+        new Request(`http://localhost/worktree/${encodeURIComponent(worktree)}`, {
+            method: "DELETE",
+            body: JSON.stringify(body),
+        }),
+        worktree,
+    );
+}
+
+async function expectRejected(
+    worktree: string,
+    body: Record<string, unknown>,
+    error: string,
+): Promise<void> {
+    const response = await deleteWorktree(worktree, { force: true, ...body });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe(error);
+    // Nothing outside the code directory may be touched
+    expect(existsSync(join(outsideDir, "keep"))).toBe(true);
+}
+
+function git(...args: string[]): void {
+    const result = Bun.spawnSync(["git", ...args], {
+        cwd: join(codeDir, "repo"),
+        env: {
+            ...process.env,
+            GIT_AUTHOR_NAME: "Test",
+            GIT_AUTHOR_EMAIL: "test@example.com",
+            GIT_COMMITTER_NAME: "Test",
+            GIT_COMMITTER_EMAIL: "test@example.com",
+        },
+    });
+    if (result.exitCode !== 0) {
+        throw new Error(`git ${args.join(" ")} failed: ${result.stderr.toString()}`);
+    }
+}
+
+beforeAll(() => {
+    testDir = mkdtempSync(join(tmpdir(), "delete-worktree-"));
+    codeDir = join(testDir, "code");
+    outsideDir = join(testDir, "outside");
+    mkdirSync(join(codeDir, "repo"), { recursive: true });
+    mkdirSync(join(codeDir, "repo-worktrees"));
+    mkdirSync(join(outsideDir, "keep"), { recursive: true });
+    symlinkSync(outsideDir, join(codeDir, "escape"));
+    symlinkSync(outsideDir, join(codeDir, "repo-worktrees", "escape"));
+
+    git("init", "--quiet");
+    git("commit", "--quiet", "--allow-empty", "-m", "Initial commit");
+    git("worktree", "add", "--quiet", "-b", "wt", join(codeDir, "repo-worktrees", "wt"));
+
+    CONFIG.ROOT_CODE_DIR = codeDir;
+});
+
+afterAll(() => {
+    CONFIG.ROOT_CODE_DIR = originalRootCodeDir;
+    rmSync(testDir, { recursive: true, force: true });
+});
+
+describe("deleteWorktreeHandler", () => {
+    test("rejects working directories outside ROOT_CODE_DIR", async () => {
+        for (const workingDirectory of ["../outside", "repo/../../outside", "..", ".", ""]) {
+            await expectRejected("keep", { workingDirectory }, "Invalid working directory");
+        }
+    });
+
+    test("rejects absolute working directories outside ROOT_CODE_DIR", async () => {
+        await expectRejected("keep", { workingDirectory: outsideDir }, "Invalid working directory");
+        await expectRejected("keep", { workingDirectory: "/" }, "Invalid working directory");
+    });
+
+    test("rejects symlinks that point out of ROOT_CODE_DIR", async () => {
+        await expectRejected("keep", { workingDirectory: "escape" }, "Invalid working directory");
+        await expectRejected("escape", { workingDirectory: "repo" }, "Invalid worktree");
+    });
+
+    test("rejects invalid worktree names", async () => {
+        for (const worktree of [
+            "..",
+            "../outside",
+            "../../outside/keep",
+            "wt/..",
+            "/tmp",
+            ".git",
+            "-rf",
+            "a..b",
+            "a b",
+            "$(touch pwned)",
+            "",
+        ]) {
+            await expectRejected(worktree, { workingDirectory: "repo" }, "Invalid worktree");
+        }
+    });
+
+    test("rejects NUL bytes", async () => {
+        await expectRejected("wt", { workingDirectory: "repo\0/../.." }, "Invalid working directory");
+        await expectRejected("wt\0", { workingDirectory: "repo" }, "Invalid worktree");
+        expect(existsSync(join(codeDir, "repo-worktrees", "wt"))).toBe(true);
+    });
+
+    test("removes a worktree inside ROOT_CODE_DIR", async () => {
+        const response = await deleteWorktree("wt", { workingDirectory: "repo" });
+
+        expect(response.status).toBe(200);
+        expect(existsSync(join(codeDir, "repo-worktrees", "wt"))).toBe(false);
+        expect(existsSync(join(outsideDir, "keep"))).toBe(true);
+    });
+});
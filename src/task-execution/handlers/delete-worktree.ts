@@ -1,15 +1,19 @@
 import { spawn } from "bun";
 import { existsSync } from "node:fs";
-import { resolve, join } from "node:path";
-import { CONFIG } from "@/config";
+import { join } from "node:path";
+import { resolveWorkingDirectory, resolveWorktreeDirectory } from "../paths";
 
 export interface DeleteWorktreeRequest {
     workingDirectory: string;
+    force?: boolean; // Discard uncommitted changes and remove folders git no longer knows about
 }
 
 /**
  * Handler for the DELETE /worktree/:worktree endpoint
  * Removes a git worktree
+ *
+ * The worktree must be a plain directory name and both directories must
+ * resolve inside ROOT_CODE_DIR, anything else is rejected with a 400.
  */
 export async function deleteWorktreeHandler(
     req: Request,
@@ -26,29 +30,27 @@ export async function deleteWorktreeHandler(
         );
     }
 
-    const { workingDirectory } = body;
+    const { workingDirectory, force } = body;
 
     // Validation
-    if (!worktree || typeof worktree !== "string") {
+    const resolvedWorkingDir = resolveWorkingDirectory(workingDirectory);
+    if ("error" in resolvedWorkingDir) {
         return Response.json(
-            { error: "Worktree name must be provided as a URL parameter." },
+            { error: "Invalid working directory", details: resolvedWorkingDir.error },
             { status: 400 }
         );
     }
 
-    if (!workingDirectory || typeof workingDirectory !== "string") {
+    const resolvedWorktreeDir = resolveWorktreeDirectory(workingDirectory, worktree);
+    if ("error" in resolvedWorktreeDir) {
         return Response.json(
-            { error: "Working directory must be provided in request body." },
+            { error: "Invalid worktree", details: resolvedWorktreeDir.error },
             { status: 400 }
         );
     }
 
-    const targetWorkingDir = resolve(CONFIG.ROOT_CODE_DIR, workingDirectory);
-    const worktreeDir = resolve(
-        CONFIG.ROOT_CODE_DIR,
-        `${workingDirectory}-worktrees`,
-        worktree
-    );
+    const targetWorkingDir = resolvedWorkingDir.path;
+    const worktreeDir = resolvedWorktreeDir.path;
 
     // Check if the working directory exists
     if (!existsSync(targetWorkingDir)) {
@@ -72,6 +74,7 @@ export async function deleteWorktreeHandler(
             removeWorktreeScript,
             targetWorkingDir,
             worktreeDir,
+            ...(force === true ? ["--force"] : []),
         ], {
             stdout: "inherit",
             stderr: "inherit",
@@ -0,0 +1,86 @@
+import { existsSync } from "node:fs";
+import { resolvePathInWorkingDirectory, resolveWorkingDirectory } from "../paths";
+import { getContextEntryStats, type ContextEntryStats } from "../files/file-preview";
+
+export interface ContextStatsRequest {
+    workingDirectory: string;
+    paths: string[]; // Context entries relative to the working directory
+}
+
+const MAX_PATHS = 500;
+
+/**
+ * Handler for the POST /files/stats endpoint
+ * Returns the size and approximate token count of every context entry and
+ * their total, so prompts can be kept within budget. Directories add up the
+ * files in them that git doesn't ignore. Entries that don't exist or can't be
+ * resolved are listed as missing instead of failing the request.
+ */
+export async function getContextStatsHandler(req: Request): Promise<Response> {
+    let body: ContextStatsRequest;
+
+    try {
+        body = await req.json();
+    } catch {
+        return Response.json(
+            { error: "Invalid JSON body" },
+            { status: 400 }
+        );
+    }
+
+    const { workingDirectory, paths } = body;
+
+    // Validation
+    const resolvedWorkingDir = resolveWorkingDirectory(workingDirectory);
+    if ("error" in resolvedWorkingDir) {
+        return Response.json(
+            { error: "Invalid working directory", details: resolvedWorkingDir.error },
+            { status: 400 }
+        );
+    }
+    if (!Array.isArray(paths) || paths.some((path) => typeof path !== "string")) {
+        return Response.json(
+            { error: "Paths must be an array of strings." },
+            { status: 400 }
+        );
+    }
+    if (paths.length > MAX_PATHS) {
+        return Response.json(
+            { error: `At most ${MAX_PATHS} paths are allowed.` },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const entries: ContextEntryStats[] = [];
+        const missing: string[] = [];
+        for (const path of paths) {
+            const resolvedPath = resolvePathInWorkingDirectory(workingDirectory, path);
+            if ("error" in resolvedPath || !existsSync(resolvedPath.path)) {
+                missing.push(path);
+                continue;
+            }
+            entries.push(
+                await getContextEntryStats(resolvedWorkingDir.path, path, resolvedPath.path)
+            );
+        }
+
+        return Response.json({
+            entries,
+            missing,
+            total: {
+                size: entries.reduce((sum, entry) => sum + entry.size, 0),
+                tokens: entries.reduce((sum, entry) => sum + entry.tokens, 0),
+                files: entries.reduce((sum, entry) => sum + entry.files, 0),
+            },
+        });
+    } catch (error) {
+        return Response.json(
+            {
+                error: "Failed to collect context stats",
+                details: error instanceof Error ? error.message : String(error),
+            },
+            { status: 500 }
+        );
+    }
+}
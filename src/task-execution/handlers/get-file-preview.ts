@@ -0,0 +1,65 @@
+import { existsSync, statSync } from "node:fs";
+import { resolvePathInWorkingDirectory } from "../paths";
+import { getFilePreview } from "../files/file-preview";
+
+const DEFAULT_MAX_LINES = 200;
+const MAX_MAX_LINES = 2000;
+
+/**
+ * Handler for the GET /file endpoint
+ * Returns the start of a file in a working directory for previewing, cut at
+ * a block boundary, with its size and an approximate token count.
+ *
+ * Query parameters:
+ * - workingDirectory: relative to ROOT_CODE_DIR (required)
+ * - path: file relative to the working directory (required)
+ * - maxLines: preview length, defaults to 200
+ */
+export async function getFilePreviewHandler(req: Request): Promise<Response> {
+    const params = new URL(req.url).searchParams;
+    const workingDirectory = params.get("workingDirectory");
+    const path = params.get("path");
+    const maxLinesParam = params.get("maxLines");
+    const maxLines = maxLinesParam ? Number(maxLinesParam) : DEFAULT_MAX_LINES;
+
+    // Validation
+    if (!path) {
+        return Response.json(
+            { error: "Path is required." },
+            { status: 400 }
+        );
+    }
+    const resolvedPath = resolvePathInWorkingDirectory(workingDirectory, path);
+    if ("error" in resolvedPath) {
+        return Response.json(
+            { error: "Invalid path", details: resolvedPath.error },
+            { status: 400 }
+        );
+    }
+    if (!Number.isInteger(maxLines) || maxLines < 1 || maxLines > MAX_MAX_LINES) {
+        return Response.json(
+            { error: `maxLines must be between 1 and ${MAX_MAX_LINES}.` },
+            { status: 400 }
+        );
+    }
+
+    if (!existsSync(resolvedPath.path) || !statSync(resolvedPath.path).isFile()) {
+        return Response.json(
+            { error: `File does not exist: ${resolvedPath.path}` },
+            { status: 404 }
+        );
+    }
+
+    try {
+        const preview = await getFilePreview(resolvedPath.path, maxLines);
+        return Response.json({ workingDirectory, path, ...preview });
+    } catch (error) {
+        return Response.json(
+            {
+                error: "Failed to read file",
+                details: error instanceof Error ? error.message : String(error),
+            },
+            { status: 500 }
+        );
+    }
+}
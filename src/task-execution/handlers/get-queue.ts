@@ -0,0 +1,22 @@
+import { CONFIG } from "@/config";
+import { getQueuedRuns } from "../runs/run-queue";
+import { listRuns } from "../runs/run-registry";
+
+/**
+ * Handler for the GET /queue endpoint
+ * Returns the running runs, the queued runs in the order they will start
+ * and the concurrency limits the queue works with
+ */
+export async function getQueueHandler(): Promise<Response> {
+    const running = listRuns().filter((run) => run.status === "running");
+    const queued = getQueuedRuns();
+
+    return Response.json({
+        running,
+        queued,
+        limits: {
+            maxConcurrentRuns: CONFIG.MAX_CONCURRENT_RUNS,
+            maxConcurrentRunsPerDirectory: CONFIG.MAX_CONCURRENT_RUNS_PER_DIRECTORY,
+        },
+    });
+}
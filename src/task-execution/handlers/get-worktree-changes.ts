@@ -0,0 +1,84 @@
+import { existsSync } from "node:fs";
+import {
+    resolveWorkingDirectory,
+    resolveWorktreeDirectory,
+    validateBranchName,
+} from "../paths";
+import { getWorktreeChanges } from "../worktrees/worktree-changes";
+
+/**
+ * Handler for the GET /worktree/:worktree/changes endpoint
+ * Returns the status, changed files, commit log and unified diff of a worktree
+ * compared to a base branch of its repository.
+ *
+ * Query parameters:
+ * - workingDirectory: repository the worktree belongs to (required)
+ * - base: branch to compare against, defaults to the branch checked out in
+ *   the working directory
+ */
+export async function getWorktreeChangesHandler(
+    req: Request,
+    worktree: string
+): Promise<Response> {
+    const params = new URL(req.url).searchParams;
+    const workingDirectory = params.get("workingDirectory");
+    const base = params.get("base") || undefined;
+
+    // Validation
+    const resolvedWorkingDir = resolveWorkingDirectory(workingDirectory);
+    if ("error" in resolvedWorkingDir) {
+        return Response.json(
+            { error: "Invalid working directory", details: resolvedWorkingDir.error },
+            { status: 400 }
+        );
+    }
+
+    const resolvedWorktreeDir = resolveWorktreeDirectory(workingDirectory, worktree);
+    if ("error" in resolvedWorktreeDir) {
+        return Response.json(
+            { error: "Invalid worktree", details: resolvedWorktreeDir.error },
+            { status: 400 }
+        );
+    }
+
+    if (base !== undefined) {
+        const branchError = validateBranchName(base);
+        if (branchError) {
+            return Response.json(
+                { error: "Invalid base branch", details: branchError },
+                { status: 400 }
+            );
+        }
+    }
+
+    if (!existsSync(resolvedWorktreeDir.path)) {
+        return Response.json(
+            { error: `Worktree does not exist: ${resolvedWorktreeDir.path}` },
+            { status: 404 }
+        );
+    }
+
+    try {
+        const changes = await getWorktreeChanges(
+            resolvedWorkingDir.path,
+            resolvedWorktreeDir.path,
+            base
+        );
+        if (typeof changes === "string") {
+            return Response.json(
+                { error: "Failed to collect worktree changes", details: changes },
+                { status: 422 }
+            );
+        }
+
+        return Response.json({ worktree, workingDirectory, ...changes });
+    } catch (error) {
+        return Response.json(
+            {
+                error: "Failed to collect worktree changes",
+                details: error instanceof Error ? error.message : String(error),
+            },
+            { status: 500 }
+        );
+    }
+}
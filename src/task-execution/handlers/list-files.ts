@@ -0,0 +1,101 @@
+import { existsSync, statSync } from "node:fs";
+import { resolvePathInWorkingDirectory, resolveWorkingDirectory } from "../paths";
+import { listFiles } from "../files/file-listing";
+
+const DEFAULT_DEPTH = 1;
+const MAX_DEPTH = 50;
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 5000;
+
+/**
+ * Parse an optional integer query parameter.
+ * @returns The value, the fallback when missing, or null when it's out of range
+ */
+function parseIntegerParam(
+    value: string | null,
+    fallback: number,
+    min: number,
+    max: number,
+): number | null {
+    if (value === null || value === "") {
+        return fallback;
+    }
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed >= min && parsed <= max
+        ? parsed
+        : null;
+}
+
+/**
+ * Handler for the GET /files endpoint
+ * Lists the files and folders of a working directory the way git sees them:
+ * tracked files and untracked files that aren't ignored. Folders outside of
+ * git repositories are walked instead, skipping hidden files and node_modules.
+ *
+ * Query parameters:
+ * - workingDirectory: directory to list, relative to ROOT_CODE_DIR (required)
+ * - path: folder inside the working directory to list, defaults to its root
+ * - depth: how many levels to list, defaults to 1 (direct children only)
+ * - offset, limit: page of the entries sorted by path, defaults to the first 500
+ * - query: only entries whose path contains it, case-insensitive
+ */
+export async function listFilesHandler(req: Request): Promise<Response> {
+    const params = new URL(req.url).searchParams;
+    const workingDirectory = params.get("workingDirectory");
+    const path = params.get("path") ?? "";
+    const query = params.get("query") || undefined;
+
+    // Validation
+    const resolvedWorkingDir = resolveWorkingDirectory(workingDirectory);
+    if ("error" in resolvedWorkingDir) {
+        return Response.json(
+            { error: "Invalid working directory", details: resolvedWorkingDir.error },
+            { status: 400 }
+        );
+    }
+    const resolvedFolder = resolvePathInWorkingDirectory(workingDirectory, path);
+    if ("error" in resolvedFolder) {
+        return Response.json(
+            { error: "Invalid path", details: resolvedFolder.error },
+            { status: 400 }
+        );
+    }
+
+    const depth = parseIntegerParam(params.get("depth"), DEFAULT_DEPTH, 1, MAX_DEPTH);
+    const offset = parseIntegerParam(params.get("offset"), 0, 0, Number.MAX_SAFE_INTEGER);
+    const limit = parseIntegerParam(params.get("limit"), DEFAULT_LIMIT, 1, MAX_LIMIT);
+    if (depth === null || offset === null || limit === null) {
+        return Response.json(
+            {
+                error: "Invalid pagination",
+                details: `Depth must be 1-${MAX_DEPTH}, offset at least 0 and limit 1-${MAX_LIMIT}.`,
+            },
+            { status: 400 }
+        );
+    }
+
+    if (!existsSync(resolvedFolder.path) || !statSync(resolvedFolder.path).isDirectory()) {
+        return Response.json(
+            { error: `Folder does not exist: ${resolvedFolder.path}` },
+            { status: 404 }
+        );
+    }
+
+    try {
+        const listing = await listFiles(resolvedWorkingDir.path, resolvedFolder.path, {
+            depth,
+            offset,
+            limit,
+            query,
+        });
+        return Response.json({ workingDirectory, path, depth, offset, limit, ...listing });
+    } catch (error) {
+        return Response.json(
+            {
+                error: "Failed to list files",
+                details: error instanceof Error ? error.message : String(error),
+            },
+            { status: 500 }
+        );
+    }
+}
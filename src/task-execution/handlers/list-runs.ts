@@ -0,0 +1,12 @@
+import { listRuns } from "../runs/run-registry";
+
+/**
+ * Handler for the GET /runs endpoint
+ * Lists runs started by this server, newest first. Accepts an optional
+ * `taskId` query parameter to only return runs of a single task.
+ */
+export async function listRunsHandler(req: Request): Promise<Response> {
+    const taskId = new URL(req.url).searchParams.get("taskId") ?? undefined;
+
+    return Response.json({ runs: listRuns(taskId) });
+}
@@ -0,0 +1,20 @@
+import { listWorktrees } from "../worktrees/worktree-inventory";
+
+/**
+ * Handler for the GET /worktrees endpoint
+ * Lists every worktree folder under ROOT_CODE_DIR with its branch, dirty state
+ * and the task of its latest run, so leftovers can be found and removed.
+ */
+export async function listWorktreesHandler(): Promise<Response> {
+    try {
+        return Response.json({ worktrees: await listWorktrees() });
+    } catch (error) {
+        return Response.json(
+            {
+                error: "Failed to list worktrees",
+                details: error instanceof Error ? error.message : String(error),
+            },
+            { status: 500 }
+        );
+    }
+}
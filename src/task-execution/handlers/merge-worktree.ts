@@ -0,0 +1,125 @@
+import { existsSync } from "node:fs";
+import {
+    resolveWorkingDirectory,
+    resolveWorktreeDirectory,
+    validateBranchName,
+} from "../paths";
+import { mergeWorktreeBranch } from "../worktrees/worktree-merge";
+import { MERGE_MODES, type MergeMode } from "../worktrees/types";
+
+export interface MergeWorktreeRequest {
+    workingDirectory: string;
+    mode: MergeMode; // merge, squash or rebase
+    base?: string; // Branch to merge into, defaults to the branch checked out in the working directory
+    message?: string; // Commit message for merge and squash commits
+}
+
+/**
+ * Handler for the POST /worktree/:worktree/merge endpoint
+ * Merges, squashes or rebases the branch of a worktree into a base branch of
+ * its working directory, locally and without a remote.
+ *
+ * Responds with 409 and the list of conflicting files when the branch doesn't
+ * apply cleanly, after rolling the merge back.
+ */
+export async function mergeWorktreeHandler(
+    req: Request,
+    worktree: string
+): Promise<Response> {
+    let body: MergeWorktreeRequest;
+
+    try {
+        body = await req.json();
+    } catch {
+        return Response.json(
+            { error: "Invalid JSON body" },
+            { status: 400 }
+        );
+    }
+
+    const { workingDirectory, mode, base, message } = body;
+
+    // Validation
+    const resolvedWorkingDir = resolveWorkingDirectory(workingDirectory);
+    if ("error" in resolvedWorkingDir) {
+        return Response.json(
+            { error: "Invalid working directory", details: resolvedWorkingDir.error },
+            { status: 400 }
+        );
+    }
+
+    const resolvedWorktreeDir = resolveWorktreeDirectory(workingDirectory, worktree);
+    if ("error" in resolvedWorktreeDir) {
+        return Response.json(
+            { error: "Invalid worktree", details: resolvedWorktreeDir.error },
+            { status: 400 }
+        );
+    }
+
+    if (!MERGE_MODES.includes(mode)) {
+        return Response.json(
+            { error: `Merge mode must be one of: ${MERGE_MODES.join(", ")}.` },
+            { status: 400 }
+        );
+    }
+
+    if (base !== undefined && base !== "") {
+        const branchError = validateBranchName(base);
+        if (branchError) {
+            return Response.json(
+                { error: "Invalid base branch", details: branchError },
+                { status: 400 }
+            );
+        }
+    }
+
+    if (message !== undefined && typeof message !== "string") {
+        return Response.json(
+            { error: "Message must be a string." },
+            { status: 400 }
+        );
+    }
+
+    if (!existsSync(resolvedWorktreeDir.path)) {
+        return Response.json(
+            { error: `Worktree does not exist: ${resolvedWorktreeDir.path}` },
+            { status: 404 }
+        );
+    }
+
+    try {
+        const result = await mergeWorktreeBranch(
+            resolvedWorkingDir.path,
+            resolvedWorktreeDir.path,
+            { mode, base: base || undefined, message }
+        );
+
+        if (result.status === "rejected") {
+            return Response.json(
+                { error: "Merge rejected", details: result.reason },
+                { status: 409 }
+            );
+        }
+        if (result.status === "conflicts") {
+            return Response.json(
+                {
+                    error: "Merge conflicts",
+                    details: `${result.conflicts.length} file(s) conflict with ${result.base}, nothing was merged.`,
+                    ...result,
+                },
+                { status: 409 }
+            );
+        }
+
+        console.log(`Merged ${result.branch} into ${result.base} (${result.mode}, ${result.commits} commits)`);
+        return Response.json({ worktree, workingDirectory, ...result });
+    } catch (error) {
+        return Response.json(
+            {
+                error: "Failed to merge worktree",
+                details: error instanceof Error ? error.message : String(error),
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,57 @@
+import { getRun } from "../runs/run-registry";
+import { restartRun } from "../runs/run-service";
+
+/**
+ * Handler for the POST /runs/:id/restart endpoint
+ * Starts the agent again with the same prompt, agent CLI, launcher and working directory,
+ * cancelling the original run if it is still queued or running.
+ * The new run goes through the queue like any other run.
+ */
+export async function restartRunHandler(
+    req: Request,
+    runId: string,
+): Promise<Response> {
+    if (!getRun(runId)) {
+        return Response.json(
+            { error: `Run not found: ${runId}` },
+            { status: 404 }
+        );
+    }
+
+    try {
+        const run = await restartRun(runId);
+
+        if (run.status === "failed") {
+            return Response.json(
+                {
+                    error: "Failed to restart run",
+                    details: run.error,
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`Run ${runId} restarted as run ${run.id}`);
+
+        return Response.json({
+            message: `${run.agent} process restarted`,
+            runId: run.id,
+            status: run.status,
+            launcher: run.launcher,
+            agent: run.agent,
+            handle: run.handle,
+            prompt: run.prompt,
+            logPath: run.logPath,
+            queuedAt: run.queuedAt,
+            startedAt: run.startedAt,
+        });
+    } catch (error) {
+        return Response.json(
+            {
+                error: "Failed to restart run",
+                details: error instanceof Error ? error.message : String(error),
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,197 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+    existsSync,
+    mkdirSync,
+    mkdtempSync,
+    readFileSync,
+    rmSync,
+    symlinkSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CONFIG } from "@/config";
+import { FINISHED_RUN_STATUSES, getRun, listRuns } from "../runs/run-registry";
+import { startScriptHandler } from "./start-script";
+
+const originalRootCodeDir = CONFIG.ROOT_CODE_DIR;
+let testDir: string;
+let codeDir: string;
+let outsideDir: string;
+
+function startScript(body: Record<string, unknown>): Promise<Response> {
+    return startScriptHandler(
+        new Request("http://localhost/start-script", {
+            method: "POST",
+            body: JSON.stringify(body),
+        }),
+    );
+}
+
+async function expectRejected(
+    body: Record<string, unknown>,
+    error: string,
+): Promise<void> {
+    const runCount = listRuns().length;
+    const response = await startScript({ argument: "Do it", launcher: "headless", ...body });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe(error);
+    expect(listRuns()).toHaveLength(runCount);
+}
+
+async function waitForRun(runId: string) {
+    for (;;) {
+        const run = getRun(runId);
+        if (run && FINISHED_RUN_STATUSES.includes(run.status)) {
+            return run;
+        }
+        await Bun.sleep(20);
+    }
+}
+
+beforeAll(() => {
+    testDir = mkdtempSync(join(tmpdir(), "start-script-"));
+    codeDir = join(testDir, "code");
+    outsideDir = join(testDir, "outside");
+    mkdirSync(join(codeDir, "repo"), { recursive: true });
+    mkdirSync(join(codeDir, "repo-worktrees"));
+    mkdirSync(outsideDir);
+    symlinkSync(outsideDir, join(codeDir, "escape"));
+    symlinkSync(outsideDir, join(codeDir, "repo-worktrees", "escape"));
+    CONFIG.ROOT_CODE_DIR = codeDir;
+});
+
+afterAll(() => {
+    CONFIG.ROOT_CODE_DIR = originalRootCodeDir;
+    rmSync(testDir, { recursive: true, force: true });
+});
+
+describe("startScriptHandler", () => {
+    test("rejects working directories outside ROOT_CODE_DIR", async () => {
+        for (const workingDirectory of [
+            "../outside",
+            "repo/../../outside",
+            "..",
+            ".",
+            "",
+        ]) {
+            await expectRejected({ workingDirectory }, "Invalid working directory");
+        }
+    });
+
+    test("rejects absolute working directories outside ROOT_CODE_DIR", async () => {
+        await expectRejected({ workingDirectory: outsideDir }, "Invalid working directory");
+        await expectRejected({ workingDirectory: "/etc" }, "Invalid working directory");
+    });
+
+    test("rejects symlinks that point out of ROOT_CODE_DIR", async () => {
+        await expectRejected({ workingDirectory: "escape" }, "Invalid working directory");
+        await expectRejected(
+            { workingDirectory: "repo", worktree: "escape" },
+            "Invalid worktree",
+        );
+    });
+
+    test("rejects invalid worktree names", async () => {
+        for (const worktree of [
+            "..",
+            "../repo",
+            "a/b",
+            "/tmp",
+            ".hidden",
+            "-rf",
+            "a..b",
+            "a b",
+            "$(touch pwned)",
+            "x".repeat(101),
+        ]) {
+            await expectRejected({ workingDirectory: "repo", worktree }, "Invalid worktree");
+        }
+    });
+
+    test("rejects invalid branch names", async () => {
+        for (const branch of [
+            "-D",
+            "a..b",
+            "a//b",
+            "a/",
+            "/a",
+            "a.lock",
+            "a b",
+            "a;rm -rf /",
+            "$(whoami)",
+        ]) {
+            await expectRejected(
+                { workingDirectory: "repo", worktree: "wt", branch },
+                "Invalid branch",
+            );
+        }
+    });
+
+    test("rejects NUL bytes", async () => {
+        await expectRejected({ workingDirectory: "repo\0/../.." }, "Invalid working directory");
+        await expectRejected({ workingDirectory: "repo", worktree: "wt\0" }, "Invalid worktree");
+        await expectRejected(
+            { workingDirectory: "repo", worktree: "wt", branch: "b\0" },
+            "Invalid branch",
+        );
+    });
+
+    test("rejects verification commands that aren't argv arrays", async () => {
+        for (const verificationCommands of [
+            "bun test",
+            ["bun test && touch pwned"],
+            [[]],
+            [[""]],
+            [["bun", 1]],
+            [["bun", "test\0"]],
+        ]) {
+            const response = await startScript({
+                argument: "Do it",
+                workingDirectory: "repo",
+                launcher: "headless",
+                verificationCommands,
+            });
+            expect(response.status).toBe(400);
+        }
+        expect(existsSync(join(codeDir, "repo", "pwned"))).toBe(false);
+    });
+
+    test("runs verification commands without a shell", async () => {
+        const response = await startScript({
+            argument: "Do it",
+            workingDirectory: "repo",
+            launcher: "headless",
+            agent: { name: "Echo", command: "echo", args: [], promptMode: "argv" },
+            verificationCommands: [["echo", "ok && touch pwned", "$(touch pwned)"]],
+        });
+        expect(response.status).toBe(200);
+
+        const run = await waitForRun((await response.json()).runId);
+        expect(run.verification?.status).toBe("passed");
+        expect(run.verification?.results[0]?.output).toBe("ok && touch pwned $(touch pwned)\n");
+        expect(existsSync(join(codeDir, "repo", "pwned"))).toBe(false);
+    });
+
+    test("passes prompts with shell metacharacters to the agent as is", async () => {
+        const prompt = "Fix it; touch pwned && echo $HOME `touch pwned` $(touch pwned) 'quoted' \"double\" | cat > pwned";
+
+        for (const agent of [
+            { name: "Echo", command: "echo", args: [], promptMode: "argv" },
+            { name: "Cat", command: "cat", args: [], promptMode: "stdin" },
+        ]) {
+            const response = await startScript({
+                argument: prompt,
+                workingDirectory: "repo",
+                launcher: "headless",
+                agent,
+            });
+            expect(response.status).toBe(200);
+
+            const run = await waitForRun((await response.json()).runId);
+            expect(run.status).toBe("succeeded");
+            expect(readFileSync(run.logPath, "utf8").trim()).toBe(prompt);
+            expect(existsSync(join(codeDir, "repo", "pwned"))).toBe(false);
+        }
+    });
+});
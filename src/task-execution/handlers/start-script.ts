@@ -1,17 +1,41 @@
-import { spawn } from "bun";
 import { existsSync } from "node:fs";
-import { resolve, join } from "node:path";
 import { CONFIG } from "@/config";
+import { isLauncherType } from "../launchers/launcher-registry";
+import type { LauncherType } from "../launchers/types";
+import { submitRun } from "../runs/run-service";
+import { parseVerificationCommands } from "../runs/run-verification";
+import { parseAgentDefinition } from "../agents/agent-command";
+import type { AgentDefinition } from "../agents/types";
+import {
+    resolveWorkingDirectory,
+    resolveWorktreeDirectory,
+    validateBranchName,
+} from "../paths";
 
 export interface StartScriptRequest {
     argument: string;
     workingDirectory: string;
     worktree?: string;
+    branch?: string; // Branch for the worktree, defaults to the worktree name
+    launcher?: LauncherType;
+    agent?: AgentDefinition; // Agent CLI to run, defaults to claude
+    taskId?: string;
+    priority?: number; // Higher priorities leave the queue first, defaults to 0
+    fullPrompt?: boolean; // Argument is a rendered prompt template, pass it to the agent as is
+    verificationCommands?: string[][]; // Argv arrays run in the working directory after the agent succeeds, never through a shell
 }
 
 /**
  * Handler for the /start-script endpoint
- * Starts Claude in a new terminal window with the specified arguments
+ * Queues the requested agent CLI (claude by default) with the specified
+ * arguments using the requested launcher
+ * (tmux session, headless process or macOS Terminal window).
+ * The run starts right away when the concurrency limits allow it.
+ * Verification commands (tests, lint, build) run once the agent exited
+ * successfully, and their results are recorded with the run.
+ *
+ * The working directory and worktree must resolve to a directory inside
+ * ROOT_CODE_DIR, anything else is rejected with a 400.
  */
 export async function startScriptHandler(req: Request): Promise<Response> {
     let body: StartScriptRequest;
@@ -25,7 +49,8 @@ export async function startScriptHandler(req: Request): Promise<Response> {
         );
     }
 
-    const { argument, workingDirectory, worktree } = body;
+    const { argument, workingDirectory, worktree, branch, taskId, priority, fullPrompt } = body;
+    const launcherType = body.launcher ?? CONFIG.DEFAULT_LAUNCHER;
 
     // Validation
     if (typeof argument !== "string") {
@@ -34,116 +59,117 @@ export async function startScriptHandler(req: Request): Promise<Response> {
             { status: 400 }
         );
     }
-    if (typeof workingDirectory !== "string") {
+    const resolvedWorkingDir = resolveWorkingDirectory(workingDirectory);
+    if ("error" in resolvedWorkingDir) {
         return Response.json(
-            { error: "Working directory must be a string." },
+            { error: "Invalid working directory", details: resolvedWorkingDir.error },
             { status: 400 }
         );
     }
-
-    let targetWorkingDir = resolve(CONFIG.ROOT_CODE_DIR, workingDirectory);
-
-    // Check if the working directory exists
-    if (!existsSync(targetWorkingDir)) {
+    if (worktree !== undefined && worktree !== "") {
+        const resolvedWorktreeDir = resolveWorktreeDirectory(workingDirectory, worktree);
+        if ("error" in resolvedWorktreeDir) {
+            return Response.json(
+                { error: "Invalid worktree", details: resolvedWorktreeDir.error },
+                { status: 400 }
+            );
+        }
+    }
+    if (branch !== undefined && branch !== "") {
+        const branchError = validateBranchName(branch);
+        if (branchError) {
+            return Response.json(
+                { error: "Invalid branch", details: branchError },
+                { status: 400 }
+            );
+        }
+    }
+    if (!isLauncherType(launcherType)) {
         return Response.json(
-            { error: `Working directory does not exist: ${targetWorkingDir}` },
+            { error: `Unknown launcher: ${launcherType}` },
             { status: 400 }
         );
     }
-
-    // If worktree is specified, create it and use it as the working directory
-    if (worktree && typeof worktree === "string") {
-        const worktreeDir = resolve(
-            CONFIG.ROOT_CODE_DIR,
-            `${workingDirectory}-worktrees`,
-            worktree
-        );
-
-        // Run script to create worktree
-        const createWorktreeScript = join(
-            import.meta.dir,
-            "..",
-            "scripts",
-            "create-worktree.sh"
+    if (priority !== undefined && !Number.isFinite(priority)) {
+        return Response.json(
+            { error: "Priority must be a number." },
+            { status: 400 }
         );
+    }
 
-        try {
-            const proc = spawn([
-                "bash",
-                createWorktreeScript,
-                targetWorkingDir,
-                worktreeDir,
-            ], {
-                stdout: "inherit",
-                stderr: "inherit",
-            });
-
-            await proc.exited;
-
-            if (proc.exitCode !== 0) {
-                return Response.json(
-                    {
-                        error: "Failed to create worktree",
-                        details: `Script exited with code ${proc.exitCode}`,
-                    },
-                    { status: 500 }
-                );
-            }
-
-            targetWorkingDir = worktreeDir;
-        } catch (error) {
+    let agent: AgentDefinition | undefined;
+    if (body.agent !== undefined) {
+        const parsedAgent = parseAgentDefinition(body.agent);
+        if (typeof parsedAgent === "string") {
             return Response.json(
-                {
-                    error: "Failed to create worktree",
-                    details: error instanceof Error ? error.message : String(error),
-                },
-                { status: 500 }
+                { error: parsedAgent },
+                { status: 400 }
             );
         }
+        agent = parsedAgent;
     }
 
-    // Modify argument if worktree is used - add commit and PR instructions
-    let finalArgument = argument;
-    if (worktree) {
-        finalArgument = `${argument}. When you are done, create a commit and push it to the remote using the gh CLI. If there is no PR yet, create a PR to the main branch too.`;
+    let verificationCommands: string[][] | undefined;
+    if (body.verificationCommands !== undefined) {
+        const parsedCommands = parseVerificationCommands(body.verificationCommands);
+        if (typeof parsedCommands === "string") {
+            return Response.json(
+                { error: parsedCommands },
+                { status: 400 }
+            );
+        }
+        verificationCommands = parsedCommands;
     }
 
-    console.log(`Opening new terminal window with claude argument: "${finalArgument}"`);
-    console.log(`Working directory: ${targetWorkingDir}`);
-
-    // Open new terminal window and run claude in it
-    const script = `tell application "Terminal"
-    do script "cd '${targetWorkingDir.replace(/'/g, "'\\''")}' && claude '${finalArgument.replace(/'/g, "'\\''")}'\"
-    activate
-  end tell`;
-
-    try {
-        const proc = spawn(["osascript", "-e", script], {
-            stdout: "pipe",
-            stderr: "pipe",
-        });
+    const targetWorkingDir = resolvedWorkingDir.path;
 
-        const stdout = await new Response(proc.stdout).text();
-        const stderr = await new Response(proc.stderr).text();
-        await proc.exited;
+    // Check if the working directory exists
+    if (!existsSync(targetWorkingDir)) {
+        return Response.json(
+            { error: `Working directory does not exist: ${targetWorkingDir}` },
+            { status: 400 }
+        );
+    }
 
-        console.log(`Claude process exited with code: ${proc.exitCode}`);
+    console.log(`Submitting ${agent?.name ?? "claude"} with ${launcherType} launcher, argument: "${argument}"`);
+    console.log(`Working directory: ${targetWorkingDir}`);
 
-        return Response.json({
-            message: "Claude process completed",
-            exitCode: proc.exitCode,
-            command: `claude "${argument}"`,
-            stdout: stdout,
-            stderr: stderr,
-        });
-    } catch (error) {
-        console.error("Process error:", error);
+    const run = await submitRun({
+        taskId: typeof taskId === "string" ? taskId : undefined,
+        launcher: launcherType,
+        agent,
+        argument,
+        workingDirectory,
+        worktree: worktree || undefined,
+        branch: worktree ? branch || undefined : undefined,
+        priority,
+        fullPrompt: fullPrompt === true,
+        verificationCommands,
+    });
+
+    if (run.status === "failed") {
         return Response.json(
             {
-                error: "Failed to start claude",
-                details: error instanceof Error ? error.message : String(error),
+                error: `Failed to start ${run.agent}`,
+                details: run.error,
             },
             { status: 500 }
         );
     }
+
+    console.log(`${run.agent} ${run.status} with ${run.launcher} launcher, run: ${run.id}`);
+
+    return Response.json({
+        message: run.status === "queued" ? `${run.agent} process queued` : `${run.agent} process started`,
+        runId: run.id,
+        status: run.status,
+        launcher: run.launcher,
+        agent: run.agent,
+        handle: run.handle,
+        command: `${agent?.command ?? "claude"} "${argument}"`,
+        prompt: run.prompt,
+        logPath: run.logPath,
+        queuedAt: run.queuedAt,
+        startedAt: run.startedAt,
+    });
 }
@@ -0,0 +1,59 @@
+import { FINISHED_RUN_STATUSES, listRuns } from "../runs/run-registry";
+import { subscribeToRunEvents, type RunEvent } from "../runs/run-events";
+
+const KEEPALIVE_INTERVAL_MS = 5000;
+
+/**
+ * Handler for the GET /events endpoint
+ * Pushes run lifecycle events to the browser as Server-Sent Events.
+ *
+ * On connect, a "run-finished" event is replayed for every run that already
+ * finished, so clients that were offline still see the outcome. Queued and
+ * running runs aren't replayed, they haven't finished yet. Clients are
+ * expected to ignore runs they have already processed.
+ */
+export async function streamRunEventsHandler(req: Request): Promise<Response> {
+    const encoder = new TextEncoder();
+    let unsubscribe: (() => void) | undefined;
+    let keepalive: ReturnType<typeof setInterval> | undefined;
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const send = (event: RunEvent) => {
+                controller.enqueue(
+                    encoder.encode(`data: ${JSON.stringify(event)}\n\n`),
+                );
+            };
+
+            for (const run of listRuns()) {
+                if (FINISHED_RUN_STATUSES.includes(run.status)) {
+                    send({ type: "run-finished", run });
+                }
+            }
+
+            unsubscribe = subscribeToRunEvents(send);
+            keepalive = setInterval(() => {
+                // Keep the connection from hitting the server idle timeout
+                controller.enqueue(encoder.encode(": keepalive\n\n"));
+            }, KEEPALIVE_INTERVAL_MS);
+
+            req.signal.addEventListener("abort", () => {
+                unsubscribe?.();
+                clearInterval(keepalive);
+                controller.close();
+            });
+        },
+        cancel() {
+            unsubscribe?.();
+            clearInterval(keepalive);
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+        },
+    });
+}
@@ -0,0 +1,54 @@
+import { existsSync } from "node:fs";
+import { FINISHED_RUN_STATUSES, getRun } from "../runs/run-registry";
+import { getRunLogPath, streamRunLog } from "../runs/run-logs";
+
+/**
+ * Handler for the GET /runs/:id/log endpoint
+ * Streams the agent output of a run as Server-Sent Events. Clients resume from
+ * a byte offset given either as `?offset=` or through the Last-Event-ID header.
+ * Logs of runs from before a server restart are still served from disk.
+ * Queued runs have no log yet, their stream stays open until the run starts.
+ * The stream ends with an `end` event once the run finished and its whole log
+ * was sent, right away for runs the server no longer knows about.
+ */
+export async function streamRunLogHandler(
+    req: Request,
+    runId: string,
+): Promise<Response> {
+    let logPath = getRun(runId)?.logPath;
+    if (!logPath) {
+        try {
+            logPath = getRunLogPath(runId);
+        } catch {
+            return Response.json(
+                { error: `Invalid run id: ${runId}` },
+                { status: 400 }
+            );
+        }
+
+        if (!existsSync(logPath)) {
+            return Response.json(
+                { error: `Run not found: ${runId}` },
+                { status: 404 }
+            );
+        }
+    }
+
+    const rawOffset =
+        req.headers.get("Last-Event-ID") ??
+        new URL(req.url).searchParams.get("offset") ??
+        "0";
+    const offset = Number(rawOffset);
+
+    if (!Number.isInteger(offset) || offset < 0) {
+        return Response.json(
+            { error: "Offset must be a non-negative integer." },
+            { status: 400 }
+        );
+    }
+
+    return streamRunLog(logPath, offset, req.signal, () => {
+        const run = getRun(runId);
+        return !run || FINISHED_RUN_STATUSES.includes(run.status);
+    });
+}
@@ -0,0 +1,76 @@
+import { existsSync } from "node:fs";
+import { resolveWorkingDirectory } from "../paths";
+import { suggestContextFiles } from "../files/context-suggestions";
+
+export interface SuggestContextRequest {
+    workingDirectory: string;
+    text: string; // What the context is for, e.g. a task's title and description
+    limit?: number; // Defaults to 10
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+const MAX_TEXT_LENGTH = 20_000;
+
+/**
+ * Handler for the POST /files/suggestions endpoint
+ * Ranks the files of a working directory by keyword relevance to a text,
+ * matching its terms against file paths and contents. Ignored files of git
+ * repositories are left out.
+ */
+export async function suggestContextHandler(req: Request): Promise<Response> {
+    let body: SuggestContextRequest;
+
+    try {
+        body = await req.json();
+    } catch {
+        return Response.json(
+            { error: "Invalid JSON body" },
+            { status: 400 }
+        );
+    }
+
+    const { workingDirectory, text } = body;
+    const limit = body.limit ?? DEFAULT_LIMIT;
+
+    // Validation
+    const resolvedWorkingDir = resolveWorkingDirectory(workingDirectory);
+    if ("error" in resolvedWorkingDir) {
+        return Response.json(
+            { error: "Invalid working directory", details: resolvedWorkingDir.error },
+            { status: 400 }
+        );
+    }
+    if (typeof text !== "string" || text.length > MAX_TEXT_LENGTH) {
+        return Response.json(
+            { error: `Text must be a string of at most ${MAX_TEXT_LENGTH} characters.` },
+            { status: 400 }
+        );
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        return Response.json(
+            { error: `Limit must be between 1 and ${MAX_LIMIT}.` },
+            { status: 400 }
+        );
+    }
+
+    if (!existsSync(resolvedWorkingDir.path)) {
+        return Response.json(
+            { error: `Working directory does not exist: ${resolvedWorkingDir.path}` },
+            { status: 404 }
+        );
+    }
+
+    try {
+        const suggestions = await suggestContextFiles(resolvedWorkingDir.path, text, limit);
+        return Response.json({ suggestions });
+    } catch (error) {
+        return Response.json(
+            {
+                error: "Failed to suggest context files",
+                details: error instanceof Error ? error.message : String(error),
+            },
+            { status: 500 }
+        );
+    }
+}
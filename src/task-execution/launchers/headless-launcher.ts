@@ -0,0 +1,47 @@
+import { spawn } from "node:child_process";
+import { closeSync, openSync } from "node:fs";
+import type { Launcher, LaunchOptions, LaunchResult } from "./types";
+
+/**
+ * Starts the command as a detached child process without a terminal.
+ * The process keeps running when the execution server stops, and its
+ * output is appended to the run log.
+ */
+export const headlessLauncher: Launcher = {
+    type: "headless",
+
+    async launch(options: LaunchOptions): Promise<LaunchResult> {
+        const [program, ...args] = options.command;
+        if (!program) {
+            throw new Error("Command must not be empty");
+        }
+
+        // stdout and stderr both go to the run log
+        const logFd = openSync(options.logPath, "a");
+        const child = spawn(program, args, {
+            cwd: options.workingDirectory,
+            detached: true,
+            stdio: ["ignore", logFd, logFd],
+        });
+        closeSync(logFd);
+
+        // Wait until the process has actually started (or failed to)
+        await new Promise<void>((resolve, reject) => {
+            child.once("spawn", () => resolve());
+            child.once("error", reject);
+        });
+
+        const exited = new Promise<number | null>((resolve) => {
+            child.once("exit", (code) => resolve(code));
+        });
+
+        child.unref();
+
+        return { launcher: "headless", handle: String(child.pid), exited };
+    },
+
+    async stop(handle: string): Promise<void> {
+        // The detached process leads its own process group, so signal the whole group
+        process.kill(-Number(handle), "SIGTERM");
+    },
+};
@@ -0,0 +1,18 @@
+import { headlessLauncher } from "./headless-launcher";
+import { macosTerminalLauncher } from "./macos-terminal-launcher";
+import { tmuxLauncher } from "./tmux-launcher";
+import { LAUNCHER_TYPES, type Launcher, type LauncherType } from "./types";
+
+const launchers: Record<LauncherType, Launcher> = {
+    tmux: tmuxLauncher,
+    headless: headlessLauncher,
+    "macos-terminal": macosTerminalLauncher,
+};
+
+export function isLauncherType(value: unknown): value is LauncherType {
+    return LAUNCHER_TYPES.includes(value as LauncherType);
+}
+
+export function getLauncher(type: LauncherType): Launcher {
+    return launchers[type];
+}
@@ -0,0 +1,117 @@
+import { spawn } from "bun";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import type { Launcher, LaunchOptions, LaunchResult } from "./types";
+import { shellQuote } from "./shell-quote";
+
+/**
+ * Escape a string for use inside an AppleScript string literal.
+ */
+function appleScriptString(value: string): string {
+    return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+const EXIT_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Reads the NUL-separated argv from the file in $1 and runs it, so the command
+ * never passes through AppleScript or shell parsing.
+ */
+const RUN_ARGS_FILE_SCRIPT =
+    'args=(); while IFS= read -r -d "" arg; do args+=("$arg"); done < "$1"; exec "${args[@]}"';
+
+async function runAppleScript(script: string): Promise<string> {
+    const proc = spawn(["osascript", "-e", script], {
+        stdout: "pipe",
+        stderr: "pipe",
+    });
+
+    const stdout = await new Response(proc.stdout).text();
+    const stderr = await new Response(proc.stderr).text();
+    await proc.exited;
+
+    if (proc.exitCode !== 0) {
+        throw new Error(
+            `osascript exited with code ${proc.exitCode}: ${stderr.trim()}`,
+        );
+    }
+
+    return stdout;
+}
+
+async function windowExists(windowId: string): Promise<boolean> {
+    const output = await runAppleScript(`tell application "Terminal"
+    return exists window id ${Number(windowId)}
+  end tell`);
+    return output.trim() !== "false";
+}
+
+/**
+ * Terminal doesn't report when a command finishes, so the shell writes the
+ * exit code to a file next to the run log which is polled here.
+ */
+async function waitForExitCodeFile(
+    exitCodePath: string,
+    windowId: string,
+): Promise<number | null> {
+    while (!existsSync(exitCodePath)) {
+        await Bun.sleep(EXIT_POLL_INTERVAL_MS);
+
+        // Closing the window ends the command before it can write its exit code
+        const isOpen = await windowExists(windowId).catch(() => true);
+        if (!isOpen && !existsSync(exitCodePath)) {
+            return null;
+        }
+    }
+    const exitCode = Number(readFileSync(exitCodePath, "utf-8").trim());
+    return Number.isInteger(exitCode) ? exitCode : null;
+}
+
+/**
+ * Opens a new macOS Terminal window and runs the command in it.
+ */
+export const macosTerminalLauncher: Launcher = {
+    type: "macos-terminal",
+
+    async launch(options: LaunchOptions): Promise<LaunchResult> {
+        // `script` records the terminal session to the run log while keeping a TTY
+        const recordedCommand = [
+            "script",
+            "-q",
+            "-a",
+            options.logPath,
+            ...options.command,
+        ];
+        const argsPath = `${options.logPath}.args`;
+        writeFileSync(argsPath, recordedCommand.map((arg) => `${arg}\0`).join(""));
+
+        // Only paths generated by the server are quoted into the shell command
+        const exitCodePath = `${options.logPath}.exit`;
+        const shellCommand = `cd ${shellQuote(options.workingDirectory)} && bash -c ${shellQuote(RUN_ARGS_FILE_SCRIPT)} run ${shellQuote(argsPath)}; echo $? > ${shellQuote(exitCodePath)}`;
+
+        const script = `tell application "Terminal"
+    do script ${appleScriptString(shellCommand)}
+    activate
+    return id of front window
+  end tell`;
+
+        const stdout = await runAppleScript(script);
+
+        // The handle is the id of the Terminal window running the command
+        const windowId = stdout.trim();
+        return {
+            launcher: "macos-terminal",
+            handle: windowId,
+            exited: waitForExitCodeFile(exitCodePath, windowId),
+        };
+    },
+
+    async stop(handle: string): Promise<void> {
+        const windowId = Number(handle);
+        if (!Number.isInteger(windowId)) {
+            throw new Error(`Invalid Terminal window id: ${handle}`);
+        }
+        await runAppleScript(`tell application "Terminal"
+    close (every window whose id is ${windowId})
+  end tell`);
+    },
+};
@@ -0,0 +1,8 @@
+/**
+ * Quote a single argument for POSIX shells by wrapping it in single quotes.
+ * Only use it for paths the server generates itself, arguments from requests
+ * are passed as argv so they never go through shell parsing.
+ */
+export function shellQuote(argument: string): string {
+    return `'${argument.replace(/'/g, "'\\''")}'`;
+}
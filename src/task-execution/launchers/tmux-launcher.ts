@@ -0,0 +1,130 @@
+import { spawn } from "bun";
+import type { Launcher, LaunchOptions, LaunchResult } from "./types";
+import { shellQuote } from "./shell-quote";
+
+/**
+ * tmux doesn't allow "." or ":" in session names, so keep it to a safe subset.
+ */
+function createSessionName(name: string): string {
+    const slug = name
+        .toLowerCase()
+        .replace(/[^a-z0-9-]/g, "-")
+        .replace(/-+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .substring(0, 40);
+    const suffix = crypto.randomUUID().substring(0, 8);
+    return `soltra-${slug || "run"}-${suffix}`;
+}
+
+const EXIT_POLL_INTERVAL_MS = 1000;
+
+async function runTmux(args: string[]): Promise<string> {
+    const proc = spawn(["tmux", ...args], {
+        stdout: "pipe",
+        stderr: "pipe",
+    });
+
+    const stdout = await new Response(proc.stdout).text();
+    const stderr = await new Response(proc.stderr).text();
+    await proc.exited;
+
+    if (proc.exitCode !== 0) {
+        throw new Error(
+            `tmux ${args[0]} exited with code ${proc.exitCode}: ${stderr.trim()}`,
+        );
+    }
+
+    return stdout;
+}
+
+/**
+ * Polls the session until its pane is dead (kept around by remain-on-exit),
+ * then reads the exit status and closes the session.
+ */
+async function waitForPaneExit(sessionName: string): Promise<number | null> {
+    while (true) {
+        await Bun.sleep(EXIT_POLL_INTERVAL_MS);
+
+        let status: string;
+        try {
+            status = await runTmux([
+                "display-message",
+                "-p",
+                "-t",
+                sessionName,
+                "#{pane_dead} #{pane_dead_status}",
+            ]);
+        } catch {
+            // Session was killed from outside, the exit code is lost
+            return null;
+        }
+
+        const [dead, exitCode] = status.trim().split(" ");
+        if (dead === "1") {
+            await runTmux(["kill-session", "-t", sessionName]).catch(() => {});
+            return exitCode ? Number(exitCode) : null;
+        }
+    }
+}
+
+/**
+ * Starts the command in a new detached tmux session.
+ * Attach to it later with `tmux attach -t <handle>`.
+ *
+ * The session is created with an idle shell first so the pane output can be
+ * piped to the run log before the command starts, then the pane is respawned
+ * with the actual command. The pane stays around after the command exits
+ * until its exit status has been read.
+ */
+export const tmuxLauncher: Launcher = {
+    type: "tmux",
+
+    async launch(options: LaunchOptions): Promise<LaunchResult> {
+        const sessionName = createSessionName(options.name);
+
+        await runTmux([
+            "new-session",
+            "-d",
+            "-s",
+            sessionName,
+            "-c",
+            options.workingDirectory,
+        ]);
+        await runTmux([
+            "set-option",
+            "-w",
+            "-t",
+            sessionName,
+            "remain-on-exit",
+            "on",
+        ]);
+        await runTmux([
+            "pipe-pane",
+            "-t",
+            sessionName,
+            `cat >> ${shellQuote(options.logPath)}`,
+        ]);
+        await runTmux([
+            "respawn-pane",
+            "-k",
+            "-t",
+            sessionName,
+            "-c",
+            options.workingDirectory,
+            // tmux hands a single argument to the shell, run it through env instead
+            ...(options.command.length === 1
+                ? ["env", ...options.command]
+                : options.command),
+        ]);
+
+        return {
+            launcher: "tmux",
+            handle: sessionName,
+            exited: waitForPaneExit(sessionName),
+        };
+    },
+
+    async stop(handle: string): Promise<void> {
+        await runTmux(["kill-session", "-t", handle]);
+    },
+};
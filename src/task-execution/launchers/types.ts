@@ -0,0 +1,26 @@
+export type LauncherType = "tmux" | "headless" | "macos-terminal";
+
+export const LAUNCHER_TYPES: LauncherType[] = [
+    "tmux",
+    "headless",
+    "macos-terminal",
+];
+
+export interface LaunchOptions {
+    command: string[]; // Program followed by its arguments, never a shell string
+    workingDirectory: string; // Absolute path the command runs in
+    name: string; // Human-readable name, used for tmux sessions and window titles
+    logPath: string; // File that receives everything the command writes to its terminal
+}
+
+export interface LaunchResult {
+    launcher: LauncherType;
+    handle: string; // tmux session name, PID or other launcher-specific reference
+    exited: Promise<number | null>; // Resolves with the exit code, or null if it can't be determined
+}
+
+export interface Launcher {
+    type: LauncherType;
+    launch(options: LaunchOptions): Promise<LaunchResult>;
+    stop(handle: string): Promise<void>;
+}
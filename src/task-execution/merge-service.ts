@@ -0,0 +1,67 @@
+import { updateTask } from "src/entities/tasks/task-service";
+import type { Task } from "src/entities/tasks/types";
+import {
+    getTaskExecutionContext,
+    getTaskExecutionSettings,
+} from "./task-execution-context-storage";
+import { mergeWorktree, type MergeWorktreeResult } from "./task-execution-api";
+import type { MergeMode } from "./worktrees/types";
+
+export interface ResolvedMergeSettings {
+    mode: MergeMode;
+    base?: string; // Unset to merge into the branch checked out in the working directory
+}
+
+/**
+ * Merge settings of the nearest product in the task's hierarchy that has them.
+ * Mode and base branch are looked up separately, so a sub-product can override
+ * only one of them.
+ */
+export async function resolveMergeSettings(
+    taskId: string,
+): Promise<ResolvedMergeSettings> {
+    const settings = await getTaskExecutionSettings(taskId);
+    return {
+        mode: settings.mergeMode.value,
+        base: settings.baseBranch.value,
+    };
+}
+
+/**
+ * Merge the task's worktree branch into the base branch of its product locally.
+ * A successful merge is noted on the task.
+ */
+export async function mergeTaskWorktree(
+    task: Task,
+): Promise<MergeWorktreeResult> {
+    const executionContext = await getTaskExecutionContext(task.uuid);
+    if (!executionContext?.worktree) {
+        return {
+            status: "rejected",
+            reason: "The task hasn't run in a worktree yet.",
+        };
+    }
+
+    const { mode, base } = await resolveMergeSettings(task.uuid);
+    const result = await mergeWorktree(executionContext.worktree, {
+        workingDirectory: executionContext.workingDirectory,
+        mode,
+        base,
+        message: `${task.title} (${executionContext.worktree})`,
+    });
+
+    if (result.status === "merged" && result.commits > 0) {
+        await updateTask({
+            ...task,
+            notes: [
+                ...(task.notes ?? []),
+                {
+                    createdAt: new Date().toISOString(),
+                    text: `Merged ${result.branch} into ${result.base} (${result.mode}, ${result.commits} commit${result.commits !== 1 ? "s" : ""})`,
+                },
+            ],
+        });
+    }
+
+    return result;
+}
@@ -0,0 +1,135 @@
+import { existsSync, realpathSync } from "node:fs";
+import { isAbsolute, relative, resolve, sep } from "node:path";
+import { CONFIG } from "@/config";
+
+/**
+ * Worktree names become a single directory name and a git branch name,
+ * so they are limited to characters that are safe in both.
+ */
+const WORKTREE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,99}$/;
+
+/**
+ * A conservative subset of what git allows in branch names.
+ */
+const BRANCH_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._/-]{0,199}$/;
+
+export type ResolvedPath = { path: string } | { error: string };
+
+/**
+ * Whether `target` is strictly inside `root`, the root itself doesn't count.
+ */
+function isInside(root: string, target: string): boolean {
+    const relativePath = relative(root, target);
+    return (
+        relativePath !== "" &&
+        relativePath !== ".." &&
+        !relativePath.startsWith(`..${sep}`) &&
+        !isAbsolute(relativePath)
+    );
+}
+
+/**
+ * Check that a path stays inside ROOT_CODE_DIR, also after following symlinks
+ * for the parts of the path that exist.
+ */
+function checkContainment(path: string): string | null {
+    const root = resolve(CONFIG.ROOT_CODE_DIR);
+    if (!isInside(root, path)) {
+        return `Path must be inside the code directory: ${path}`;
+    }
+
+    if (existsSync(path) && !isInside(realpathSync(root), realpathSync(path))) {
+        return `Path must not link outside the code directory: ${path}`;
+    }
+
+    return null;
+}
+
+export function validateWorktreeName(worktree: unknown): string | null {
+    if (typeof worktree !== "string" || !WORKTREE_NAME_PATTERN.test(worktree)) {
+        return "Worktree name must be 1-100 letters, digits, dots, dashes or underscores, starting with a letter or digit.";
+    }
+    if (worktree.includes("..")) {
+        return "Worktree name must not contain '..'.";
+    }
+    return null;
+}
+
+export function validateBranchName(branch: unknown): string | null {
+    if (
+        typeof branch !== "string" ||
+        !BRANCH_NAME_PATTERN.test(branch) ||
+        branch.includes("..") ||
+        branch.includes("//") ||
+        branch.endsWith("/") ||
+        branch.endsWith(".lock")
+    ) {
+        return "Branch name must be 1-200 letters, digits, dots, dashes, underscores or slashes, starting with a letter or digit.";
+    }
+    return null;
+}
+
+/**
+ * Resolve a working directory sent by a client, relative to ROOT_CODE_DIR.
+ */
+export function resolveWorkingDirectory(workingDirectory: unknown): ResolvedPath {
+    if (typeof workingDirectory !== "string" || !workingDirectory.trim()) {
+        return { error: "Working directory must be a non-empty string." };
+    }
+    if (workingDirectory.includes("\0")) {
+        return { error: "Working directory must not contain NUL characters." };
+    }
+
+    const path = resolve(CONFIG.ROOT_CODE_DIR, workingDirectory);
+    const error = checkContainment(path);
+    return error ? { error } : { path };
+}
+
+/**
+ * Resolve the directory of a worktree, which lives next to its working directory
+ * in `<workingDirectory>-worktrees/<worktree>`.
+ */
+export function resolveWorktreeDirectory(
+    workingDirectory: unknown,
+    worktree: unknown,
+): ResolvedPath {
+    const resolvedWorkingDirectory = resolveWorkingDirectory(workingDirectory);
+    if ("error" in resolvedWorkingDirectory) {
+        return resolvedWorkingDirectory;
+    }
+    const worktreeError = validateWorktreeName(worktree);
+    if (worktreeError) {
+        return { error: worktreeError };
+    }
+
+    const path = resolve(
+        `${resolvedWorkingDirectory.path}-worktrees`,
+        worktree as string,
+    );
+    const error = checkContainment(path);
+    return error ? { error } : { path };
+}
+
+/**
+ * Resolve a path sent by a client relative to a working directory, e.g. a
+ * folder to list. An empty path is the working directory itself.
+ */
+export function resolvePathInWorkingDirectory(
+    workingDirectory: unknown,
+    path: unknown,
+): ResolvedPath {
+    const resolvedWorkingDirectory = resolveWorkingDirectory(workingDirectory);
+    if ("error" in resolvedWorkingDirectory || path === "") {
+        return resolvedWorkingDirectory;
+    }
+    if (typeof path !== "string" || path.includes("\0")) {
+        return { error: "Path must be a string without NUL characters." };
+    }
+
+    const resolvedPath = resolve(resolvedWorkingDirectory.path, path);
+    if (!isInside(resolvedWorkingDirectory.path, resolvedPath)) {
+        return { error: `Path must be inside the working directory: ${path}` };
+    }
+    const error = checkContainment(resolvedPath);
+    return error ? { error } : { path: resolvedPath };
+}
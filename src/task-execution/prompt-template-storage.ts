@@ -0,0 +1,124 @@
+/**
+ * Prompt Template Storage Format
+ *
+ * Prompt templates are stored in a single JSON file with the following structure:
+ *
+ * {
+ *   "templates": {
+ *     "<templateId>": {
+ *       "name": string,  // Name shown when picking a template
+ *       "body": string   // Prompt with {{placeholders}}, see prompt-templates.ts
+ *     },
+ *     ...
+ *   }
+ * }
+ *
+ * Example:
+ * {
+ *   "templates": {
+ *     "5f0c7a4e-2b1d-4c8e-9a3f-6d7e8f9a0b1c": {
+ *       "name": "Test first",
+ *       "body": "{{title}}\n\n{{description}}\n\nWrite failing tests first. Relevant files: {{context}}{{worktreeInstructions}}"
+ *     }
+ *   }
+ * }
+ *
+ * - The built-in default template is not stored, it is used when a task and its products don't pick a template.
+ */
+
+import {
+    readFile,
+    writeFile,
+    DataFileName,
+} from "src/persistence/storage-backend";
+
+export interface PromptTemplate {
+    uuid: string;
+    name: string;
+    body: string;
+}
+
+export async function loadPromptTemplates(): Promise<PromptTemplate[]> {
+    const text = await readFile(DataFileName.PROMPT_TEMPLATE);
+    if (!text) {
+        console.log(
+            "[prompt-template-storage] loadPromptTemplates: No file found, returning empty array"
+        );
+        return [];
+    }
+    const obj = JSON.parse(text);
+
+    if (obj && obj.templates && typeof obj.templates === "object") {
+        const templates = Object.entries(obj.templates).map(([uuid, value]) => {
+            const template = value as { name: string; body?: string };
+            return {
+                uuid,
+                name: template.name,
+                body: template.body || "",
+            };
+        });
+        console.log(
+            `[prompt-template-storage] loadPromptTemplates: Loaded ${templates.length} templates`
+        );
+        return templates;
+    }
+
+    throw new Error("Invalid Prompt Template file format");
+}
+
+export async function getPromptTemplate(
+    templateId: string
+): Promise<PromptTemplate | null> {
+    const templates = await loadPromptTemplates();
+    return templates.find((t) => t.uuid === templateId) ?? null;
+}
+
+export async function createPromptTemplate(
+    name: string,
+    body: string
+): Promise<PromptTemplate> {
+    const template: PromptTemplate = {
+        uuid: crypto.randomUUID(),
+        name,
+        body,
+    };
+    const templates = await loadPromptTemplates();
+    templates.push(template);
+    await storePromptTemplates(templates);
+    return template;
+}
+
+export async function updatePromptTemplate(
+    updatedTemplate: PromptTemplate
+): Promise<void> {
+    const templates = await loadPromptTemplates();
+    const index = templates.findIndex((t) => t.uuid === updatedTemplate.uuid);
+    if (index === -1) {
+        throw new Error(`Prompt template with uuid ${updatedTemplate.uuid} not found`);
+    }
+    templates[index] = updatedTemplate;
+    await storePromptTemplates(templates);
+}
+
+export async function removePromptTemplate(templateId: string): Promise<void> {
+    const templates = await loadPromptTemplates();
+    await storePromptTemplates(templates.filter((t) => t.uuid !== templateId));
+}
+
+async function storePromptTemplates(templates: PromptTemplate[]): Promise<void> {
+    const templatesObj = templates.reduce(
+        (acc, t) => {
+            acc[t.uuid] = { name: t.name, body: t.body };
+            return acc;
+        },
+        {} as Record<string, { name: string; body: string }>
+    );
+
+    console.log(
+        `[prompt-template-storage] storePromptTemplates: Saving ${templates.length} templates`
+    );
+    await writeFile(
+        DataFileName.PROMPT_TEMPLATE,
+        JSON.stringify({ templates: templatesObj }, null, 2)
+    );
+}
@@ -0,0 +1,143 @@
+import type { Task } from "src/entities/tasks/types";
+import { loadTasks } from "src/entities/tasks/task-file-storage";
+import { getProductHierarchyForTask } from "src/entities/products/product-service";
+import { loadWorkstreams } from "src/entities/workstreams/workstream-file-storage";
+import {
+    getPromptTemplate,
+    type PromptTemplate,
+} from "./prompt-template-storage";
+import { getTaskExecutionSettings } from "./task-execution-context-storage";
+
+/**
+ * Instructions added to the prompt of tasks that run in a worktree
+ */
+export const WORKTREE_INSTRUCTIONS =
+    ". When you are done, create a commit and push it to the remote using the gh CLI. If there is no PR yet, create a PR to the main branch too.";
+
+/**
+ * Template used when neither the task nor one of its products picks one.
+ * Renders the same prompt tasks were always executed with.
+ */
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+    uuid: "default",
+    name: "Default",
+    body: "{{title}} (Context: {{breadcrumbs}}, Relevant files or folders: {{context}}) {{description}}{{worktreeInstructions}}",
+};
+
+export const PROMPT_PLACEHOLDERS = {
+    taskId: "UUID of the task, for the tools of the Soltra MCP server",
+    title: "Title of the task",
+    description: "Description of the task",
+    status: "Status of the task",
+    breadcrumbs: "Product hierarchy of the task, e.g. Soltra - Execution",
+    product: "Title of the product the task belongs to",
+    workstream: "Title of the workstream the task belongs to",
+    dependencies: "Titles of the tasks blocking this task",
+    context: "Context files and folders, e.g. @src/, @package.json",
+    contextFiles: "Context files and folders, one per line",
+    worktreeInstructions: "Commit and PR instructions, only for tasks running in a worktree",
+} as const;
+export type PromptPlaceholder = keyof typeof PROMPT_PLACEHOLDERS;
+
+export interface RenderedPrompt {
+    template: PromptTemplate;
+    templateSource: "task" | "product" | "default";
+    prompt: string;
+}
+
+/**
+ * Replace every {{placeholder}} in the template body. Unknown placeholders are kept as is.
+ */
+export function renderPromptTemplate(
+    body: string,
+    values: Record<PromptPlaceholder, string>,
+): string {
+    return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+        name in values ? values[name as PromptPlaceholder] : match,
+    );
+}
+
+/**
+ * The prompt template of a task, as resolved by getTaskExecutionSettings: its
+ * own, else the nearest product in its hierarchy that has one, else the
+ * default template. A template that was deleted since renders as the default
+ * one, like the effective settings show it.
+ */
+export async function resolvePromptTemplate(
+    taskId: string,
+): Promise<Pick<RenderedPrompt, "template" | "templateSource">> {
+    const { promptTemplateId } = await getTaskExecutionSettings(taskId);
+    const template = promptTemplateId.value
+        ? await getPromptTemplate(promptTemplateId.value)
+        : undefined;
+    if (promptTemplateId.value && !template) {
+        console.warn(
+            `Prompt template ${promptTemplateId.value} of task ${taskId} no longer exists, using the default template`,
+        );
+    }
+
+    return {
+        template: template ?? DEFAULT_PROMPT_TEMPLATE,
+        templateSource: promptTemplateId.source.level,
+    };
+}
+
+/**
+ * Gather the values for every placeholder of a task.
+ */
+export async function getPromptValues(
+    task: Task,
+    context: string[],
+    async: boolean,
+): Promise<Record<PromptPlaceholder, string>> {
+    const hierarchy = await getProductHierarchyForTask(task.uuid);
+    const workstream = (await loadWorkstreams()).find((ws) =>
+        ws.tasks.includes(task.uuid),
+    );
+
+    let dependencies: string[] = [];
+    if (workstream) {
+        const tasks = await loadTasks();
+        dependencies = workstream.dependencies
+            .filter(
+                (dep) => dep.type === "blocks" && dep.toTaskUuid === task.uuid,
+            )
+            .map(
+                (dep) =>
+                    tasks.find((t) => t.uuid === dep.fromTaskUuid)?.title ??
+                    dep.fromTaskUuid,
+            );
+    }
+
+    return {
+        taskId: task.uuid,
+        title: task.title,
+        description: task.description,
+        status: task.status,
+        breadcrumbs: hierarchy.map((product) => product.title).join(" - "),
+        product: hierarchy[hierarchy.length - 1]?.title ?? "",
+        workstream: workstream?.title ?? "",
+        dependencies: dependencies.join(", "),
+        context: context.map((ctx) => `@${ctx}`).join(", "),
+        contextFiles: context.map((ctx) => `@${ctx}`).join("\n"),
+        worktreeInstructions: async ? WORKTREE_INSTRUCTIONS : "",
+    };
+}
+
+/**
+ * Render the exact prompt a task is executed with.
+ */
+export async function renderTaskPrompt(
+    task: Task,
+    context: string[],
+    async: boolean,
+): Promise<RenderedPrompt> {
+    const { template, templateSource } = await resolvePromptTemplate(task.uuid);
+    const values = await getPromptValues(task, context, async);
+
+    return {
+        template,
+        templateSource,
+        prompt: renderPromptTemplate(template.body, values),
+    };
+}
@@ -0,0 +1,27 @@
+import type { ExecutionRun } from "./run-registry";
+
+export interface RunEvent {
+    type: "run-started" | "run-finished";
+    run: ExecutionRun;
+}
+
+export type RunEventListener = (event: RunEvent) => void;
+
+const listeners = new Set<RunEventListener>();
+
+/**
+ * Subscribe to run lifecycle events.
+ * @returns A function that removes the subscription
+ */
+export function subscribeToRunEvents(listener: RunEventListener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function publishRunEvent(event: RunEvent): void {
+    for (const listener of listeners) {
+        listener(event);
+    }
+}
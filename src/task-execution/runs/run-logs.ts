@@ -0,0 +1,107 @@
+import { mkdirSync } from "node:fs";
+import { join } from "node:path";
+
+/**
+ * Agent output of every run is captured in logs/runs/<runId>.log at the repository root.
+ * Agents that read their prompt from stdin or a file get it from logs/runs/<runId>.prompt.
+ */
+const RUN_LOG_DIR = join(import.meta.dir, "..", "..", "..", "logs", "runs");
+
+const POLL_INTERVAL_MS = 500;
+const KEEPALIVE_INTERVAL_MS = 5000;
+
+const RUN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export function createRunLogPath(runId: string): string {
+    mkdirSync(RUN_LOG_DIR, { recursive: true });
+    return getRunLogPath(runId);
+}
+
+export function createRunPromptPath(runId: string): string {
+    mkdirSync(RUN_LOG_DIR, { recursive: true });
+    return getRunLogPath(runId).replace(/\.log$/, ".prompt");
+}
+
+/**
+ * Location of the log of a run, which outlives the in-memory run registry.
+ * Throws for anything that isn't a run id, so it can't escape the log directory.
+ */
+export function getRunLogPath(runId: string): string {
+    if (!RUN_ID_PATTERN.test(runId)) {
+        throw new Error(`Invalid run id: ${runId}`);
+    }
+    return join(RUN_LOG_DIR, `${runId}.log`);
+}
+
+/**
+ * Streams a run log as Server-Sent Events, starting at the given byte offset.
+ *
+ * Every event carries `{ offset, text }` where offset is the position right after
+ * the chunk, and the same offset is used as the event id so EventSource reconnects
+ * (which send Last-Event-ID) resume where they left off.
+ *
+ * Once `isFinished` holds and the log stopped growing, a final `end` event is
+ * sent and the stream closes, so clients know there is nothing more to wait for.
+ */
+export function streamRunLog(
+    logPath: string,
+    startOffset: number,
+    signal: AbortSignal,
+    isFinished: () => boolean,
+): Response {
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    let offset = startOffset;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let lastSent = Date.now();
+            let wasFinished = false;
+
+            while (!signal.aborted) {
+                // Checked before reading, so output written before the run
+                // finished is sent before the stream ends
+                const finished = isFinished();
+                const file = Bun.file(logPath);
+                const size = (await file.exists()) ? file.size : 0;
+
+                if (size > offset) {
+                    const chunk = await file.slice(offset, size).arrayBuffer();
+                    offset = size;
+                    const text = decoder.decode(chunk, { stream: true });
+                    controller.enqueue(
+                        encoder.encode(
+                            `id: ${offset}\ndata: ${JSON.stringify({ offset, text })}\n\n`,
+                        ),
+                    );
+                    lastSent = Date.now();
+                } else if (wasFinished) {
+                    // Nothing was added since the run finished, the log is complete
+                    controller.enqueue(
+                        encoder.encode(
+                            `event: end\ndata: ${JSON.stringify({ offset })}\n\n`,
+                        ),
+                    );
+                    break;
+                } else if (Date.now() - lastSent > KEEPALIVE_INTERVAL_MS) {
+                    // Keep the connection from hitting the server idle timeout
+                    controller.enqueue(encoder.encode(": keepalive\n\n"));
+                    lastSent = Date.now();
+                }
+
+                wasFinished = finished;
+                await Bun.sleep(POLL_INTERVAL_MS);
+            }
+
+            controller.close();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+        },
+    });
+}
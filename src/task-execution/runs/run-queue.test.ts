@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { enqueueRun, getQueuedRuns, removeFromQueue, takeNextRun } from "./run-queue";
+import type { ExecutionRun } from "./run-registry";
+
+function queuedRun(id: string, priority = 0, codeDirectory = "repo"): ExecutionRun {
+    return {
+        id,
+        status: "queued",
+        launcher: "headless",
+        agent: "Claude",
+        codeDirectory,
+        workingDirectory: `/code/${codeDirectory}`,
+        prompt: "Do it",
+        priority,
+        logPath: `/logs/${id}.log`,
+        queuedAt: new Date().toISOString(),
+    };
+}
+
+function queuedIds(): string[] {
+    return getQueuedRuns().map((run) => run.id);
+}
+
+beforeEach(() => {
+    for (const run of getQueuedRuns()) {
+        removeFromQueue(run.id);
+    }
+});
+
+describe("run queue", () => {
+    test("keeps runs of the same priority in the order they were queued", () => {
+        enqueueRun(queuedRun("a"));
+        enqueueRun(queuedRun("b"));
+        enqueueRun(queuedRun("c"));
+
+        expect(queuedIds()).toEqual(["a", "b", "c"]);
+    });
+
+    test("puts higher priorities first and keeps FIFO within each priority", () => {
+        enqueueRun(queuedRun("low-1", -1));
+        enqueueRun(queuedRun("normal-1"));
+        enqueueRun(queuedRun("high-1", 5));
+        enqueueRun(queuedRun("normal-2"));
+        enqueueRun(queuedRun("high-2", 5));
+        enqueueRun(queuedRun("low-2", -1));
+
+        expect(queuedIds()).toEqual([
+            "high-1",
+            "high-2",
+            "normal-1",
+            "normal-2",
+            "low-1",
+            "low-2",
+        ]);
+    });
+
+    test("takes the first run in queue order that may start", () => {
+        enqueueRun(queuedRun("a", 1, "busy"));
+        enqueueRun(queuedRun("b", 0, "free"));
+        enqueueRun(queuedRun("c", 0, "free"));
+
+        const next = takeNextRun((run) => run.codeDirectory !== "busy");
+
+        expect(next?.id).toBe("b");
+        expect(queuedIds()).toEqual(["a", "c"]);
+    });
+
+    test("takes nothing when no run may start", () => {
+        enqueueRun(queuedRun("a"));
+
+        expect(takeNextRun(() => false)).toBeUndefined();
+        expect(queuedIds()).toEqual(["a"]);
+    });
+
+    test("removes runs by id", () => {
+        enqueueRun(queuedRun("a"));
+        enqueueRun(queuedRun("b"));
+
+        expect(removeFromQueue("a")).toBe(true);
+        expect(removeFromQueue("a")).toBe(false);
+        expect(queuedIds()).toEqual(["b"]);
+    });
+});
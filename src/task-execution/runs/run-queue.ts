@@ -0,0 +1,43 @@
+import type { ExecutionRun } from "./run-registry";
+
+/**
+ * Runs waiting for a free slot, kept in the order they leave the queue:
+ * highest priority first, and first in, first out within the same priority.
+ */
+const queue: ExecutionRun[] = [];
+
+export function enqueueRun(run: ExecutionRun): void {
+    // Insert after every run with the same or a higher priority
+    const index = queue.findIndex((queued) => queued.priority < run.priority);
+    if (index === -1) {
+        queue.push(run);
+    } else {
+        queue.splice(index, 0, run);
+    }
+}
+
+/**
+ * Take the first run in queue order that is allowed to start.
+ */
+export function takeNextRun(
+    canStart: (run: ExecutionRun) => boolean,
+): ExecutionRun | undefined {
+    const index = queue.findIndex(canStart);
+    if (index === -1) {
+        return undefined;
+    }
+    return queue.splice(index, 1)[0];
+}
+
+export function removeFromQueue(runId: string): boolean {
+    const index = queue.findIndex((run) => run.id === runId);
+    if (index === -1) {
+        return false;
+    }
+    queue.splice(index, 1);
+    return true;
+}
+
+export function getQueuedRuns(): ExecutionRun[] {
+    return [...queue];
+}
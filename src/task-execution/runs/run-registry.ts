@@ -0,0 +1,109 @@
+import type { LauncherType } from "../launchers/types";
+import type { RunVerification } from "./run-verification";
+
+export type RunStatus =
+    | "queued"
+    | "running"
+    | "succeeded"
+    | "failed"
+    | "cancelled";
+
+/**
+ * Statuses a run doesn't leave again.
+ */
+export const FINISHED_RUN_STATUSES: RunStatus[] = ["succeeded", "failed", "cancelled"];
+
+export interface ExecutionRun {
+    id: string;
+    taskId?: string; // UUID of the task this run executes, if known
+    status: RunStatus;
+    launcher: LauncherType;
+    agent: string; // Name of the agent CLI the run executes
+    handle?: string; // tmux session name, PID or Terminal window id, set once started
+    codeDirectory: string; // Working directory as requested, relative to ROOT_CODE_DIR
+    workingDirectory: string; // Absolute directory the agent runs in
+    worktree?: string; // Name of the worktree, for async runs
+    prompt: string; // Final prompt passed to the agent
+    priority: number; // Higher priorities leave the queue first
+    logPath: string;
+    queuedAt: string; // ISO timestamp
+    startedAt?: string; // ISO timestamp, set once the agent is launched
+    endedAt?: string; // ISO timestamp, set once the agent exits
+    exitCode?: number | null; // null when the launcher can't determine it
+    error?: string; // Why the run couldn't be started
+    verification?: RunVerification; // Set once the verification commands start
+}
+
+/**
+ * In-memory registry of runs submitted to this execution server.
+ * Runs are forgotten when the server restarts.
+ */
+const runs = new Map<string, ExecutionRun>();
+
+export function registerRun(run: ExecutionRun): void {
+    runs.set(run.id, run);
+}
+
+/**
+ * Take a run out of the queue before its agent is up, so it already counts
+ * against the concurrency limits.
+ */
+export function markRunLaunching(runId: string): void {
+    const run = runs.get(runId);
+    if (run) {
+        run.status = "running";
+    }
+}
+
+export function markRunStarted(runId: string, handle: string): void {
+    const run = runs.get(runId);
+    if (run) {
+        run.status = "running";
+        run.handle = handle;
+        run.startedAt = new Date().toISOString();
+    }
+}
+
+export function finishRun(runId: string, exitCode: number | null): void {
+    const run = runs.get(runId);
+    if (!run) {
+        return;
+    }
+
+    run.exitCode = exitCode;
+    // A cancelled run keeps its status and the time it was cancelled
+    if (run.status === "running") {
+        run.status = exitCode === 0 ? "succeeded" : "failed";
+        run.endedAt = new Date().toISOString();
+    }
+}
+
+export function markRunFailedToStart(runId: string, error: string): void {
+    const run = runs.get(runId);
+    if (run) {
+        run.status = "failed";
+        run.error = error;
+        run.endedAt = new Date().toISOString();
+    }
+}
+
+export function markRunCancelled(runId: string): void {
+    const run = runs.get(runId);
+    if (run) {
+        run.status = "cancelled";
+        run.endedAt = new Date().toISOString();
+    }
+}
+
+export function getRun(runId: string): ExecutionRun | undefined {
+    return runs.get(runId);
+}
+
+/**
+ * List runs, newest first, optionally limited to a single task.
+ */
+export function listRuns(taskId?: string): ExecutionRun[] {
+    return [...runs.values()]
+        .filter((run) => !taskId || run.taskId === taskId)
+        .sort((a, b) => b.queuedAt.localeCompare(a.queuedAt));
+}
@@ -0,0 +1,164 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CONFIG } from "@/config";
+import type { AgentDefinition } from "../agents/types";
+import { cancelRun, submitRun } from "./run-service";
+import { listRuns, type ExecutionRun } from "./run-registry";
+
+const originalConfig = { ...CONFIG };
+let testDir: string;
+let releaseCount = 0;
+
+/**
+ * Agent that runs until the file named by its prompt exists, so tests decide
+ * when each run exits.
+ */
+const WAITING_AGENT: AgentDefinition = {
+    name: "Waiting",
+    command: "sh",
+    args: ["-c", 'while [ ! -e "$1" ]; do sleep 0.02; done', "sh"],
+    promptMode: "argv",
+    env: {},
+};
+
+function submit(
+    workingDirectory: string,
+    priority = 0,
+    agent: AgentDefinition = WAITING_AGENT,
+): Promise<ExecutionRun> {
+    return submitRun({
+        launcher: "headless",
+        agent,
+        // The prompt is the release file of the run
+        argument: join(testDir, `release-${releaseCount++}`),
+        workingDirectory,
+        priority,
+    });
+}
+
+async function waitUntil(condition: () => boolean): Promise<void> {
+    while (!condition()) {
+        await Bun.sleep(10);
+    }
+}
+
+async function release(run: ExecutionRun): Promise<void> {
+    writeFileSync(run.prompt, "");
+    await waitUntil(() => run.status === "succeeded");
+}
+
+function running(): ExecutionRun[] {
+    return listRuns().filter((run) => run.status === "running");
+}
+
+beforeAll(() => {
+    testDir = mkdtempSync(join(tmpdir(), "run-service-"));
+    for (const directory of ["a", "b", "c", "d"]) {
+        mkdirSync(join(testDir, directory));
+    }
+    CONFIG.ROOT_CODE_DIR = testDir;
+});
+
+beforeEach(() => {
+    CONFIG.MAX_CONCURRENT_RUNS = 2;
+    CONFIG.MAX_CONCURRENT_RUNS_PER_DIRECTORY = 1;
+});
+
+afterEach(async () => {
+    // Queued runs first, so cancelling running ones doesn't start them
+    for (const status of ["queued", "running"]) {
+        for (const run of listRuns().filter((r) => r.status === status)) {
+            await cancelRun(run.id);
+        }
+    }
+});
+
+afterAll(() => {
+    Object.assign(CONFIG, originalConfig);
+    rmSync(testDir, { recursive: true, force: true });
+});
+
+describe("run service queue", () => {
+    test("starts runs until the global limit and the rest once a run exits", async () => {
+        const a = await submit("a");
+        const b = await submit("b");
+        const c = await submit("c");
+
+        expect([a.status, b.status, c.status]).toEqual(["running", "running", "queued"]);
+
+        await release(a);
+        await waitUntil(() => c.status === "running");
+        expect(running().map((run) => run.id).sort()).toEqual([b.id, c.id].sort());
+    });
+
+    test("runs one run per working directory and lets other directories pass", async () => {
+        const first = await submit("a");
+        const second = await submit("a");
+        const other = await submit("b");
+
+        expect([first.status, second.status, other.status]).toEqual([
+            "running",
+            "queued",
+            "running",
+        ]);
+
+        await release(first);
+        await waitUntil(() => second.status === "running");
+    });
+
+    test("starts queued runs by priority, first in first out within a priority", async () => {
+        CONFIG.MAX_CONCURRENT_RUNS = 1;
+        CONFIG.MAX_CONCURRENT_RUNS_PER_DIRECTORY = 4;
+        const first = await submit("a");
+        const normal1 = await submit("b");
+        const normal2 = await submit("c");
+        const urgent = await submit("d", 5);
+
+        for (const run of [first, urgent, normal1, normal2]) {
+            await waitUntil(() => running().length > 0);
+            expect(running().map((r) => r.id)).toEqual([run.id]);
+            await release(run);
+        }
+    });
+
+    test("frees the slot of a cancelled run", async () => {
+        CONFIG.MAX_CONCURRENT_RUNS = 1;
+        const a = await submit("a");
+        const b = await submit("b");
+        expect(b.status).toBe("queued");
+
+        await cancelRun(a.id);
+
+        expect(a.status).toBe("cancelled");
+        await waitUntil(() => b.status === "running");
+    });
+
+    test("takes cancelled runs out of the queue", async () => {
+        CONFIG.MAX_CONCURRENT_RUNS = 1;
+        const a = await submit("a");
+        const b = await submit("b");
+        const c = await submit("c");
+
+        await cancelRun(b.id);
+        await release(a);
+
+        await waitUntil(() => c.status === "running");
+        expect(b.status).toBe("cancelled");
+    });
+
+    test("frees the slot of a run that fails to launch", async () => {
+        CONFIG.MAX_CONCURRENT_RUNS = 1;
+        const missingAgent = { ...WAITING_AGENT, command: join(testDir, "missing-agent") };
+        const a = await submit("a");
+        const broken = await submit("b", 0, missingAgent);
+        const c = await submit("c");
+
+        await release(a);
+
+        await waitUntil(() => c.status === "running");
+        expect(broken.status).toBe("failed");
+        expect(broken.error).toBeDefined();
+    });
+});
@@ -0,0 +1,277 @@
+import { resolve } from "node:path";
+import { CONFIG } from "@/config";
+import { getLauncher } from "../launchers/launcher-registry";
+import type { LauncherType } from "../launchers/types";
+import { buildAgentCommand } from "../agents/agent-command";
+import { DEFAULT_AGENT, type AgentDefinition } from "../agents/types";
+import { createWorktree } from "../worktrees/worktree-scripts";
+import { createRunLogPath, createRunPromptPath } from "./run-logs";
+import { publishRunEvent } from "./run-events";
+import { stopVerification, verifyRun } from "./run-verification";
+import { enqueueRun, removeFromQueue, takeNextRun } from "./run-queue";
+import {
+    finishRun,
+    getRun,
+    listRuns,
+    markRunCancelled,
+    markRunFailedToStart,
+    markRunLaunching,
+    markRunStarted,
+    registerRun,
+    type ExecutionRun,
+} from "./run-registry";
+
+export interface SubmitRunOptions {
+    taskId?: string;
+    launcher: LauncherType;
+    agent?: AgentDefinition; // Defaults to DEFAULT_AGENT
+    argument: string; // Prompt for the agent
+    workingDirectory: string; // Relative to ROOT_CODE_DIR
+    worktree?: string; // Run in this worktree of the working directory
+    branch?: string; // Branch of the worktree, defaults to the worktree name
+    priority?: number;
+    fullPrompt?: boolean; // Don't add worktree instructions, the prompt template has them
+    verificationCommands?: string[][]; // Argv arrays run in the working directory after the agent succeeds
+}
+
+/**
+ * Options each run was submitted with, so it can be launched and restarted later.
+ * Agent definitions stay here rather than in the registry, their env may hold secrets.
+ */
+const submitOptions = new Map<string, SubmitRunOptions>();
+
+/**
+ * Queue a new run. It starts right away when the concurrency limits allow it,
+ * otherwise once enough earlier runs have finished.
+ *
+ * @returns The run, after it was started or queued
+ */
+export async function submitRun(
+    options: SubmitRunOptions,
+): Promise<ExecutionRun> {
+    const runId = crypto.randomUUID();
+    const codeDirectory = resolve(CONFIG.ROOT_CODE_DIR, options.workingDirectory);
+
+    let workingDirectory = codeDirectory;
+    let prompt = options.argument;
+    if (options.worktree) {
+        workingDirectory = resolve(
+            CONFIG.ROOT_CODE_DIR,
+            `${options.workingDirectory}-worktrees`,
+            options.worktree,
+        );
+    }
+    if (options.worktree && !options.fullPrompt) {
+        // Add commit and PR instructions for worktree runs
+        prompt = `${options.argument}. When you are done, create a commit and push it to the remote using the gh CLI. If there is no PR yet, create a PR to the main branch too.`;
+    }
+
+    const run: ExecutionRun = {
+        id: runId,
+        taskId: options.taskId,
+        status: "queued",
+        launcher: options.launcher,
+        agent: (options.agent ?? DEFAULT_AGENT).name,
+        codeDirectory: options.workingDirectory,
+        workingDirectory,
+        worktree: options.worktree,
+        prompt,
+        priority: options.priority ?? 0,
+        logPath: createRunLogPath(runId),
+        queuedAt: new Date().toISOString(),
+    };
+
+    registerRun(run);
+    submitOptions.set(runId, options);
+    enqueueRun(run);
+    await processQueue();
+
+    return run;
+}
+
+/**
+ * Stop a running run or take a queued run out of the queue.
+ * Runs that already finished are left untouched.
+ */
+export async function cancelRun(runId: string): Promise<ExecutionRun> {
+    const run = getRun(runId);
+    if (!run) {
+        throw new Error(`Run not found: ${runId}`);
+    }
+
+    if (run.status === "queued") {
+        removeFromQueue(runId);
+        markRunCancelled(runId);
+        publishRunEvent({ type: "run-finished", run });
+        return run;
+    }
+    if (run.status !== "running") {
+        return run;
+    }
+
+    markRunCancelled(runId);
+    publishRunEvent({ type: "run-finished", run });
+    if (run.verification?.status === "running") {
+        // The agent is done already, stop the verification instead
+        stopVerification(runId);
+        return run;
+    }
+    if (!run.handle) {
+        // Still being launched, launchRun stops it once it's up
+        return run;
+    }
+    try {
+        await getLauncher(run.launcher).stop(run.handle);
+    } catch (error) {
+        // The process may have exited in the meantime
+        console.warn(`Could not stop run ${runId}:`, error);
+    }
+
+    await processQueue();
+    return run;
+}
+
+/**
+ * Submit a new run with the same options as an earlier one,
+ * cancelling the earlier run first if it is still queued or running.
+ */
+export async function restartRun(runId: string): Promise<ExecutionRun> {
+    const options = submitOptions.get(runId);
+    if (!options) {
+        throw new Error(`Run not found: ${runId}`);
+    }
+
+    await cancelRun(runId);
+    return await submitRun(options);
+}
+
+/**
+ * Whether starting the run stays within the global and per working directory
+ * concurrency limits.
+ */
+function hasCapacityFor(run: ExecutionRun): boolean {
+    const runningRuns = listRuns().filter((r) => r.status === "running");
+    const runningInDirectory = runningRuns.filter(
+        (r) => r.codeDirectory === run.codeDirectory,
+    );
+
+    return (
+        runningRuns.length < CONFIG.MAX_CONCURRENT_RUNS &&
+        runningInDirectory.length < CONFIG.MAX_CONCURRENT_RUNS_PER_DIRECTORY
+    );
+}
+
+let isProcessingQueue = false;
+let isQueueDirty = false;
+
+/**
+ * Start queued runs until the queue is empty or no queued run fits within
+ * the concurrency limits.
+ */
+async function processQueue(): Promise<void> {
+    if (isProcessingQueue) {
+        // Let the ongoing pass pick up the change
+        isQueueDirty = true;
+        return;
+    }
+
+    isProcessingQueue = true;
+    try {
+        do {
+            isQueueDirty = false;
+            let run = takeNextRun(hasCapacityFor);
+            while (run) {
+                await launchRun(run);
+                run = takeNextRun(hasCapacityFor);
+            }
+        } while (isQueueDirty);
+    } finally {
+        isProcessingQueue = false;
+    }
+}
+
+/**
+ * Tell the agent which task it works on, so the Soltra MCP server it starts
+ * (see src/mcp/soltra-mcp.ts) knows the task its tools default to.
+ */
+function withTaskEnv(agent: AgentDefinition, taskId: string | undefined): AgentDefinition {
+    return taskId ? { ...agent, env: { ...agent.env, SOLTRA_TASK_ID: taskId } } : agent;
+}
+
+async function launchRun(run: ExecutionRun): Promise<void> {
+    // Count the run against the limits while its worktree is being created
+    markRunLaunching(run.id);
+
+    try {
+        const options = submitOptions.get(run.id);
+        if (run.worktree) {
+            await createWorktree(
+                resolve(CONFIG.ROOT_CODE_DIR, run.codeDirectory),
+                run.workingDirectory,
+                options?.branch,
+            );
+            if (run.status === "cancelled") {
+                // Cancelled while its worktree was being created, don't start the agent
+                return;
+            }
+        }
+
+        const agent = options?.agent ?? DEFAULT_AGENT;
+        const result = await getLauncher(run.launcher).launch({
+            command: buildAgentCommand(
+                withTaskEnv(agent, run.taskId),
+                run.prompt,
+                createRunPromptPath(run.id),
+            ),
+            workingDirectory: run.workingDirectory,
+            name: run.worktree || run.codeDirectory,
+            logPath: run.logPath,
+        });
+
+        if (run.status === "cancelled") {
+            // Cancelled while the launcher was starting the agent
+            await getLauncher(run.launcher).stop(result.handle);
+            return;
+        }
+
+        markRunStarted(run.id, result.handle);
+        publishRunEvent({ type: "run-started", run });
+
+        result.exited.then(async (exitCode) => {
+            console.log(`Run ${run.id} exited with code: ${exitCode}`);
+            try {
+                const verificationCommands = options?.verificationCommands ?? [];
+                if (
+                    exitCode === 0 &&
+                    run.status === "running" &&
+                    verificationCommands.length > 0
+                ) {
+                    // The run keeps its slot until it is verified
+                    await verifyRun(run, verificationCommands);
+                }
+            } catch (error) {
+                console.error(`Failed to verify run ${run.id}:`, error);
+                if (run.verification?.status === "running") {
+                    run.verification.status = "failed";
+                }
+            } finally {
+                // The run must finish and free its slot whatever happened above
+                const wasRunning = run.status === "running";
+                finishRun(run.id, exitCode);
+                // Cancelled runs were already announced when they were cancelled
+                if (wasRunning) {
+                    publishRunEvent({ type: "run-finished", run });
+                }
+                await processQueue();
+            }
+        });
+    } catch (error) {
+        if (run.status === "cancelled") {
+            return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to start run ${run.id}:`, error);
+        markRunFailedToStart(run.id, message);
+        publishRunEvent({ type: "run-finished", run });
+    }
+}
@@ -0,0 +1,162 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { appendFile } from "node:fs/promises";
+import { CONFIG } from "@/config";
+import type { ExecutionRun } from "./run-registry";
+
+export interface VerificationResult {
+    command: string; // Arguments joined by spaces, for display
+    exitCode: number | null; // null when it was killed, e.g. after timing out
+    output: string; // Combined stdout and stderr, only the end of long outputs
+    durationMs: number;
+    timedOut?: boolean;
+}
+
+export interface RunVerification {
+    status: "running" | "passed" | "failed";
+    results: VerificationResult[]; // In the order the commands ran
+}
+
+const MAX_COMMANDS = 20;
+const MAX_COMMAND_LENGTH = 1000;
+// Only the end of the output is kept with the run, the run log has all of it
+const MAX_OUTPUT_CHARS = 10_000;
+
+/**
+ * Verification command of each run that is being verified, so cancelling
+ * the run can stop it.
+ */
+const runningCommands = new Map<string, ChildProcess>();
+
+/**
+ * Validate the verification commands of a start request. Every command is an
+ * argv array, the program followed by its arguments, so nothing in a request
+ * goes through shell parsing.
+ * @returns The commands, or a message describing what is wrong with them
+ */
+export function parseVerificationCommands(value: unknown): string[][] | string {
+    if (!Array.isArray(value)) {
+        return 'Verification commands must be an array of argument arrays, e.g. [["bun", "test"]].';
+    }
+    if (value.length > MAX_COMMANDS) {
+        return `At most ${MAX_COMMANDS} verification commands are allowed.`;
+    }
+    const commands: string[][] = [];
+    for (const command of value) {
+        if (
+            !Array.isArray(command) ||
+            typeof command[0] !== "string" ||
+            command[0].trim() === "" ||
+            command.some((arg) => typeof arg !== "string" || arg.includes("\0"))
+        ) {
+            return "Verification commands must be arrays of strings without NUL characters, starting with the program to run.";
+        }
+        if (formatCommand(command).length > MAX_COMMAND_LENGTH) {
+            return `Verification commands must be at most ${MAX_COMMAND_LENGTH} characters long.`;
+        }
+        commands.push(command);
+    }
+    return commands;
+}
+
+function formatCommand(command: string[]): string {
+    return command.join(" ");
+}
+
+/**
+ * Run the verification commands of a run (tests, lint, build) one after the
+ * other in its working directory, once its agent has exited. Every command
+ * runs even if an earlier one failed, so the run records all results. The
+ * output is appended to the run log as well.
+ *
+ * The verification is recorded on the run as it progresses. It stops early
+ * when the run is cancelled.
+ */
+export async function verifyRun(
+    run: ExecutionRun,
+    commands: string[][],
+): Promise<RunVerification> {
+    const verification: RunVerification = { status: "running", results: [] };
+    run.verification = verification;
+
+    for (const argv of commands) {
+        if (run.status === "cancelled") {
+            break;
+        }
+        const command = formatCommand(argv);
+        await appendFile(run.logPath, `\n--- Verification: ${command}\n`);
+        const result = await runVerificationCommand(run, argv);
+        verification.results.push(result);
+        await appendFile(
+            run.logPath,
+            `--- ${result.timedOut ? "Timed out" : `Exited with code ${result.exitCode}`}: ${command}\n`,
+        );
+    }
+
+    verification.status =
+        verification.results.length === commands.length &&
+        verification.results.every((result) => result.exitCode === 0)
+            ? "passed"
+            : "failed";
+    console.log(`Run ${run.id} verification ${verification.status}`);
+    return verification;
+}
+
+/**
+ * Stop the verification command a run is waiting for, if any.
+ */
+export function stopVerification(runId: string): void {
+    const child = runningCommands.get(runId);
+    if (child?.pid) {
+        // The command leads its own process group, so signal the whole group
+        process.kill(-child.pid, "SIGTERM");
+    }
+}
+
+function runVerificationCommand(
+    run: ExecutionRun,
+    argv: string[],
+): Promise<VerificationResult> {
+    const startedAt = Date.now();
+
+    return new Promise((resolve) => {
+        let output = "";
+        let timedOut = false;
+
+        const [program, ...args] = argv;
+        const child = spawn(program!, args, {
+            cwd: run.workingDirectory,
+            detached: true,
+            stdio: ["ignore", "pipe", "pipe"],
+        });
+        runningCommands.set(run.id, child);
+
+        const collect = (chunk: Buffer) => {
+            const text = chunk.toString();
+            output = (output + text).slice(-MAX_OUTPUT_CHARS);
+            appendFile(run.logPath, text).catch((error) => {
+                console.warn(`Could not write verification output of run ${run.id}:`, error);
+            });
+        };
+        child.stdout?.on("data", collect);
+        child.stderr?.on("data", collect);
+
+        const timeout = setTimeout(() => {
+            timedOut = true;
+            stopVerification(run.id);
+        }, CONFIG.VERIFICATION_TIMEOUT_MS);
+
+        const finish = (exitCode: number | null, error?: Error) => {
+            clearTimeout(timeout);
+            runningCommands.delete(run.id);
+            resolve({
+                command: formatCommand(argv),
+                exitCode,
+                output: error ? `${output}${error.message}\n` : output,
+                durationMs: Date.now() - startedAt,
+                ...(timedOut && { timedOut }),
+            });
+        };
+        child.once("error", (error) => finish(null, error));
+        child.once("close", (code) => finish(code));
+    });
+}
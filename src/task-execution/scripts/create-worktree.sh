@@ -6,14 +6,17 @@
 # Arguments:
 # $1 - full path to source repository
 # $2 - full path to worktree directory
+# $3 - optional branch to check out, created from the current branch if it
+#      doesn't exist yet (defaults to the worktree directory name)
 
-if [ $# -ne 2 ]; then
-    echo "Usage: $0 <source-repo-path> <worktree-path>"
+if [ $# -lt 2 ] || [ $# -gt 3 ]; then
+    echo "Usage: $0 <source-repo-path> <worktree-path> [branch]"
     exit 1
 fi
 
 SOURCE_REPO="$1"
 WORKTREE_PATH="$2"
+BRANCH="${3:-$(basename "$WORKTREE_PATH")}"
 
 # Get the parent directory of the worktree path
 WORKTREES_BASE="$(dirname "$WORKTREE_PATH")"
@@ -49,8 +52,12 @@ echo "Source repository: $SOURCE_REPO"
 # Navigate to source repository and create worktree
 cd "$SOURCE_REPO" || exit 1
 
-# Create worktree from current branch
-git worktree add "$WORKTREE_PATH"
+# Check out the branch, or create it from the current branch
+if git show-ref --verify --quiet "refs/heads/$BRANCH"; then
+    git worktree add "$WORKTREE_PATH" "$BRANCH"
+else
+    git worktree add -b "$BRANCH" "$WORKTREE_PATH"
+fi
 
 if [ $? -eq 0 ]; then
     echo "Successfully created worktree: $WORKTREE_PATH"
@@ -6,14 +6,17 @@
 # Arguments:
 # $1 - full path to source repository
 # $2 - full path to worktree directory
+# $3 - optional "--force" to discard uncommitted changes and remove
+#      folders git no longer knows about
 
-if [ $# -ne 2 ]; then
-    echo "Usage: $0 <source-repo-path> <worktree-path>"
+if [ $# -lt 2 ] || [ $# -gt 3 ] || { [ $# -eq 3 ] && [ "$3" != "--force" ]; }; then
+    echo "Usage: $0 <source-repo-path> <worktree-path> [--force]"
     exit 1
 fi
 
 SOURCE_REPO="$1"
 WORKTREE_PATH="$2"
+FORCE="$3"
 
 # Get the parent directory of the worktree path
 WORKTREES_BASE="$(dirname "$WORKTREE_PATH")"
@@ -43,7 +46,14 @@ echo "Source repository: $SOURCE_REPO"
 cd "$SOURCE_REPO" || exit 1
 
 # Remove worktree
-git worktree remove "$WORKTREE_PATH"
+if [ -n "$FORCE" ]; then
+    # Forget worktrees whose folders are gone, then remove the folder even if
+    # git doesn't know about it anymore
+    git worktree prune
+    git worktree remove --force "$WORKTREE_PATH" || rm -rf -- "$WORKTREE_PATH"
+else
+    git worktree remove "$WORKTREE_PATH"
+fi
 
 if [ $? -eq 0 ]; then
     echo "Successfully removed worktree: $WORKTREE_PATH"
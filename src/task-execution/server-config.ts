@@ -0,0 +1,41 @@
+/**
+ * Settings only the execution server reads, taken from its environment
+ * (Bun loads them from .env as well). They stay out of src/config.ts on
+ * purpose: everything the frontend imports ends up in the JS bundle, which
+ * the server hands out without a token.
+ *
+ * - TASK_EXECUTION_SERVER_TOKEN: token of this app, entered in its settings
+ * - TASK_EXECUTION_CLIENT_TOKENS: further tokens by client name, as JSON,
+ *   e.g. {"cli": "..."}
+ * - TASK_EXECUTION_ALLOWED_ORIGINS: comma-separated browser origins besides
+ *   the server's own that may call the execution server
+ */
+
+function parseClientTokens(value: string | undefined): Record<string, string> {
+    if (!value) {
+        return {};
+    }
+    try {
+        const tokens = JSON.parse(value);
+        if (tokens && typeof tokens === "object" && !Array.isArray(tokens)) {
+            return Object.fromEntries(
+                Object.entries(tokens).filter(
+                    (entry): entry is [string, string] => typeof entry[1] === "string",
+                ),
+            );
+        }
+    } catch {
+        // Reported below
+    }
+    console.error("TASK_EXECUTION_CLIENT_TOKENS must be a JSON object of client names to tokens, ignoring it");
+    return {};
+}
+
+export const SERVER_CONFIG = {
+    TASK_EXECUTION_SERVER_TOKEN: process.env.TASK_EXECUTION_SERVER_TOKEN ?? "",
+    TASK_EXECUTION_CLIENT_TOKENS: parseClientTokens(process.env.TASK_EXECUTION_CLIENT_TOKENS),
+    TASK_EXECUTION_ALLOWED_ORIGINS: (process.env.TASK_EXECUTION_ALLOWED_ORIGINS ?? "")
+        .split(",")
+        .map((origin) => origin.trim())
+        .filter(Boolean),
+};
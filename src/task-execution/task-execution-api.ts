@@ -1,21 +1,234 @@
 import { CONFIG } from "@/config";
+import { getExecutionServerToken } from "./execution-server-token";
+import type { LauncherType } from "./launchers/types";
+import type { AgentDefinition } from "./agents/types";
+import type { MergeMode } from "./worktrees/types";
 
 export interface StartScriptRequest {
     argument: string;
     workingDirectory: string;
     worktree?: string;
+    branch?: string; // Branch for the worktree, defaults to the worktree name
+    launcher?: LauncherType;
+    agent?: AgentDefinition; // Agent CLI to run, defaults to claude
+    taskId?: string;
+    priority?: number; // Higher priorities leave the queue first, defaults to 0
+    fullPrompt?: boolean; // Argument is a rendered prompt template, pass it to the agent as is
+    verificationCommands?: string[][]; // Argv arrays run in the working directory after the agent succeeds, never through a shell
+}
+
+export interface StartScriptResponse {
+    message: string;
+    runId: string;
+    status: "queued" | "running";
+    launcher: LauncherType;
+    agent: string; // Name of the agent CLI
+    handle?: string; // tmux session name, PID or Terminal window id, once started
+    command: string;
+    prompt: string; // Final prompt passed to the agent
+    logPath: string;
+    queuedAt: string;
+    startedAt?: string;
+}
+
+export type RunStatus =
+    "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface VerificationResult {
+    command: string; // Arguments joined by spaces, for display
+    exitCode: number | null; // null when it was killed, e.g. after timing out
+    output: string; // Combined stdout and stderr, only the end of long outputs
+    durationMs: number;
+    timedOut?: boolean;
+}
+
+export interface RunVerification {
+    status: "running" | "passed" | "failed";
+    results: VerificationResult[];
+}
+
+export interface ExecutionRun {
+    id: string;
+    taskId?: string;
+    status: RunStatus;
+    launcher: LauncherType;
+    agent: string; // Name of the agent CLI
+    handle?: string;
+    codeDirectory: string; // Working directory as requested
+    workingDirectory: string;
+    worktree?: string;
+    prompt: string;
+    priority: number;
+    logPath: string;
+    queuedAt: string;
+    startedAt?: string;
+    endedAt?: string;
+    exitCode?: number | null;
+    error?: string; // Why the run couldn't be started
+    verification?: RunVerification; // Set once the verification commands start
+}
+
+export interface RunQueue {
+    running: ExecutionRun[];
+    queued: ExecutionRun[]; // In the order they will start
+    limits: {
+        maxConcurrentRuns: number;
+        maxConcurrentRunsPerDirectory: number;
+    };
 }
 
 export interface DeleteWorktreeRequest {
     workingDirectory: string;
+    force?: boolean; // Discard uncommitted changes and remove folders git no longer knows about
+}
+
+export interface WorktreeInfo {
+    name: string;
+    workingDirectory: string; // Repository it belongs to, relative to the coding directory
+    path: string;
+    branch: string | null; // null when detached or unknown
+    dirty: boolean;
+    registered: boolean; // Whether git still knows about it
+    taskId?: string; // Task of its latest run since the server started
+    runStatus?: RunStatus;
+}
+
+export interface FileEntry {
+    name: string;
+    kind: "file" | "directory";
+    relativePath: string; // Relative to the working directory
+}
+
+export interface ListFilesOptions {
+    path?: string; // Folder inside the working directory, defaults to its root
+    depth?: number; // Levels to list, defaults to 1 (direct children only)
+    offset?: number;
+    limit?: number; // Defaults to 500
+    query?: string; // Only entries whose path contains it, case-insensitive
+}
+
+export interface FileListing {
+    entries: FileEntry[]; // Sorted by path
+    total: number; // Entries before pagination
+    nextOffset: number | null; // null on the last page
+    gitignore: boolean; // Whether git's ignore rules applied
+}
+
+export interface FilePreview {
+    workingDirectory: string;
+    path: string;
+    size: number; // Bytes
+    tokens: number; // Rough estimate for the whole file, 0 for binary files
+    binary: boolean;
+    content: string; // Start of the file, cut at a block boundary
+    lines: number;
+    truncated: boolean;
 }
 
+export interface ContextEntryStats {
+    path: string;
+    kind: "file" | "directory";
+    size: number; // Bytes, summed over the files of a directory
+    tokens: number; // Rough estimate
+    files: number;
+}
+
+export interface ContextStats {
+    entries: ContextEntryStats[];
+    missing: string[]; // Paths that don't exist (anymore)
+    total: { size: number; tokens: number; files: number };
+}
+
+export interface FileSuggestion {
+    path: string; // Relative to the working directory
+    score: number; // Only meaningful compared to other suggestions
+    terms: string[]; // Words of the text the file matched, best first
+}
+
+/**
+ * Headers for every call to the execution server, which rejects requests
+ * without a valid token.
+ */
+function getHeaders(contentType?: string): Record<string, string> {
+    const headers: Record<string, string> = {
+        Authorization: `Bearer ${getExecutionServerToken()}`,
+    };
+    if (contentType) {
+        headers["Content-Type"] = contentType;
+    }
+    return headers;
+}
+
+export interface ChangedFile {
+    path: string;
+    status: string; // A added, M modified, D deleted, R renamed, ? untracked
+    additions: number | null; // null for binary files
+    deletions: number | null;
+}
+
+export interface WorktreeCommit {
+    hash: string;
+    author: string;
+    date: string;
+    subject: string;
+}
+
+export interface WorktreeChanges {
+    worktree: string;
+    workingDirectory: string;
+    branch: string | null;
+    base: string; // Branch the changes are compared against
+    mergeBase: string;
+    status: string; // `git status --short` of the worktree
+    files: ChangedFile[];
+    commits: WorktreeCommit[]; // Newest first
+    diff: string; // Unified diff against the merge base
+    truncated: boolean;
+}
+
+export interface MergeWorktreeRequest {
+    workingDirectory: string;
+    mode: MergeMode;
+    base?: string; // Defaults to the branch checked out in the working directory
+    message?: string; // Commit message for merge and squash commits
+}
+
+export interface MergeConflict {
+    path: string;
+    type:
+        | "both-modified"
+        | "both-added"
+        | "both-deleted"
+        | "added-by-us"
+        | "added-by-them"
+        | "deleted-by-us"
+        | "deleted-by-them";
+}
+
+export type MergeWorktreeResult =
+    | {
+          status: "merged";
+          mode: MergeMode;
+          base: string;
+          branch: string;
+          commits: number; // Commits that weren't on the base branch yet
+          head: string;
+      }
+    | {
+          status: "conflicts";
+          mode: MergeMode;
+          base: string;
+          branch: string;
+          conflicts: MergeConflict[];
+      }
+    | { status: "rejected"; reason: string };
+
 export async function startScript(
     request: StartScriptRequest,
 ): Promise<Response> {
     return await fetch(`${CONFIG.TASK_EXECUTION_SERVER_URL}/start-script`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: getHeaders("application/json"),
         body: JSON.stringify(request),
     });
 }
@@ -28,8 +241,251 @@ export async function deleteWorktree(
         `${CONFIG.TASK_EXECUTION_SERVER_URL}/worktree/${worktree}`,
         {
             method: "DELETE",
-            headers: { "Content-Type": "application/json" },
+            headers: getHeaders("application/json"),
+            body: JSON.stringify(request),
+        },
+    );
+}
+
+export async function cancelRun(runId: string): Promise<Response> {
+    return await fetch(
+        `${CONFIG.TASK_EXECUTION_SERVER_URL}/runs/${runId}/cancel`,
+        { method: "POST", headers: getHeaders() },
+    );
+}
+
+/**
+ * Restart a run. Responds like startScript with the new run.
+ */
+export async function restartRun(runId: string): Promise<Response> {
+    return await fetch(
+        `${CONFIG.TASK_EXECUTION_SERVER_URL}/runs/${runId}/restart`,
+        { method: "POST", headers: getHeaders() },
+    );
+}
+
+export async function listRuns(taskId?: string): Promise<ExecutionRun[]> {
+    const query = taskId ? `?taskId=${encodeURIComponent(taskId)}` : "";
+    const response = await fetch(
+        `${CONFIG.TASK_EXECUTION_SERVER_URL}/runs${query}`,
+        { headers: getHeaders() },
+    );
+    if (!response.ok) {
+        throw new Error(`Server responded with status ${response.status}`);
+    }
+    const body = await response.json();
+    return body.runs;
+}
+
+export async function listWorktrees(): Promise<WorktreeInfo[]> {
+    const response = await fetch(
+        `${CONFIG.TASK_EXECUTION_SERVER_URL}/worktrees`,
+        { headers: getHeaders() },
+    );
+    if (!response.ok) {
+        throw new Error(`Server responded with status ${response.status}`);
+    }
+    const body = await response.json();
+    return body.worktrees;
+}
+
+/**
+ * List files and folders of a working directory. Inside git repositories
+ * ignored files are left out.
+ */
+export async function listFiles(
+    workingDirectory: string,
+    options: ListFilesOptions = {},
+): Promise<FileListing> {
+    const query = new URLSearchParams({ workingDirectory });
+    for (const [key, value] of Object.entries(options)) {
+        if (value !== undefined && value !== "") {
+            query.set(key, String(value));
+        }
+    }
+    const response = await fetch(
+        `${CONFIG.TASK_EXECUTION_SERVER_URL}/files?${query}`,
+        { headers: getHeaders() },
+    );
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(
+            body?.details ??
+                body?.error ??
+                `Server responded with status ${response.status}`,
+        );
+    }
+    return await response.json();
+}
+
+/**
+ * Start of a file in a working directory with its size and token estimate.
+ */
+export async function getFilePreview(
+    workingDirectory: string,
+    path: string,
+    maxLines?: number,
+): Promise<FilePreview> {
+    const query = new URLSearchParams({ workingDirectory, path });
+    if (maxLines) {
+        query.set("maxLines", String(maxLines));
+    }
+    const response = await fetch(
+        `${CONFIG.TASK_EXECUTION_SERVER_URL}/file?${query}`,
+        { headers: getHeaders() },
+    );
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(
+            body?.details ??
+                body?.error ??
+                `Server responded with status ${response.status}`,
+        );
+    }
+    return await response.json();
+}
+
+/**
+ * Size and token estimate of every context entry and of all of them together.
+ */
+export async function getContextStats(
+    workingDirectory: string,
+    paths: string[],
+): Promise<ContextStats> {
+    const response = await fetch(
+        `${CONFIG.TASK_EXECUTION_SERVER_URL}/files/stats`,
+        {
+            method: "POST",
+            headers: getHeaders("application/json"),
+            body: JSON.stringify({ workingDirectory, paths }),
+        },
+    );
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(
+            body?.details ??
+                body?.error ??
+                `Server responded with status ${response.status}`,
+        );
+    }
+    return await response.json();
+}
+
+/**
+ * Files of the working directory ranked by relevance to a text, e.g. a
+ * task's title and description. The execution server ranks them locally.
+ */
+export async function suggestContextFiles(
+    workingDirectory: string,
+    text: string,
+    limit?: number,
+): Promise<FileSuggestion[]> {
+    const response = await fetch(
+        `${CONFIG.TASK_EXECUTION_SERVER_URL}/files/suggestions`,
+        {
+            method: "POST",
+            headers: getHeaders("application/json"),
+            body: JSON.stringify({ workingDirectory, text, limit }),
+        },
+    );
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(
+            body?.details ??
+                body?.error ??
+                `Server responded with status ${response.status}`,
+        );
+    }
+    const { suggestions } = await response.json();
+    return suggestions;
+}
+
+/**
+ * Changes of a worktree compared to a base branch, which defaults to the
+ * branch checked out in the working directory.
+ */
+export async function getWorktreeChanges(
+    worktree: string,
+    workingDirectory: string,
+    base?: string,
+): Promise<WorktreeChanges> {
+    const query = new URLSearchParams({ workingDirectory });
+    if (base) {
+        query.set("base", base);
+    }
+    const response = await fetch(
+        `${CONFIG.TASK_EXECUTION_SERVER_URL}/worktree/${encodeURIComponent(worktree)}/changes?${query}`,
+        { headers: getHeaders() },
+    );
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(
+            body?.details ??
+                body?.error ??
+                `Server responded with status ${response.status}`,
+        );
+    }
+    return await response.json();
+}
+
+/**
+ * Merge the branch of a worktree into a base branch of its working directory.
+ * Conflicts and refusals (e.g. uncommitted changes) are results, not errors.
+ */
+export async function mergeWorktree(
+    worktree: string,
+    request: MergeWorktreeRequest,
+): Promise<MergeWorktreeResult> {
+    const response = await fetch(
+        `${CONFIG.TASK_EXECUTION_SERVER_URL}/worktree/${encodeURIComponent(worktree)}/merge`,
+        {
+            method: "POST",
+            headers: getHeaders("application/json"),
             body: JSON.stringify(request),
         },
     );
+    const body = await response.json().catch(() => null);
+    if (response.ok || body?.status === "conflicts") {
+        return body;
+    }
+    if (response.status === 409 && body?.details) {
+        return { status: "rejected", reason: body.details };
+    }
+    throw new Error(
+        body?.details ??
+            body?.error ??
+            `Server responded with status ${response.status}`,
+    );
+}
+
+export async function getQueue(): Promise<RunQueue> {
+    const response = await fetch(`${CONFIG.TASK_EXECUTION_SERVER_URL}/queue`, {
+        headers: getHeaders(),
+    });
+    if (!response.ok) {
+        throw new Error(`Server responded with status ${response.status}`);
+    }
+    return await response.json();
+}
+
+/**
+ * EventSource can't send headers, so streams take the token in the query string.
+ */
+function getTokenQuery(): string {
+    return `token=${encodeURIComponent(getExecutionServerToken())}`;
+}
+
+/**
+ * URL of the Server-Sent Events stream with the output of a run,
+ * starting at the given byte offset.
+ */
+export function getRunLogUrl(runId: string, offset: number = 0): string {
+    return `${CONFIG.TASK_EXECUTION_SERVER_URL}/runs/${runId}/log?offset=${offset}&${getTokenQuery()}`;
+}
+
+/**
+ * URL of the Server-Sent Events stream with run lifecycle events.
+ */
+export function getRunEventsUrl(): string {
+    return `${CONFIG.TASK_EXECUTION_SERVER_URL}/events?${getTokenQuery()}`;
 }
@@ -5,9 +5,14 @@
  *
  * {
  *   "<taskId>": {
- *     "workingDirectory": string,  // Absolute path to the working directory
+ *     "workingDirectory": string,  // Absolute path to the working directory (optional when a product has one)
  *     "context": string[],         // List of files/folders relevant to the task
- *     "async": boolean             // Whether to run in worktree (true) or not (false)
+ *     "contextPresetIds": string[], // Context presets of the task's products to include (optional)
+ *     "async": boolean,            // Whether to run in worktree (true) or not (false) (optional, inherited from the products)
+ *     "promptTemplateId": string,  // UUID of the prompt template for this task (optional, overrides the product's)
+ *     "agentId": string,           // UUID of the agent CLI for this task (optional, overrides the product's)
+ *     "worktree": string,          // Name of the task's worktree (optional, recorded at its first async run)
+ *     "branch": string             // Branch checked out in that worktree (optional, recorded with the worktree)
  *   },
  *   ...
  * }
@@ -17,7 +22,11 @@
  *   "8cd4a5d6-b7a7-4462-929e-ad599b0a5484": {
  *     "workingDirectory": "/home/user/projects/my-project",
  *     "context": ["src/main.ts", "package.json", "docs/"],
- *     "async": true
+ *     "contextPresetIds": ["0d6f2c1e-3b4a-4f5e-8a9b-7c6d5e4f3a2b"],
+ *     "async": true,
+ *     "promptTemplateId": "5f0c7a4e-2b1d-4c8e-9a3f-6d7e8f9a0b1c",
+ *     "worktree": "add-login-page-8cd4a5d6",
+ *     "branch": "add-login-page-8cd4a5d6"
  *   },
  *   "42ac9c44-067f-4aed-8014-7fac3e0b890f": {
  *     "workingDirectory": "/home/user/documents/research",
@@ -25,62 +34,143 @@
  *     "async": false
  *   }
  * }
+ *
+ * - Settings a task leaves out are inherited through its product hierarchy,
+ *   see resolveExecutionSettings. An empty "context" uses the nearest
+ *   product's default context until files are picked for the task.
+ * - Preset ids are resolved to paths when the task is executed, so the task
+ *   follows changes to the preset. Ids of deleted presets are ignored.
+ * - The worktree and branch names don't change when the task is renamed, so
+ *   later runs and the cleanup find the same worktree.
  */
 
 import {
     readFile,
     writeFile,
     DataFileName,
-} from "src/persistence/file-system-handles";
-import { getProductByTaskUuid } from "src/entities/products/product-service";
+} from "src/persistence/storage-backend";
+import { getProductHierarchyForTask } from "src/entities/products/product-service";
+import {
+    resolveExecutionSettings,
+    type ExecutionSettings,
+} from "./execution-settings";
 
 export interface TaskExecutionContext {
     taskId: string;
     workingDirectory: string;
     context: string[];
+    contextPresetIds?: string[];
     async: boolean;
+    promptTemplateId?: string;
+    agentId?: string;
+    worktree?: string;
+    branch?: string;
 }
 
 /**
- * Gets the execution context for a task by checking the Product's working directory first,
- * then falling back to the task's execution context working directory.
+ * What the file stores for a task: only the settings the task picked itself,
+ * the working directory and "async" are left out to inherit them from the
+ * product hierarchy.
+ */
+interface StoredTaskExecutionContext
+    extends Omit<TaskExecutionContext, "workingDirectory" | "async"> {
+    workingDirectory?: string;
+    async?: boolean;
+}
+
+/**
+ * Effective execution settings of a task and where each comes from, see
+ * resolveExecutionSettings.
+ */
+export async function getTaskExecutionSettings(
+    taskId: string
+): Promise<ExecutionSettings> {
+    const [executionContexts, hierarchy] = await Promise.all([
+        loadTaskExecutionContexts(),
+        getProductHierarchyForTask(taskId),
+    ]);
+    const own = executionContexts.find((d) => d.taskId === taskId);
+    return resolveExecutionSettings(own, hierarchy);
+}
+
+/**
+ * Gets the execution context for a task, with the settings the task doesn't
+ * pick itself inherited through its whole product hierarchy. The nearest
+ * product's working directory wins over the task's own.
  *
  * @returns The task execution context, or null if no directory is found
  */
 export async function getTaskExecutionContext(
     taskId: string
 ): Promise<TaskExecutionContext | null> {
-    const executionContexts = await loadTaskExecutionContexts();
+    const [executionContexts, hierarchy] = await Promise.all([
+        loadTaskExecutionContexts(),
+        getProductHierarchyForTask(taskId),
+    ]);
 
     // Get the current task's own context (if any)
-    const ownTaskExecutionContext = executionContexts.find(
-        (d) => d.taskId === taskId
-    );
-    const ownContext = ownTaskExecutionContext?.context || [];
-    const ownAsync = ownTaskExecutionContext?.async ?? false;
-
-    // First, try to get the working directory from the Product
-    const product = await getProductByTaskUuid(taskId);
-    if (product?.workingDirectory) {
-        return {
-            taskId,
-            workingDirectory: product.workingDirectory,
-            context: ownContext,
-            async: ownAsync,
-        };
+    const own = executionContexts.find((d) => d.taskId === taskId);
+    const settings = resolveExecutionSettings(own, hierarchy);
+    if (!settings.workingDirectory.value) {
+        return null;
     }
 
-    // If no Product working directory, fall back to the task's execution context
-    if (ownTaskExecutionContext?.workingDirectory) {
-        return {
-            taskId,
-            workingDirectory: ownTaskExecutionContext.workingDirectory,
-            context: ownContext,
-            async: ownAsync,
-        };
+    return {
+        taskId,
+        workingDirectory: settings.workingDirectory.value,
+        context: settings.context.value,
+        contextPresetIds: own?.contextPresetIds,
+        async: settings.async.value,
+        promptTemplateId: own?.promptTemplateId,
+        agentId: own?.agentId,
+        worktree: own?.worktree,
+        branch: own?.branch,
+    };
+}
+
+/**
+ * A context for a task that doesn't have one yet, inheriting everything.
+ * Without a context of its own, the task's working directory comes from its
+ * products, so there must be one.
+ */
+async function newTaskExecutionContext(
+    taskId: string
+): Promise<StoredTaskExecutionContext | null> {
+    const executionContext = await getTaskExecutionContext(taskId);
+    if (!executionContext) {
+        return null;
+    }
+    return { taskId, context: [] };
+}
+
+/**
+ * Apply a change to a task's own context, starting one that inherits
+ * everything else when the task doesn't have one yet.
+ *
+ * @param change What is being changed, for the error when the task has no
+ *               working directory to start a context from
+ */
+async function updateTaskExecutionContext(
+    taskId: string,
+    patch: Partial<Omit<StoredTaskExecutionContext, "taskId">>,
+    change: string
+): Promise<void> {
+    const executionContexts = await loadTaskExecutionContexts();
+    const existing = executionContexts.find((d) => d.taskId === taskId);
+
+    if (existing) {
+        Object.assign(existing, patch);
+    } else {
+        const executionContext = await newTaskExecutionContext(taskId);
+        if (!executionContext) {
+            throw new Error(
+                `Task execution context must have a working directory before ${change}`
+            );
+        }
+        executionContexts.push({ ...executionContext, ...patch });
     }
 
-    return null;
+    await storeTaskExecutionContexts(executionContexts);
 }
 
 export async function setTaskExecutionContext(
@@ -90,14 +180,10 @@ export async function setTaskExecutionContext(
     async: boolean = false
 ): Promise<void> {
     const executionContexts = await loadTaskExecutionContexts();
-    const existingIndex = executionContexts.findIndex(
-        (d) => d.taskId === taskId
-    );
+    const existing = executionContexts.find((d) => d.taskId === taskId);
 
-    if (existingIndex !== -1) {
-        executionContexts[existingIndex]!!.workingDirectory = workingDirectory;
-        executionContexts[existingIndex]!!.context = context;
-        executionContexts[existingIndex]!!.async = async;
+    if (existing) {
+        Object.assign(existing, { workingDirectory, context, async });
     } else {
         executionContexts.push({ taskId, workingDirectory, context, async });
     }
@@ -105,6 +191,120 @@ export async function setTaskExecutionContext(
     await storeTaskExecutionContexts(executionContexts);
 }
 
+/**
+ * Pick the context presets whose paths are added to the task's own context.
+ */
+export async function setContextPresetsOnTaskExecutionContext(
+    taskId: string,
+    contextPresetIds: string[]
+): Promise<void> {
+    await updateTaskExecutionContext(
+        taskId,
+        { contextPresetIds },
+        "picking context presets"
+    );
+}
+
+/**
+ * Pick whether a task runs in a worktree, or clear it to use the product's choice.
+ */
+export async function setAsyncOnTaskExecutionContext(
+    taskId: string,
+    async: boolean | undefined
+): Promise<void> {
+    await updateTaskExecutionContext(
+        taskId,
+        { async },
+        "picking whether it runs in a worktree"
+    );
+}
+
+/**
+ * Pick the prompt template for a task, or clear it to use the product's template.
+ */
+export async function setPromptTemplateOnTaskExecutionContext(
+    taskId: string,
+    promptTemplateId: string | undefined
+): Promise<void> {
+    await updateTaskExecutionContext(
+        taskId,
+        { promptTemplateId },
+        "picking a prompt template"
+    );
+}
+
+/**
+ * Pick the agent CLI for a task, or clear it to use the product's agent.
+ */
+export async function setAgentOnTaskExecutionContext(
+    taskId: string,
+    agentId: string | undefined
+): Promise<void> {
+    await updateTaskExecutionContext(taskId, { agentId }, "picking an agent");
+}
+
+/**
+ * Record the worktree and branch of a task, used by all of its later runs.
+ */
+export async function setWorktreeOnTaskExecutionContext(
+    taskId: string,
+    worktree: string,
+    branch: string
+): Promise<void> {
+    await updateTaskExecutionContext(
+        taskId,
+        { worktree, branch },
+        "recording a worktree"
+    );
+}
+
+/**
+ * Task ids by the name of their recorded worktree.
+ */
+export async function getTaskIdsByWorktree(): Promise<Map<string, string>> {
+    const executionContexts = await loadTaskExecutionContexts();
+    return new Map(
+        executionContexts.flatMap((d): [string, string][] =>
+            d.worktree ? [[d.worktree, d.taskId]] : []
+        )
+    );
+}
+
+/**
+ * Record worktrees for contexts from before worktree names were stored.
+ * `findLegacyWorktree` returns the worktree a task has been using, if any,
+ * contexts without one get a new name at their next async run.
+ *
+ * @returns The number of contexts that were updated
+ */
+export async function migrateTaskExecutionContextWorktrees(
+    findLegacyWorktree: (taskId: string) => string | undefined
+): Promise<number> {
+    const executionContexts = await loadTaskExecutionContexts();
+    let migrated = 0;
+
+    for (const executionContext of executionContexts) {
+        if (executionContext.worktree) {
+            continue;
+        }
+        const worktree = findLegacyWorktree(executionContext.taskId);
+        if (worktree) {
+            // Worktrees used to be created on a branch named after them
+            executionContext.worktree = worktree;
+            executionContext.branch = worktree;
+            migrated++;
+        }
+    }
+
+    if (migrated > 0) {
+        console.log(
+            `[task-execution-context-storage] migrateTaskExecutionContextWorktrees: Recorded worktrees for ${migrated} execution contexts`
+        );
+        await storeTaskExecutionContexts(executionContexts);
+    }
+    return migrated;
+}
+
 export async function removeTaskExecutionContext(
     taskId: string
 ): Promise<void> {
@@ -117,35 +317,14 @@ export async function setFilesOnTaskExecutionContext(
     taskId: string,
     files: string[]
 ): Promise<void> {
-    const executionContexts = await loadTaskExecutionContexts();
-    const contextIndex = executionContexts.findIndex(
-        (d) => d.taskId === taskId
+    await updateTaskExecutionContext(
+        taskId,
+        { context: files },
+        "setting files"
     );
-
-    if (contextIndex !== -1) {
-        executionContexts[contextIndex]!!.context = files;
-        await storeTaskExecutionContexts(executionContexts);
-    } else {
-        // If no context exists, get the execution context (which includes inherited working directory)
-        const executionContext = await getTaskExecutionContext(taskId);
-        if (executionContext?.workingDirectory) {
-            // Create a new context entry with the inherited working directory
-            executionContexts.push({
-                taskId,
-                workingDirectory: executionContext.workingDirectory,
-                context: files,
-                async: executionContext.async,
-            });
-            await storeTaskExecutionContexts(executionContexts);
-        } else {
-            throw new Error(
-                "Task execution context must have a working directory before setting files"
-            );
-        }
-    }
 }
 
-async function loadTaskExecutionContexts(): Promise<TaskExecutionContext[]> {
+async function loadTaskExecutionContexts(): Promise<StoredTaskExecutionContext[]> {
     const text = await readFile(DataFileName.TASK_EXECUTION_CONTEXT);
     if (!text) {
         console.log(
@@ -158,15 +337,25 @@ async function loadTaskExecutionContexts(): Promise<TaskExecutionContext[]> {
     if (obj && typeof obj === "object") {
         const contexts = Object.entries(obj).map(([taskId, value]) => {
             const data = value as {
-                workingDirectory: string;
+                workingDirectory?: string;
                 context?: string[];
+                contextPresetIds?: string[];
                 async?: boolean;
+                promptTemplateId?: string;
+                agentId?: string;
+                worktree?: string;
+                branch?: string;
             };
             return {
                 taskId,
-                workingDirectory: data.workingDirectory,
+                workingDirectory: data.workingDirectory || undefined,
                 context: data.context || [],
-                async: data.async ?? false,
+                contextPresetIds: data.contextPresetIds,
+                async: data.async,
+                promptTemplateId: data.promptTemplateId,
+                agentId: data.agentId,
+                worktree: data.worktree,
+                branch: data.branch,
             };
         });
         console.log(
@@ -179,16 +368,21 @@ async function loadTaskExecutionContexts(): Promise<TaskExecutionContext[]> {
 }
 
 async function storeTaskExecutionContexts(
-    executionContexts: TaskExecutionContext[]
+    executionContexts: StoredTaskExecutionContext[]
 ): Promise<void> {
     const executionContextsObj = executionContexts.reduce((acc, d) => {
         acc[d.taskId] = {
-            workingDirectory: d.workingDirectory,
+            ...(d.workingDirectory && { workingDirectory: d.workingDirectory }),
             context: d.context,
-            async: d.async,
+            ...(d.contextPresetIds?.length && { contextPresetIds: d.contextPresetIds }),
+            ...(d.async !== undefined && { async: d.async }),
+            ...(d.promptTemplateId && { promptTemplateId: d.promptTemplateId }),
+            ...(d.agentId && { agentId: d.agentId }),
+            ...(d.worktree && { worktree: d.worktree }),
+            ...(d.branch && { branch: d.branch }),
         };
         return acc;
-    }, {} as Record<string, { workingDirectory: string; context: string[]; async: boolean }>);
+    }, {} as Record<string, { workingDirectory?: string; context: string[]; contextPresetIds?: string[]; async?: boolean; promptTemplateId?: string; agentId?: string; worktree?: string; branch?: string }>);
 
     console.log(
         `[task-execution-context-storage] storeTaskExecutionContexts: Saving ${executionContexts.length} execution contexts`
@@ -1,27 +1,33 @@
 import type { Task } from "src/entities/tasks/types";
-import { getProductHierarchyForTask } from "src/entities/products/product-service";
 import { updateTask } from "src/entities/tasks/task-service";
-import { startScript } from "./task-execution-api";
+import {
+    cancelRun,
+    restartRun,
+    startScript,
+    type StartScriptResponse,
+} from "./task-execution-api";
+import {
+    addTaskExecutionRun,
+    updateTaskExecutionRun,
+    type TaskExecutionRun,
+} from "./task-execution-run-storage";
+import { renderTaskPrompt } from "./prompt-templates";
+import { resolveAgent } from "./agent-service";
+import { getTaskWorktree } from "./worktree-service";
+import { resolveVerificationCommands } from "./verification-service";
+import { resolveTaskContext } from "./context-preset-service";
+import { recordTaskExecutionRun } from "./task-execution-run-service";
 
 export interface TaskExecutionResult {
     success: boolean;
     error?: string;
+    runId?: string;
 }
 
-export function createWorktreeName(taskTitle: string): string {
-    return taskTitle
-        .toLowerCase()
-        .replace(/[^a-z0-9\s-]/g, "")
-        .replace(/\s+/g, "-")
-        .replace(/^-+|-+$/g, "")
-        .substring(0, 50);
-}
-
-async function getTaskBreadcrumbs(taskUuid: string): Promise<string[]> {
-    const productHierarchy = await getProductHierarchyForTask(taskUuid);
-    return productHierarchy.map((product) => product.title);
-}
-
+/**
+ * Start an agent for the task. The paths of the task's context presets are
+ * added to `context`.
+ */
 export async function executeTask(
     task: Task,
     workingDirectory: string | null,
@@ -35,7 +41,8 @@ export async function executeTask(
         };
     }
 
-    if (context.length === 0) {
+    const taskContext = await resolveTaskContext(task.uuid, context);
+    if (taskContext.length === 0) {
         return {
             success: false,
             error: "At least 1 file or folder must be added to the context",
@@ -45,32 +52,62 @@ export async function executeTask(
     await updateTask({ ...task, status: "In Progress" });
 
     try {
-        const breadcrumbs = (await getTaskBreadcrumbs(task.uuid)).join(" - ");
-        const contextString =
-            context.length > 0
-                ? `, Relevant files or folders: ${context.map((ctx) => `@${ctx}`).join(", ")}`
-                : "";
-
-        const argumentWithBreadcrumbs = `${task.title} (Context: ${breadcrumbs}${contextString}) ${task.description}`;
+        const { prompt } = await renderTaskPrompt(task, taskContext, async);
+        const { agent } = await resolveAgent(task.uuid);
 
         const requestBody: any = {
-            argument: argumentWithBreadcrumbs,
+            argument: prompt,
             workingDirectory: workingDirectory,
+            taskId: task.uuid,
+            fullPrompt: true,
+            agent,
         };
 
+        const verificationCommands = await resolveVerificationCommands(
+            task.uuid,
+        );
+        if (verificationCommands.length > 0) {
+            requestBody.verificationCommands = verificationCommands;
+        }
+
         // Only include worktree if async is true
         if (async) {
-            const worktree = createWorktreeName(task.title);
+            const { worktree, branch } = await getTaskWorktree(task);
             requestBody.worktree = worktree;
+            requestBody.branch = branch;
         }
 
         const response = await startScript(requestBody);
 
         if (!response.ok) {
-            throw new Error(`Server responded with status ${response.status}`);
+            const error = `Server responded with status ${response.status}`;
+            await addTaskExecutionRun({
+                runId: crypto.randomUUID(),
+                taskId: task.uuid,
+                prompt,
+                workingDirectory,
+                worktree: requestBody.worktree,
+                startedAt: new Date().toISOString(),
+                error,
+            });
+            throw new Error(error);
         }
 
-        return { success: true };
+        const body: StartScriptResponse = await response.json();
+        await recordTaskExecutionRun({
+            runId: body.runId,
+            taskId: task.uuid,
+            prompt: body.prompt,
+            workingDirectory,
+            worktree: requestBody.worktree,
+            launcher: body.launcher,
+            agent: body.agent,
+            handle: body.handle,
+            startedAt: body.startedAt ?? body.queuedAt,
+            logPath: body.logPath,
+        });
+
+        return { success: true, runId: body.runId };
     } catch (err) {
         const error =
             err instanceof Error ? err.message : "Failed to execute task";
@@ -80,3 +117,97 @@ export async function executeTask(
         };
     }
 }
+
+/**
+ * Stop the agent of a run. Optionally moves the task back from
+ * "In Progress" to "Ready" so it can be picked up again.
+ */
+export async function cancelTaskExecution(
+    task: Task,
+    run: TaskExecutionRun,
+    moveTaskToReady: boolean = false,
+): Promise<TaskExecutionResult> {
+    try {
+        const response = await cancelRun(run.runId);
+
+        if (!response.ok) {
+            throw new Error(`Server responded with status ${response.status}`);
+        }
+
+        await updateTaskExecutionRun({
+            ...run,
+            endedAt: run.endedAt ?? new Date().toISOString(),
+            cancelled: true,
+        });
+
+        if (moveTaskToReady && task.status === "In Progress") {
+            await updateTask({ ...task, status: "Ready" });
+        }
+
+        return { success: true, runId: run.runId };
+    } catch (err) {
+        const error =
+            err instanceof Error
+                ? err.message
+                : "Failed to cancel task execution";
+        return {
+            success: false,
+            error,
+        };
+    }
+}
+
+/**
+ * Run the agent again with the same prompt and working directory as an earlier run.
+ * The earlier run is cancelled if it is still running.
+ */
+export async function restartTaskExecution(
+    task: Task,
+    run: TaskExecutionRun,
+): Promise<TaskExecutionResult> {
+    try {
+        const response = await restartRun(run.runId);
+
+        if (!response.ok) {
+            throw new Error(`Server responded with status ${response.status}`);
+        }
+
+        if (!run.endedAt) {
+            await updateTaskExecutionRun({
+                ...run,
+                endedAt: new Date().toISOString(),
+                cancelled: true,
+            });
+        }
+
+        // Before recording the run, which completes it right away if it already finished
+        if (task.status !== "In Progress") {
+            await updateTask({ ...task, status: "In Progress" });
+        }
+
+        const body: StartScriptResponse = await response.json();
+        await recordTaskExecutionRun({
+            runId: body.runId,
+            taskId: task.uuid,
+            prompt: body.prompt,
+            workingDirectory: run.workingDirectory,
+            worktree: run.worktree,
+            launcher: body.launcher,
+            agent: body.agent,
+            handle: body.handle,
+            startedAt: body.startedAt ?? body.queuedAt,
+            logPath: body.logPath,
+        });
+
+        return { success: true, runId: body.runId };
+    } catch (err) {
+        const error =
+            err instanceof Error
+                ? err.message
+                : "Failed to restart task execution";
+        return {
+            success: false,
+            error,
+        };
+    }
+}
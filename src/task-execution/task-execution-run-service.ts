@@ -0,0 +1,221 @@
+import { loadTasks } from "src/entities/tasks/task-file-storage";
+import { updateTask } from "src/entities/tasks/task-service";
+import {
+    getRunEventsUrl,
+    listRuns,
+    type ExecutionRun,
+} from "./task-execution-api";
+import {
+    addTaskExecutionRun,
+    getTaskExecutionRuns,
+    loadTaskExecutionRuns,
+    updateTaskExecutionRun,
+    type TaskExecutionRun,
+} from "./task-execution-run-storage";
+import { describeVerificationFailures } from "./verification-service";
+
+const RECONNECT_DELAY_MS = 5000;
+// Enough for every run started at about the same time
+const MAX_UNRECORDED_RUNS = 100;
+
+/**
+ * Latest state of runs the execution server reported before they were
+ * recorded here. The server only answers /start-script once the run is
+ * queued or started, so an agent that exits right away can finish before
+ * executeTask records its run.
+ */
+const unrecordedRuns = new Map<string, ExecutionRun>();
+
+// Runs are recorded, started and completed one at a time, they read and
+// write the same data files
+let pending: Promise<unknown> = Promise.resolve();
+
+function runSerially<T>(update: () => Promise<T>): Promise<T> {
+    const result = pending.then(update);
+    pending = result.catch(() => undefined);
+    return result;
+}
+
+function rememberUnrecordedRun(serverRun: ExecutionRun): void {
+    unrecordedRuns.delete(serverRun.id);
+    unrecordedRuns.set(serverRun.id, serverRun);
+    // Runs of other clients are never recorded here, forget the oldest
+    if (unrecordedRuns.size > MAX_UNRECORDED_RUNS) {
+        unrecordedRuns.delete(unrecordedRuns.keys().next().value!);
+    }
+}
+
+/**
+ * Record a run the execution server accepted, catching up on what the
+ * server reported about it before it was recorded.
+ */
+export async function recordTaskExecutionRun(
+    run: TaskExecutionRun,
+): Promise<void> {
+    await runSerially(async () => {
+        await addTaskExecutionRun(run);
+
+        const serverRun = unrecordedRuns.get(run.runId);
+        if (serverRun) {
+            unrecordedRuns.delete(run.runId);
+            await startTaskExecutionRun(serverRun);
+            await completeTaskExecutionRun(serverRun);
+        }
+    });
+}
+
+/**
+ * Get the runs of a task, newest first, after completing runs that have
+ * finished since they were recorded from the execution server.
+ */
+export async function refreshTaskExecutionRuns(
+    taskId: string,
+): Promise<TaskExecutionRun[]> {
+    const runs = await getTaskExecutionRuns(taskId);
+    const hasUnfinishedRuns = runs.some((run) => !run.endedAt && !run.error);
+    if (!hasUnfinishedRuns) {
+        return runs;
+    }
+
+    try {
+        for (const serverRun of await listRuns(taskId)) {
+            if (serverRun.status !== "queued" && serverRun.status !== "running") {
+                await runSerially(() => completeTaskExecutionRun(serverRun));
+            }
+        }
+    } catch (error) {
+        console.warn("Could not refresh runs from execution server:", error);
+        return runs;
+    }
+
+    return await getTaskExecutionRuns(taskId);
+}
+
+/**
+ * Record the outcome of a finished run and move its task along:
+ * a successful run moves the task to "In Review", a failed run moves it back
+ * to "Ready" with a note. A run whose agent succeeded but whose verification
+ * commands failed counts as failed, so it never moves on towards "Done".
+ * Cancelled runs and tasks that were moved out of "In Progress" in the
+ * meantime are left alone.
+ *
+ * Runs that were already completed, and runs that haven't finished yet, are
+ * ignored, so this is safe to call for every run the execution server reports.
+ * Runs that aren't recorded yet are completed once recordTaskExecutionRun
+ * records them.
+ */
+export async function completeTaskExecutionRun(
+    serverRun: ExecutionRun,
+): Promise<void> {
+    if (serverRun.status === "queued" || serverRun.status === "running") {
+        return;
+    }
+
+    const runs = await loadTaskExecutionRuns();
+    const run = runs.find((r) => r.runId === serverRun.id);
+    if (!run) {
+        rememberUnrecordedRun(serverRun);
+        return;
+    }
+    if (run.endedAt) {
+        return;
+    }
+
+    const isCancelled = serverRun.status === "cancelled";
+    await updateTaskExecutionRun({
+        ...run,
+        handle: serverRun.handle ?? run.handle,
+        endedAt: serverRun.endedAt ?? new Date().toISOString(),
+        exitCode: serverRun.exitCode,
+        cancelled: isCancelled || undefined,
+        error: serverRun.error ?? run.error,
+        verification: serverRun.verification,
+    });
+
+    if (isCancelled) {
+        return;
+    }
+
+    const task = (await loadTasks()).find((t) => t.uuid === run.taskId);
+    if (!task || task.status !== "In Progress") {
+        return;
+    }
+
+    const isVerified = serverRun.verification?.status !== "failed";
+    if (serverRun.status === "succeeded" && isVerified) {
+        await updateTask({ ...task, status: "In Review" });
+    } else {
+        const exitCode = serverRun.exitCode ?? "unknown";
+        let text = `Run ${run.runId} failed with exit code ${exitCode}`;
+        if (serverRun.error) {
+            text = `Run ${run.runId} failed to start: ${serverRun.error}`;
+        } else if (serverRun.verification && !isVerified) {
+            text = `Run ${run.runId} failed verification: ${describeVerificationFailures(serverRun.verification)}`;
+        }
+        await updateTask({
+            ...task,
+            status: "Ready",
+            notes: [
+                ...(task.notes ?? []),
+                { createdAt: new Date().toISOString(), text },
+            ],
+        });
+    }
+}
+
+/**
+ * Record when a queued run got its turn and was launched.
+ */
+export async function startTaskExecutionRun(
+    serverRun: ExecutionRun,
+): Promise<void> {
+    const runs = await loadTaskExecutionRuns();
+    const run = runs.find((r) => r.runId === serverRun.id);
+    if (!run) {
+        rememberUnrecordedRun(serverRun);
+        return;
+    }
+    if (run.endedAt || run.handle) {
+        return;
+    }
+
+    await updateTaskExecutionRun({
+        ...run,
+        handle: serverRun.handle,
+        startedAt: serverRun.startedAt ?? run.startedAt,
+    });
+}
+
+/**
+ * Listen to run lifecycle events pushed by the execution server, recording
+ * queued runs once they start and completing runs as soon as they finish.
+ * Reconnects when the server goes away.
+ */
+export function registerRunLifecycleListener(): void {
+    const connect = () => {
+        const eventSource = new EventSource(getRunEventsUrl());
+
+        eventSource.onmessage = (event) => {
+            const runEvent = JSON.parse(event.data) as {
+                type: "run-started" | "run-finished";
+                run: ExecutionRun;
+            };
+            runSerially(() =>
+                runEvent.type === "run-started"
+                    ? startTaskExecutionRun(runEvent.run)
+                    : completeTaskExecutionRun(runEvent.run),
+            ).catch((error) => {
+                console.error(`Failed to handle ${runEvent.type} event:`, error);
+            });
+        };
+
+        eventSource.onerror = () => {
+            // EventSource retries by itself unless the stream was rejected
+            if (eventSource.readyState === EventSource.CLOSED) {
+                setTimeout(connect, RECONNECT_DELAY_MS);
+            }
+        };
+    };
+
+    connect();
+}
@@ -0,0 +1,167 @@
+/**
+ * Task Execution Run Storage Format
+ *
+ * Every execution of a task is recorded as a run in a single JSON file with the following structure:
+ *
+ * {
+ *   "runs": [
+ *     {
+ *       "runId": string,            // Id assigned by the execution server
+ *       "taskId": string,           // UUID of the executed task
+ *       "prompt": string,           // Final prompt passed to the agent
+ *       "workingDirectory": string, // Working directory relative to the coding directory
+ *       "worktree": string,         // Name of the worktree (optional, async runs only)
+ *       "launcher": string,         // Launcher that started the agent (optional)
+ *       "agent": string,            // Name of the agent CLI (optional)
+ *       "handle": string,           // tmux session name, PID or Terminal window id (optional, missing while queued)
+ *       "startedAt": string,        // ISO timestamp, time of queueing until the agent is launched
+ *       "endedAt": string,          // ISO timestamp (optional, set once the agent exits)
+ *       "exitCode": number | null,  // Exit code of the agent (optional, null if unknown)
+ *       "cancelled": boolean,       // Whether the run was cancelled (optional)
+ *       "logPath": string,          // Location of the agent output on the execution server (optional)
+ *       "error": string,            // Why the run failed to start (optional)
+ *       "verification": {           // Outcome of the product's verification commands (optional)
+ *         "status": string,         // "running", "passed" or "failed"
+ *         "results": [
+ *           {
+ *             "command": string,
+ *             "exitCode": number | null, // null when the command was killed
+ *             "output": string,      // End of the combined stdout and stderr
+ *             "durationMs": number,
+ *             "timedOut": boolean    // (optional)
+ *           }
+ *         ]
+ *       }
+ *     },
+ *     ...
+ *   ]
+ * }
+ *
+ * Example:
+ * {
+ *   "runs": [
+ *     {
+ *       "runId": "0b6f1c1e-3f51-4a8e-9d57-2a3c7f2f4a10",
+ *       "taskId": "8cd4a5d6-b7a7-4462-929e-ad599b0a5484",
+ *       "prompt": "Research (Context: Soltra, Relevant files or folders: @src/) Conduct research",
+ *       "workingDirectory": "soltra",
+ *       "worktree": "research",
+ *       "launcher": "tmux",
+ *       "agent": "Claude",
+ *       "handle": "soltra-research-0b6f1c1e",
+ *       "startedAt": "2025-01-01T10:00:00.000Z",
+ *       "endedAt": "2025-01-01T10:12:30.000Z",
+ *       "exitCode": 0,
+ *       "logPath": "/home/user/soltra/logs/runs/0b6f1c1e-3f51-4a8e-9d57-2a3c7f2f4a10.log"
+ *     }
+ *   ]
+ * }
+ *
+ * - Runs are appended in the order they were started.
+ * - Runs the server rejected have an "error" and no "launcher", "endedAt" or "exitCode".
+ * - Runs that failed to start after waiting in the queue have an "error" and an "endedAt".
+ * - Only runs whose agent succeeded in a product with verification commands have a "verification".
+ */
+
+import {
+    readFile,
+    writeFile,
+    DataFileName,
+} from "src/persistence/storage-backend";
+import type { LauncherType } from "./launchers/types";
+import type { RunVerification } from "./task-execution-api";
+
+export interface TaskExecutionRun {
+    runId: string;
+    taskId: string;
+    prompt: string;
+    workingDirectory: string;
+    worktree?: string;
+    launcher?: LauncherType;
+    agent?: string;
+    handle?: string;
+    startedAt: string;
+    endedAt?: string;
+    exitCode?: number | null;
+    cancelled?: boolean;
+    logPath?: string;
+    error?: string;
+    verification?: RunVerification;
+}
+
+export async function loadTaskExecutionRuns(): Promise<TaskExecutionRun[]> {
+    const text = await readFile(DataFileName.TASK_EXECUTION_RUN);
+    if (!text) {
+        console.log(
+            "[task-execution-run-storage] loadTaskExecutionRuns: No file found, returning empty array"
+        );
+        return [];
+    }
+    const obj = JSON.parse(text);
+
+    if (obj && Array.isArray(obj.runs)) {
+        const runs = obj.runs.map((run: any) => ({
+            runId: run.runId,
+            taskId: run.taskId,
+            prompt: run.prompt || "",
+            workingDirectory: run.workingDirectory || "",
+            worktree: run.worktree,
+            launcher: run.launcher,
+            agent: run.agent,
+            handle: run.handle,
+            startedAt: run.startedAt,
+            endedAt: run.endedAt,
+            exitCode: run.exitCode,
+            cancelled: run.cancelled,
+            logPath: run.logPath,
+            error: run.error,
+            verification: run.verification,
+        }));
+        console.log(
+            `[task-execution-run-storage] loadTaskExecutionRuns: Loaded ${runs.length} runs`
+        );
+        return runs;
+    }
+
+    throw new Error("Invalid Task Execution Run file format");
+}
+
+/**
+ * Get all runs of a task, newest first.
+ */
+export async function getTaskExecutionRuns(
+    taskId: string
+): Promise<TaskExecutionRun[]> {
+    const runs = await loadTaskExecutionRuns();
+    return runs
+        .filter((run) => run.taskId === taskId)
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+export async function addTaskExecutionRun(run: TaskExecutionRun): Promise<void> {
+    const runs = await loadTaskExecutionRuns();
+    runs.push(run);
+    await storeTaskExecutionRuns(runs);
+}
+
+export async function updateTaskExecutionRun(
+    updatedRun: TaskExecutionRun
+): Promise<void> {
+    const runs = await loadTaskExecutionRuns();
+    const index = runs.findIndex((run) => run.runId === updatedRun.runId);
+    if (index === -1) {
+        throw new Error(`Run with id ${updatedRun.runId} not found`);
+    }
+    runs[index] = updatedRun;
+    await storeTaskExecutionRuns(runs);
+}
+
+async function storeTaskExecutionRuns(runs: TaskExecutionRun[]): Promise<void> {
+    console.log(
+        `[task-execution-run-storage] storeTaskExecutionRuns: Saving ${runs.length} runs`
+    );
+    await writeFile(
+        DataFileName.TASK_EXECUTION_RUN,
+        JSON.stringify({ runs }, null, 2)
+    );
+}
@@ -1,4 +1,3 @@
-import { createWorktreeName } from "./task-execution-logic";
 import { getTaskExecutionContext } from "./task-execution-context-storage";
 import { deleteWorktree } from "./task-execution-api";
 import { addTaskStatusChangeCallback } from "src/entities/tasks/task-hooks";
@@ -27,7 +26,12 @@ async function worktreeCleanupCallback(
                 return;
             }
 
-            const worktree = createWorktreeName(task.title);
+            const worktree = taskExecutionContext.worktree;
+            if (!worktree) {
+                // Never ran in a worktree
+                return;
+            }
+
             await deleteWorktree(worktree, { workingDirectory });
         } catch (error) {
             console.error("Failed to cleanup worktree:", error);
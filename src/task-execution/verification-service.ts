@@ -0,0 +1,67 @@
+import type { RunVerification } from "./task-execution-api";
+import { getTaskExecutionSettings } from "./task-execution-context-storage";
+
+/**
+ * Split a command line into its arguments at whitespace, keeping single or
+ * double quoted parts together. The execution server runs commands without a
+ * shell, so operators like && or | are passed to the program as arguments.
+ */
+export function splitCommandLine(line: string): string[] {
+    const args: string[] = [];
+    let arg: string | null = null;
+    let quote: string | null = null;
+
+    for (const char of line) {
+        if (quote) {
+            if (char === quote) {
+                quote = null;
+            } else {
+                arg += char;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+            arg ??= "";
+        } else if (/\s/.test(char)) {
+            if (arg !== null) {
+                args.push(arg);
+                arg = null;
+            }
+        } else {
+            arg = (arg ?? "") + char;
+        }
+    }
+    if (arg !== null) {
+        args.push(arg);
+    }
+    return args;
+}
+
+/**
+ * Verification commands of the nearest product in the task's hierarchy that
+ * has any, as argv arrays for the execution server. Empty when none of them
+ * do.
+ */
+export async function resolveVerificationCommands(
+    taskId: string,
+): Promise<string[][]> {
+    const { verificationCommands } = await getTaskExecutionSettings(taskId);
+    return verificationCommands.value
+        .map(splitCommandLine)
+        .filter((argv) => argv.length > 0);
+}
+
+/**
+ * One line per failed verification command, for notes and tooltips.
+ */
+export function describeVerificationFailures(
+    verification: RunVerification,
+): string {
+    return verification.results
+        .filter((result) => result.exitCode !== 0)
+        .map((result) =>
+            result.timedOut
+                ? `\`${result.command}\` timed out`
+                : `\`${result.command}\` exited with code ${result.exitCode ?? "unknown"}`,
+        )
+        .join(", ");
+}
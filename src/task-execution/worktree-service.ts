@@ -0,0 +1,223 @@
+import { loadTasks } from "src/entities/tasks/task-file-storage";
+import type { Task } from "src/entities/tasks/types";
+import {
+    deleteWorktree,
+    listWorktrees,
+    type WorktreeInfo,
+} from "./task-execution-api";
+import {
+    loadTaskExecutionRuns,
+    type TaskExecutionRun,
+} from "./task-execution-run-storage";
+import {
+    getTaskExecutionContext,
+    getTaskIdsByWorktree,
+    migrateTaskExecutionContextWorktrees,
+    setWorktreeOnTaskExecutionContext,
+} from "./task-execution-context-storage";
+
+export interface TaskWorktree {
+    worktree: string; // Directory name in <workingDirectory>-worktrees
+    branch: string;
+}
+
+/**
+ * Worktree name derived from a task title, as used before worktree names were
+ * recorded. Tasks with similar titles get the same name.
+ */
+export function createWorktreeName(taskTitle: string): string {
+    return taskTitle
+        .toLowerCase()
+        .replace(/[^a-z0-9\s-]/g, "")
+        .replace(/\s+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .substring(0, 50);
+}
+
+/**
+ * New worktree for a task, unique thanks to the start of the task's uuid.
+ */
+function createTaskWorktree(task: Task): TaskWorktree {
+    const slug = createWorktreeName(task.title).substring(0, 40).replace(/-+$/, "");
+    const worktree = `${slug || "task"}-${task.uuid.substring(0, 8)}`;
+    return { worktree, branch: worktree };
+}
+
+/**
+ * Names of the worktree folders on the execution server.
+ */
+async function loadWorktreeNames(): Promise<Set<string>> {
+    return new Set((await listWorktrees()).map((worktree) => worktree.name));
+}
+
+/**
+ * Worktree a task used before worktree names were recorded on its execution
+ * context: the one of its latest recorded run, else the folder named after its
+ * title if it exists, which is where worktrees used to be created.
+ */
+function findLegacyWorktree(
+    taskId: string,
+    taskTitle: string | undefined,
+    runs: TaskExecutionRun[],
+    worktreeNames: Set<string>,
+): string | undefined {
+    const runWorktree = runs
+        .filter((run) => run.taskId === taskId && run.worktree)
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0]?.worktree;
+    if (runWorktree) {
+        return runWorktree;
+    }
+
+    const titleWorktree = taskTitle ? createWorktreeName(taskTitle) : "";
+    return titleWorktree && worktreeNames.has(titleWorktree)
+        ? titleWorktree
+        : undefined;
+}
+
+/**
+ * The worktree a task runs in. It's recorded on the task's execution context
+ * the first time, so renaming the task doesn't move it to another worktree.
+ */
+export async function getTaskWorktree(task: Task): Promise<TaskWorktree> {
+    const context = await getTaskExecutionContext(task.uuid);
+    if (context?.worktree) {
+        return {
+            worktree: context.worktree,
+            branch: context.branch ?? context.worktree,
+        };
+    }
+
+    const [runs, worktreeNames] = await Promise.all([
+        loadTaskExecutionRuns(),
+        loadWorktreeNames(),
+    ]);
+    const legacyWorktree = findLegacyWorktree(
+        task.uuid,
+        task.title,
+        runs,
+        worktreeNames,
+    );
+    const taskWorktree = legacyWorktree
+        ? { worktree: legacyWorktree, branch: legacyWorktree }
+        : createTaskWorktree(task);
+    await setWorktreeOnTaskExecutionContext(
+        task.uuid,
+        taskWorktree.worktree,
+        taskWorktree.branch,
+    );
+    return taskWorktree;
+}
+
+/**
+ * Record the worktree of every task that ran in one before worktree names
+ * were stored on execution contexts. While the execution server can't be
+ * reached only recorded runs are used, tasks whose worktree is named after
+ * their title are found the next time they run.
+ *
+ * @returns The number of execution contexts that were updated
+ */
+export async function migrateWorktreeIdentities(): Promise<number> {
+    const [runs, tasks, worktreeNames] = await Promise.all([
+        loadTaskExecutionRuns(),
+        loadTasks(),
+        loadWorktreeNames().catch((error) => {
+            console.error("Failed to list worktrees:", error);
+            return new Set<string>();
+        }),
+    ]);
+    const titlesById = new Map(tasks.map((task) => [task.uuid, task.title]));
+    return await migrateTaskExecutionContextWorktrees((taskId) =>
+        findLegacyWorktree(taskId, titlesById.get(taskId), runs, worktreeNames),
+    );
+}
+
+export interface WorktreeEntry extends WorktreeInfo {
+    ownerTaskId?: string; // Task the worktree was created for, if it can be told
+    owner?: Task; // That task, unless it was deleted
+    orphanReason?: string; // Why the worktree can be removed, unset while it's in use
+}
+
+/**
+ * Working directories are compared as the server reports them, without
+ * leading "./" or trailing slashes.
+ */
+function normalizeDirectory(directory: string): string {
+    return directory.replace(/^(\.\/)+/, "").replace(/\/+$/, "");
+}
+
+/**
+ * List the worktrees on the execution server with the task that owns each one.
+ *
+ * The owner is the task that recorded the worktree on its execution context,
+ * otherwise the task of the worktree's latest run on the server or of the
+ * latest recorded run in it, otherwise a task whose title still gives the
+ * worktree name. Worktrees without an owner, of deleted or done tasks,
+ * and folders git no longer knows about are orphans.
+ */
+export async function loadWorktreeInventory(): Promise<WorktreeEntry[]> {
+    const [worktrees, tasks, runs, taskIdsByWorktree] = await Promise.all([
+        listWorktrees(),
+        loadTasks(),
+        loadTaskExecutionRuns(),
+        getTaskIdsByWorktree(),
+    ]);
+    const tasksById = new Map(tasks.map((task) => [task.uuid, task]));
+    const newestRunsFirst = [...runs].sort((a, b) =>
+        b.startedAt.localeCompare(a.startedAt),
+    );
+
+    return worktrees.map((worktree) => {
+        const recordedRun = newestRunsFirst.find(
+            (run) =>
+                run.worktree === worktree.name &&
+                normalizeDirectory(run.workingDirectory) ===
+                    normalizeDirectory(worktree.workingDirectory),
+        );
+        const ownerTaskId =
+            taskIdsByWorktree.get(worktree.name) ??
+            worktree.taskId ??
+            recordedRun?.taskId ??
+            tasks.find((task) => createWorktreeName(task.title) === worktree.name)
+                ?.uuid;
+        const owner = ownerTaskId ? tasksById.get(ownerTaskId) : undefined;
+
+        let orphanReason: string | undefined;
+        if (!worktree.registered) {
+            orphanReason = "Not a git worktree anymore";
+        } else if (!ownerTaskId) {
+            orphanReason = "No task";
+        } else if (!owner) {
+            orphanReason = "Task was deleted";
+        } else if (owner.status === "Done") {
+            orphanReason = "Task is done";
+        }
+        // A running agent still needs its worktree
+        if (worktree.runStatus === "running" || worktree.runStatus === "queued") {
+            orphanReason = undefined;
+        }
+
+        return { ...worktree, ownerTaskId, owner, orphanReason };
+    });
+}
+
+/**
+ * Remove a worktree on the execution server. Dirty worktrees and folders git
+ * no longer knows about are only removed when forced.
+ */
+export async function removeWorktree(
+    worktree: WorktreeInfo,
+    force: boolean = false,
+): Promise<void> {
+    const response = await deleteWorktree(worktree.name, {
+        workingDirectory: worktree.workingDirectory,
+        force,
+    });
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(
+            body?.details ??
+                body?.error ??
+                `Server responded with status ${response.status}`,
+        );
+    }
+}
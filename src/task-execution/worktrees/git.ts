@@ -0,0 +1,39 @@
+import { spawn } from "bun";
+
+export interface GitResult {
+    exitCode: number | null;
+    stdout: string;
+    stderr: string;
+}
+
+/**
+ * Run git in a directory and collect its output, whatever its exit code.
+ */
+export async function execGit(cwd: string, args: string[]): Promise<GitResult> {
+    const proc = spawn(["git", ...args], {
+        cwd,
+        stdout: "pipe",
+        stderr: "pipe",
+    });
+    const [stdout, stderr] = await Promise.all([
+        new Response(proc.stdout).text(),
+        new Response(proc.stderr).text(),
+    ]);
+    await proc.exited;
+    return { exitCode: proc.exitCode, stdout, stderr };
+}
+
+/**
+ * Run git in a directory.
+ *
+ * @param okExitCodes Exit codes that aren't errors, e.g. 1 for `git diff --no-index`
+ * @returns Its output, or null when git exits with an error
+ */
+export async function runGit(
+    cwd: string,
+    args: string[],
+    okExitCodes: number[] = [0],
+): Promise<string | null> {
+    const { exitCode, stdout } = await execGit(cwd, args);
+    return okExitCodes.includes(exitCode ?? -1) ? stdout : null;
+}
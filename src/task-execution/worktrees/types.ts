@@ -0,0 +1,3 @@
+export type MergeMode = "merge" | "squash" | "rebase";
+
+export const MERGE_MODES: MergeMode[] = ["merge", "squash", "rebase"];
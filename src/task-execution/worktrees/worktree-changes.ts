@@ -0,0 +1,142 @@
+import { runGit } from "./git";
+
+export interface ChangedFile {
+    path: string;
+    status: string; // A added, M modified, D deleted, R renamed, ? untracked
+    additions: number | null; // null for binary files
+    deletions: number | null;
+}
+
+export interface WorktreeCommit {
+    hash: string;
+    author: string;
+    date: string; // ISO timestamp
+    subject: string;
+}
+
+export interface WorktreeChanges {
+    branch: string | null; // Branch checked out in the worktree, null when detached
+    base: string; // Branch the changes are compared against
+    mergeBase: string; // Commit the worktree branch started from
+    status: string; // `git status --short` of the worktree
+    files: ChangedFile[];
+    commits: WorktreeCommit[]; // Commits on the worktree branch, newest first
+    diff: string; // Unified diff against the merge base, uncommitted and untracked changes included
+    truncated: boolean; // Whether the diff was cut off at MAX_DIFF_CHARS
+}
+
+// Larger diffs are cut off, they're too big to review in the browser anyway
+const MAX_DIFF_CHARS = 1_000_000;
+const MAX_UNTRACKED_DIFFS = 50;
+const FIELD_SEPARATOR = "\x1f";
+
+/**
+ * Branch checked out in the repository, the default base for comparisons.
+ */
+export async function getCurrentBranch(repository: string): Promise<string | null> {
+    const branch = await runGit(repository, ["rev-parse", "--abbrev-ref", "HEAD"]);
+    return branch && branch.trim() !== "HEAD" ? branch.trim() : null;
+}
+
+function parseFiles(nameStatus: string, numstat: string): ChangedFile[] {
+    const counts = new Map<string, [number | null, number | null]>();
+    for (const line of numstat.split("\n").filter(Boolean)) {
+        const [additions, deletions, ...pathParts] = line.split("\t");
+        // Binary files are reported as "-"
+        counts.set(pathParts[pathParts.length - 1]!, [
+            additions === "-" ? null : Number(additions),
+            deletions === "-" ? null : Number(deletions),
+        ]);
+    }
+
+    return nameStatus
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => {
+            const [status, ...paths] = line.split("\t");
+            // Renames list the old and the new path
+            const path = paths[paths.length - 1]!;
+            const [additions, deletions] = counts.get(path) ?? [null, null];
+            return { path, status: status!.charAt(0), additions, deletions };
+        });
+}
+
+/**
+ * Collect what changed in a worktree compared to a base branch of its
+ * repository: committed, uncommitted and untracked changes.
+ *
+ * @returns The changes, or a message describing why they couldn't be collected
+ */
+export async function getWorktreeChanges(
+    repository: string,
+    worktreePath: string,
+    base?: string,
+): Promise<WorktreeChanges | string> {
+    const baseBranch = base ?? (await getCurrentBranch(repository));
+    if (!baseBranch) {
+        return "The repository has no branch checked out, pass a base branch.";
+    }
+
+    const mergeBase = (
+        await runGit(worktreePath, ["merge-base", baseBranch, "HEAD"])
+    )?.trim();
+    if (!mergeBase) {
+        return `Could not find where the worktree branched off ${baseBranch}.`;
+    }
+
+    const [branch, status, nameStatus, numstat, log, trackedDiff, untracked] =
+        await Promise.all([
+            getCurrentBranch(worktreePath),
+            runGit(worktreePath, ["status", "--short"]),
+            runGit(worktreePath, ["diff", "--name-status", "-M", mergeBase]),
+            runGit(worktreePath, ["diff", "--numstat", "-M", mergeBase]),
+            runGit(worktreePath, [
+                "log",
+                `--format=%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%s`,
+                `${mergeBase}..HEAD`,
+            ]),
+            runGit(worktreePath, ["diff", "--no-color", "--no-ext-diff", "-M", mergeBase]),
+            runGit(worktreePath, ["ls-files", "--others", "--exclude-standard"]),
+        ]);
+
+    const files = parseFiles(nameStatus ?? "", numstat ?? "");
+    let diff = trackedDiff ?? "";
+
+    // git diff leaves out untracked files, diff them against nothing instead
+    const untrackedPaths = (untracked ?? "").split("\n").filter(Boolean);
+    for (const path of untrackedPaths.slice(0, MAX_UNTRACKED_DIFFS)) {
+        const untrackedDiff = await runGit(
+            worktreePath,
+            ["diff", "--no-color", "--no-index", "--", "/dev/null", path],
+            [0, 1],
+        );
+        diff += untrackedDiff ?? "";
+    }
+    for (const path of untrackedPaths) {
+        files.push({ path, status: "?", additions: null, deletions: null });
+    }
+
+    const commits = (log ?? "")
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => {
+            const [hash, author, date, subject] = line.split(FIELD_SEPARATOR);
+            return {
+                hash: hash!,
+                author: author ?? "",
+                date: date ?? "",
+                subject: subject ?? "",
+            };
+        });
+
+    return {
+        branch,
+        base: baseBranch,
+        mergeBase,
+        status: status ?? "",
+        files,
+        commits,
+        diff: diff.slice(0, MAX_DIFF_CHARS),
+        truncated: diff.length > MAX_DIFF_CHARS,
+    };
+}
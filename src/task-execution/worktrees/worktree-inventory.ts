@@ -0,0 +1,128 @@
+import { existsSync, readdirSync, realpathSync } from "node:fs";
+import { join, relative } from "node:path";
+import { CONFIG } from "@/config";
+import { listRuns, type RunStatus } from "../runs/run-registry";
+import { runGit } from "./git";
+
+export interface WorktreeInfo {
+    name: string; // Directory name of the worktree
+    workingDirectory: string; // Repository it belongs to, relative to ROOT_CODE_DIR
+    path: string; // Absolute path of the worktree
+    branch: string | null; // Checked out branch, null when detached or unknown
+    dirty: boolean; // Whether it has uncommitted or untracked changes
+    registered: boolean; // Whether git still knows about it, unregistered folders are leftovers
+    taskId?: string; // Task of the latest run in this worktree since the server started
+    runStatus?: RunStatus; // Status of that run
+}
+
+const WORKTREES_SUFFIX = "-worktrees";
+// How deep below ROOT_CODE_DIR to look for repositories
+const MAX_SEARCH_DEPTH = 3;
+
+function listDirectories(path: string): string[] {
+    try {
+        return readdirSync(path, { withFileTypes: true })
+            .filter((entry) => entry.isDirectory())
+            .map((entry) => entry.name);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Find `<repo>-worktrees` folders next to their repository, without descending
+ * into repositories, worktree folders or hidden directories.
+ */
+function findWorktreeFolders(directory: string, depth: number = 0): string[] {
+    const folders: string[] = [];
+    for (const name of listDirectories(directory)) {
+        if (name.startsWith(".") || name === "node_modules") {
+            continue;
+        }
+        const path = join(directory, name);
+        if (name.endsWith(WORKTREES_SUFFIX)) {
+            const repository = path.slice(0, -WORKTREES_SUFFIX.length);
+            if (existsSync(join(repository, ".git"))) {
+                folders.push(path);
+            }
+            continue;
+        }
+        if (depth < MAX_SEARCH_DEPTH && !existsSync(join(path, ".git"))) {
+            folders.push(...findWorktreeFolders(path, depth + 1));
+        }
+    }
+    return folders;
+}
+
+/**
+ * Branches of the worktrees git knows about, by real path.
+ */
+async function getRegisteredWorktrees(
+    repository: string,
+): Promise<Map<string, string | null>> {
+    const worktrees = new Map<string, string | null>();
+    const output = await runGit(repository, ["worktree", "list", "--porcelain"]);
+    if (!output) {
+        return worktrees;
+    }
+
+    // Entries are separated by blank lines, starting with "worktree <path>"
+    for (const entry of output.split("\n\n")) {
+        const lines = entry.split("\n");
+        const pathLine = lines.find((line) => line.startsWith("worktree "));
+        if (!pathLine) {
+            continue;
+        }
+        const path = pathLine.slice("worktree ".length);
+        const branchLine = lines.find((line) => line.startsWith("branch "));
+        worktrees.set(
+            existsSync(path) ? realpathSync(path) : path,
+            branchLine
+                ? branchLine.slice("branch ".length).replace(/^refs\/heads\//, "")
+                : null,
+        );
+    }
+    return worktrees;
+}
+
+/**
+ * List every worktree folder under ROOT_CODE_DIR with its branch, dirty state
+ * and the task of the latest run that used it.
+ */
+export async function listWorktrees(): Promise<WorktreeInfo[]> {
+    const root = CONFIG.ROOT_CODE_DIR;
+    const runs = listRuns();
+    const worktrees: WorktreeInfo[] = [];
+
+    for (const folder of findWorktreeFolders(root)) {
+        const repository = folder.slice(0, -WORKTREES_SUFFIX.length);
+        const workingDirectory = relative(root, repository);
+        const registered = await getRegisteredWorktrees(repository);
+
+        for (const name of listDirectories(folder)) {
+            const path = join(folder, name);
+            const realPath = realpathSync(path);
+            const isRegistered = registered.has(realPath);
+            const status = isRegistered
+                ? await runGit(path, ["status", "--porcelain"])
+                : null;
+            // runs are sorted newest first
+            const run = runs.find(
+                (r) => r.codeDirectory === workingDirectory && r.worktree === name,
+            );
+
+            worktrees.push({
+                name,
+                workingDirectory,
+                path,
+                branch: registered.get(realPath) ?? null,
+                dirty: status === null ? false : status.trim() !== "",
+                registered: isRegistered,
+                taskId: run?.taskId,
+                runStatus: run?.status,
+            });
+        }
+    }
+
+    return worktrees;
+}
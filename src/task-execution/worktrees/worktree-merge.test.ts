@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MERGE_MODES } from "./types";
+import { mergeWorktreeBranch } from "./worktree-merge";
+
+let testDir: string;
+let repository: string;
+let worktreePath: string;
+
+function git(cwd: string, ...args: string[]): string {
+    const result = Bun.spawnSync(["git", ...args], { cwd });
+    if (result.exitCode !== 0) {
+        throw new Error(`git ${args.join(" ")} failed: ${result.stderr.toString()}`);
+    }
+    return result.stdout.toString().trim();
+}
+
+function commitFile(cwd: string, content: string, file = "file.txt"): void {
+    writeFileSync(join(cwd, file), content);
+    git(cwd, "add", file);
+    git(cwd, "commit", "--quiet", "-m", `Change ${file}`);
+}
+
+/**
+ * Commits that change the same line on the base and the worktree branch.
+ */
+function commitConflictingChanges(): void {
+    commitFile(repository, "base change\n");
+    commitFile(worktreePath, "worktree change\n");
+}
+
+function expectRolledBack(baseHead: string, branchHead: string): void {
+    expect(git(repository, "rev-parse", "main")).toBe(baseHead);
+    expect(git(repository, "rev-parse", "wt")).toBe(branchHead);
+    expect(git(repository, "status", "--porcelain")).toBe("");
+    expect(git(worktreePath, "status", "--porcelain")).toBe("");
+}
+
+beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), "worktree-merge-"));
+    repository = join(testDir, "repo");
+    worktreePath = join(testDir, "repo-worktrees", "wt");
+    mkdirSync(repository);
+
+    git(repository, "init", "--quiet", "--initial-branch", "main");
+    // The repository's config also applies to the commits of merges and rebases
+    git(repository, "config", "user.name", "Test");
+    git(repository, "config", "user.email", "test@example.com");
+    commitFile(repository, "initial\n");
+    git(repository, "worktree", "add", "--quiet", "-b", "wt", worktreePath);
+});
+
+afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+});
+
+describe("mergeWorktreeBranch", () => {
+    for (const mode of MERGE_MODES) {
+        test(`rolls back a ${mode} with conflicts and returns them`, async () => {
+            commitConflictingChanges();
+            const baseHead = git(repository, "rev-parse", "main");
+            const branchHead = git(repository, "rev-parse", "wt");
+
+            const result = await mergeWorktreeBranch(repository, worktreePath, { mode });
+
+            expect(result).toEqual({
+                status: "conflicts",
+                mode,
+                base: "main",
+                branch: "wt",
+                conflicts: [{ path: "file.txt", type: "both-modified" }],
+            });
+            expectRolledBack(baseHead, branchHead);
+            expect(readFileSync(join(repository, "file.txt"), "utf8")).toBe("base change\n");
+        });
+    }
+
+    test("checks the original branch out again after a failed merge", async () => {
+        commitConflictingChanges();
+        git(repository, "checkout", "--quiet", "-b", "feature");
+        const baseHead = git(repository, "rev-parse", "main");
+        const branchHead = git(repository, "rev-parse", "wt");
+
+        const result = await mergeWorktreeBranch(repository, worktreePath, {
+            mode: "merge",
+            base: "main",
+        });
+
+        expect(result.status).toBe("conflicts");
+        expect(git(repository, "rev-parse", "--abbrev-ref", "HEAD")).toBe("feature");
+        expectRolledBack(baseHead, branchHead);
+    });
+
+    test("leaves the base branch checked out after a successful merge", async () => {
+        git(repository, "checkout", "--quiet", "-b", "feature");
+        commitFile(worktreePath, "worktree change\n");
+
+        const result = await mergeWorktreeBranch(repository, worktreePath, {
+            mode: "squash",
+            base: "main",
+        });
+
+        expect(result).toMatchObject({ status: "merged", base: "main", commits: 1 });
+        expect(git(repository, "rev-parse", "--abbrev-ref", "HEAD")).toBe("main");
+        expect(readFileSync(join(repository, "file.txt"), "utf8")).toBe("worktree change\n");
+    });
+});
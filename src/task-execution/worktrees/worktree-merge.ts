@@ -0,0 +1,230 @@
+import { execGit, runGit } from "./git";
+import { getCurrentBranch } from "./worktree-changes";
+import type { MergeMode } from "./types";
+
+export type ConflictType =
+    | "both-modified"
+    | "both-added"
+    | "both-deleted"
+    | "added-by-us"
+    | "added-by-them"
+    | "deleted-by-us"
+    | "deleted-by-them";
+
+export interface MergeConflict {
+    path: string;
+    type: ConflictType;
+}
+
+export interface MergeOptions {
+    mode: MergeMode;
+    base?: string; // Defaults to the branch checked out in the repository
+    message?: string; // Commit message for merge and squash commits
+}
+
+export type MergeResult =
+    | {
+          status: "merged";
+          mode: MergeMode;
+          base: string;
+          branch: string;
+          commits: number; // Commits of the worktree branch that weren't on the base yet
+          head: string; // Commit the base branch points to afterwards
+      }
+    | {
+          status: "conflicts";
+          mode: MergeMode;
+          base: string;
+          branch: string;
+          conflicts: MergeConflict[];
+      }
+    | { status: "rejected"; reason: string };
+
+// Unmerged entries of `git status --porcelain`
+const CONFLICT_TYPES: Record<string, ConflictType> = {
+    UU: "both-modified",
+    AA: "both-added",
+    DD: "both-deleted",
+    AU: "added-by-us",
+    UA: "added-by-them",
+    DU: "deleted-by-us",
+    UD: "deleted-by-them",
+};
+
+async function collectConflicts(cwd: string): Promise<MergeConflict[]> {
+    const status = await runGit(cwd, ["status", "--porcelain"]);
+    return (status ?? "")
+        .split("\n")
+        .map((line) => ({
+            type: CONFLICT_TYPES[line.substring(0, 2)],
+            path: line.substring(3),
+        }))
+        .filter((conflict): conflict is MergeConflict => !!conflict.type);
+}
+
+async function hasTrackedChanges(cwd: string): Promise<boolean> {
+    const status = await runGit(cwd, [
+        "status",
+        "--porcelain",
+        "--untracked-files=no",
+    ]);
+    return status === null || status.trim() !== "";
+}
+
+function describeFailure(action: string, stderr: string): string {
+    return `${action} failed: ${stderr.trim() || "git exited with an error"}`;
+}
+
+/**
+ * Bring the branch of a worktree into a base branch of its repository without
+ * going through a remote:
+ *
+ * - merge: merge commit on the base branch
+ * - squash: a single commit with all changes on the base branch
+ * - rebase: rebase the worktree branch onto the base, then fast-forward the base
+ *
+ * Both the repository and the worktree must be free of uncommitted changes to
+ * tracked files. The repository checks out the base branch if needed, and goes
+ * back to its original branch when the merge fails. On conflicts everything is
+ * rolled back and the conflicting files are returned.
+ */
+export async function mergeWorktreeBranch(
+    repository: string,
+    worktreePath: string,
+    options: MergeOptions,
+): Promise<MergeResult> {
+    const { mode } = options;
+    const branch = await getCurrentBranch(worktreePath);
+    if (!branch) {
+        return { status: "rejected", reason: "The worktree has no branch checked out." };
+    }
+    const currentBranch = await getCurrentBranch(repository);
+    const base = options.base ?? currentBranch;
+    if (!base) {
+        return {
+            status: "rejected",
+            reason: "The repository has no branch checked out, pass a base branch.",
+        };
+    }
+    if (base === branch) {
+        return {
+            status: "rejected",
+            reason: `The worktree is on the base branch ${base} already.`,
+        };
+    }
+    if (await hasTrackedChanges(worktreePath)) {
+        return {
+            status: "rejected",
+            reason: "The worktree has uncommitted changes, commit them first.",
+        };
+    }
+    if (await hasTrackedChanges(repository)) {
+        return {
+            status: "rejected",
+            reason: "The working directory has uncommitted changes, commit or stash them first.",
+        };
+    }
+
+    const count = await runGit(repository, ["rev-list", "--count", `${base}..${branch}`]);
+    if (count === null) {
+        return { status: "rejected", reason: `Unknown base branch: ${base}` };
+    }
+    const commits = Number(count.trim());
+
+    if (commits > 0) {
+        // Detached repositories go back to the commit they were on
+        const originalHead =
+            currentBranch ?? (await runGit(repository, ["rev-parse", "HEAD"]))?.trim();
+        const switchesBranch = currentBranch !== base;
+        if (switchesBranch) {
+            const checkout = await execGit(repository, ["checkout", base]);
+            if (checkout.exitCode !== 0) {
+                return {
+                    status: "rejected",
+                    reason: describeFailure(`Checking out ${base}`, checkout.stderr),
+                };
+            }
+        }
+
+        let applied = false;
+        try {
+            const failure = await applyBranch(repository, worktreePath, branch, base, options);
+            if (failure) {
+                return failure;
+            }
+            applied = true;
+        } finally {
+            // Only a successful merge leaves the base branch checked out
+            if (switchesBranch && !applied && originalHead) {
+                await execGit(repository, ["checkout", originalHead]);
+            }
+        }
+    }
+
+    const head = (await runGit(repository, ["rev-parse", base]))?.trim() ?? "";
+    return { status: "merged", mode, base, branch, commits, head };
+}
+
+/**
+ * @returns Why the branch couldn't be applied, or null once it's on the base
+ */
+async function applyBranch(
+    repository: string,
+    worktreePath: string,
+    branch: string,
+    base: string,
+    options: MergeOptions,
+): Promise<MergeResult | null> {
+    const { mode } = options;
+
+    if (mode === "rebase") {
+        const rebase = await execGit(worktreePath, ["rebase", base]);
+        if (rebase.exitCode !== 0) {
+            const conflicts = await collectConflicts(worktreePath);
+            await execGit(worktreePath, ["rebase", "--abort"]);
+            return conflicts.length > 0
+                ? { status: "conflicts", mode, base, branch, conflicts }
+                : { status: "rejected", reason: describeFailure("Rebase", rebase.stderr) };
+        }
+        const fastForward = await execGit(repository, ["merge", "--ff-only", branch]);
+        return fastForward.exitCode === 0
+            ? null
+            : { status: "rejected", reason: describeFailure("Fast-forward", fastForward.stderr) };
+    }
+
+    const merge = await execGit(
+        repository,
+        mode === "squash"
+            ? ["merge", "--squash", branch]
+            : [
+                  "merge",
+                  "--no-ff",
+                  "--no-edit",
+                  "-m",
+                  options.message || `Merge branch '${branch}'`,
+                  branch,
+              ],
+    );
+    if (merge.exitCode !== 0) {
+        const conflicts = await collectConflicts(repository);
+        // Squash merges leave no MERGE_HEAD, so `git merge --abort` can't undo them
+        await execGit(repository, ["reset", "--merge"]);
+        return conflicts.length > 0
+            ? { status: "conflicts", mode, base, branch, conflicts }
+            : { status: "rejected", reason: describeFailure("Merge", merge.stderr) };
+    }
+
+    if (mode === "squash") {
+        const commit = await execGit(repository, [
+            "commit",
+            "-m",
+            options.message || `Squash merge branch '${branch}'`,
+        ]);
+        if (commit.exitCode !== 0) {
+            await execGit(repository, ["reset", "--merge"]);
+            return { status: "rejected", reason: describeFailure("Commit", commit.stderr) };
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,36 @@
+import { spawn } from "bun";
+import { join } from "node:path";
+
+/**
+ * Create a git worktree by running scripts/create-worktree.sh.
+ * Reuses the worktree if it already exists. The branch defaults to the
+ * worktree directory name.
+ */
+export async function createWorktree(
+    sourceRepo: string,
+    worktreePath: string,
+    branch?: string,
+): Promise<void> {
+    const createWorktreeScript = join(
+        import.meta.dir,
+        "..",
+        "scripts",
+        "create-worktree.sh",
+    );
+
+    const args = [createWorktreeScript, sourceRepo, worktreePath];
+    if (branch) {
+        args.push(branch);
+    }
+
+    const proc = spawn(["bash", ...args], {
+        stdout: "inherit",
+        stderr: "inherit",
+    });
+
+    await proc.exited;
+
+    if (proc.exitCode !== 0) {
+        throw new Error(`Script exited with code ${proc.exitCode}`);
+    }
+}
@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+    loadWorktreeInventory,
+    migrateWorktreeIdentities,
+    removeWorktree,
+    type WorktreeEntry,
+} from "src/task-execution/worktree-service";
+
+function worktreeKey(worktree: WorktreeEntry): string {
+    return `${worktree.workingDirectory}/${worktree.name}`;
+}
+
+/**
+ * Every worktree on the execution server with its owning task, to prune
+ * the ones left behind by deleted, renamed or finished tasks in bulk.
+ */
+export function WorktreesPanel() {
+    const [worktrees, setWorktrees] = useState<WorktreeEntry[] | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [isRemoving, setIsRemoving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [failures, setFailures] = useState<string[]>([]);
+
+    const refresh = useCallback(async () => {
+        try {
+            setError(null);
+            const inventory = await loadWorktreeInventory();
+            setWorktrees(inventory);
+            // Only keep selections that still exist
+            setSelected(
+                (prev) =>
+                    new Set(
+                        inventory
+                            .map(worktreeKey)
+                            .filter((key) => prev.has(key)),
+                    ),
+            );
+        } catch (err) {
+            console.error("Failed to load worktrees:", err);
+            setError(
+                err instanceof Error ? err.message : "Failed to load worktrees",
+            );
+        }
+    }, []);
+
+    useEffect(() => {
+        // Record worktrees of tasks that ran before their names were stored,
+        // so they are attributed to the right task
+        migrateWorktreeIdentities()
+            .catch((err) => console.error("Failed to migrate worktrees:", err))
+            .then(refresh);
+    }, [refresh]);
+
+    const toggle = (worktree: WorktreeEntry) => {
+        setSelected((prev) => {
+            const next = new Set(prev);
+            const key = worktreeKey(worktree);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    // Clean orphans are safe to remove, dirty ones need a deliberate choice
+    const selectCleanOrphans = () => {
+        setSelected(
+            new Set(
+                (worktrees ?? [])
+                    .filter((w) => w.orphanReason && !w.dirty)
+                    .map(worktreeKey),
+            ),
+        );
+    };
+
+    const handleRemoveSelected = async () => {
+        const toRemove = (worktrees ?? []).filter((w) =>
+            selected.has(worktreeKey(w)),
+        );
+        if (toRemove.length === 0) {
+            return;
+        }
+        const needForce = toRemove.filter((w) => w.dirty || !w.registered);
+        const confirmation =
+            needForce.length > 0
+                ? `Remove ${toRemove.length} worktree(s)? ${needForce.length} of them have uncommitted changes or are unknown to git, their contents will be lost.`
+                : `Remove ${toRemove.length} worktree(s)?`;
+        if (!confirm(confirmation)) {
+            return;
+        }
+
+        setIsRemoving(true);
+        setFailures([]);
+        const failed: string[] = [];
+        for (const worktree of toRemove) {
+            try {
+                await removeWorktree(
+                    worktree,
+                    worktree.dirty || !worktree.registered,
+                );
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                failed.push(`${worktreeKey(worktree)}: ${message}`);
+            }
+        }
+        setFailures(failed);
+        setIsRemoving(false);
+        await refresh();
+    };
+
+    const orphanCount = (worktrees ?? []).filter((w) => w.orphanReason).length;
+
+    return (
+        <div className="container mx-auto p-6">
+            <div className="flex items-center justify-between mb-6">
+                <h2 className="text-3xl font-bold">Worktrees</h2>
+                <div className="flex gap-2">
+                    <button className="btn btn-sm" onClick={refresh}>
+                        Refresh
+                    </button>
+                    <button
+                        className="btn btn-sm btn-outline"
+                        onClick={selectCleanOrphans}
+                        disabled={orphanCount === 0}
+                    >
+                        Select clean orphans
+                    </button>
+                    <button
+                        className="btn btn-sm btn-error"
+                        onClick={handleRemoveSelected}
+                        disabled={selected.size === 0 || isRemoving}
+                    >
+                        {isRemoving
+                            ? "Removing..."
+                            : `Remove selected (${selected.size})`}
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="alert alert-error mb-6">
+                    <span>{error}</span>
+                </div>
+            )}
+            {failures.length > 0 && (
+                <div className="alert alert-warning mb-6">
+                    <div>
+                        <div className="font-semibold">
+                            Some worktrees could not be removed
+                        </div>
+                        {failures.map((failure) => (
+                            <div key={failure} className="text-xs font-mono">
+                                {failure}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {!worktrees && !error && (
+                <div className="flex justify-center items-center py-12">
+                    <span className="loading loading-spinner loading-lg"></span>
+                </div>
+            )}
+
+            {worktrees && worktrees.length === 0 && (
+                <div className="text-center text-gray-500 py-12">
+                    No worktrees found
+                </div>
+            )}
+
+            {worktrees && worktrees.length > 0 && (
+                <div className="card bg-base-100 shadow-xl">
+                    <div className="card-body">
+                        <p className="text-xs text-gray-500 mb-2">
+                            {worktrees.length} worktree
+                            {worktrees.length !== 1 ? "s" : ""}, {orphanCount}{" "}
+                            orphaned
+                        </p>
+                        <div className="space-y-2">
+                            {worktrees.map((worktree) => (
+                                <label
+                                    key={worktreeKey(worktree)}
+                                    className="flex items-center gap-3 p-2 rounded bg-base-200 text-sm cursor-pointer"
+                                >
+                                    <input
+                                        type="checkbox"
+                                        className="checkbox checkbox-sm"
+                                        checked={selected.has(
+                                            worktreeKey(worktree),
+                                        )}
+                                        onChange={() => toggle(worktree)}
+                                    />
+                                    <div className="flex-1 min-w-0">
+                                        <div className="font-medium font-mono truncate">
+                                            {worktree.name}
+                                        </div>
+                                        <div className="text-xs text-gray-500 font-mono truncate">
+                                            📁 {worktree.workingDirectory}
+                                            {worktree.branch &&
+                                                ` • ${worktree.branch}`}
+                                        </div>
+                                    </div>
+                                    {worktree.dirty && (
+                                        <span className="badge badge-warning badge-sm">
+                                            Uncommitted changes
+                                        </span>
+                                    )}
+                                    {worktree.runStatus && (
+                                        <span className="badge badge-ghost badge-sm">
+                                            {worktree.runStatus}
+                                        </span>
+                                    )}
+                                    <span className="text-xs w-48 truncate text-right">
+                                        {worktree.owner ? (
+                                            <Link
+                                                to={`/task/${worktree.owner.uuid}`}
+                                                className="link link-hover"
+                                                onClick={(e) =>
+                                                    e.stopPropagation()
+                                                }
+                                            >
+                                                {worktree.owner.title}
+                                            </Link>
+                                        ) : (
+                                            <span className="text-gray-500">
+                                                No task
+                                            </span>
+                                        )}
+                                    </span>
+                                    {worktree.orphanReason ? (
+                                        <span className="badge badge-error badge-sm">
+                                            {worktree.orphanReason}
+                                        </span>
+                                    ) : (
+                                        <span className="badge badge-success badge-sm">
+                                            In use
+                                        </span>
+                                    )}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}